@@ -1,38 +1,108 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { CameraView } from './components/CameraView';
+import { CandidatePicker } from './components/CandidatePicker';
+import { ErrorScreen } from './components/ErrorScreen';
+import { ExplorerMap } from './components/ExplorerMap';
+import { ImportQueuePanel } from './components/ImportQueuePanel';
+import { GeoExportMenu } from './components/GeoExportMenu';
+import { MiniPlayer } from './components/MiniPlayer';
+import { OfflineBadge } from './components/OfflineBadge';
 import { NarratedExperience } from './components/NarratedExperience';
-import { identifyLandmark, getLandmarkHistory, getRelatedLandmarks, searchLandmarkByName, generateLandmarkImage } from './services/gemini';
-import { AppState, LandmarkResult } from './types';
+import { SettingsPanel } from './components/SettingsPanel';
+import { TripBookMenu } from './components/TripBookMenu';
+import { UpdatePrompt } from './components/UpdatePrompt';
+import { AUDIO_FORMATS, AudioFormat, downloadBookmarkedNarrations } from './services/audioExport';
+import { identifyLandmark, activeProviderName, providerRequiresNetwork } from './services/ai';
+import { getCachedLandmarkByName, getCachedLandmarkHistory, getCachedLandmarkImage, getCachedRelatedLandmarks, normalizeLandmarkName } from './services/cache';
+import { AppError, AppErrorKind, toAppError } from './services/errors';
+import { importWaypoints } from './services/geoFormats';
+import { useTranslation } from './services/i18n';
+import { researchLandmark } from './services/landmarks';
+import { dropOfflineParts, removeOfflineDownload, startOfflineDownload } from './services/offlineDownload';
+import { enqueue, pausePlaylist, playAll } from './services/playlist';
+import { landmarkRoute, navigate, parseRoute, Route, useRouteChanges } from './services/router';
+import { getResult, loadHistory, saveResult, subscribe, updateResult } from './services/storage';
+import { TranslationKey } from './services/translations';
+import { AppState, CacheStatus, CaptureMetadata, LandmarkCandidate, LandmarkInfo, LandmarkResult, LanguageCode, NarrationChapter, NarrationVariant, OfflinePart } from './types';
+import { NormalizedImage } from './utils/image';
+import { isAbortError } from './utils/retry';
 import { 
-  Sparkles, Loader2, AlertCircle, Compass, Map as MapIcon, 
+  Sparkles, Loader2, Compass, Map as MapIcon, 
   Layers, Search, Eye, BookOpen, Clock, Globe, LayoutGrid, X, 
-  WifiOff, Bookmark, Download, MapPin
+  WifiOff, Bookmark, MapPin, FlaskConical, Settings, FileArchive, Headphones, ListPlus, Route as RouteIcon
 } from 'lucide-react';
 
-const STORAGE_KEY = 'lumina_tour_history';
+// Below this the top guess is shown next to its rivals instead of being trusted
+const LOW_CONFIDENCE = 0.6;
+
+// What went wrong, plus how to run the failed step again
+interface Failure {
+  kind: AppErrorKind;
+  fallback: TranslationKey;
+  retry?: () => void;
+}
+
+interface PendingCapture {
+  photo: NormalizedImage;
+  capture?: CaptureMetadata;
+  candidates: LandmarkCandidate[];
+}
+
+const VIEW_STATES: Record<Exclude<Route['view'], 'landmark'>, AppState> = {
+  home: AppState.IDLE,
+  journal: AppState.HISTORY,
+  saved: AppState.BOOKMARKS,
+  map: AppState.MAP,
+};
+
+// Transient screens (loading, choosing, errors) keep whatever URL led to them
+function routeForState(state: AppState, result: LandmarkResult | null): Route | null {
+  switch (state) {
+    case AppState.IDLE: return { view: 'home' };
+    case AppState.HISTORY: return { view: 'journal' };
+    case AppState.BOOKMARKS: return { view: 'saved' };
+    case AppState.MAP: return { view: 'map' };
+    case AppState.RESULT: return result ? landmarkRoute(result) : null;
+    default: return null;
+  }
+}
+
+// A landmark link shows the loading screen until its entry is found or fetched
+function initialState(route: Route): AppState {
+  return route.view === 'landmark' ? AppState.SEARCHING : VIEW_STATES[route.view];
+}
 
 const App: React.FC = () => {
-  const [state, setState] = useState<AppState>(AppState.IDLE);
+  const [state, setState] = useState<AppState>(() => initialState(parseRoute()));
   const [result, setResult] = useState<LandmarkResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Failure | null>(null);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  const [pendingCapture, setPendingCapture] = useState<PendingCapture | null>(null);
   const [history, setHistory] = useState<LandmarkResult[]>([]);
   const [isOffline, setIsOffline] = useState(!navigator.onLine);
+  const aiUnavailable = isOffline && providerRequiresNetwork;
   const [searchQuery, setSearchQuery] = useState('');
-  const mapRef = useRef<any>(null);
-  const mapContainerRef = useRef<HTMLDivElement>(null);
-
-  // Sync history with localStorage
+  const [cacheStatus, setCacheStatus] = useState<CacheStatus | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const { t, language } = useTranslation();
+  const pipelineRef = useRef<AbortController | null>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
+  // Sync history with the IndexedDB journal
   useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        setHistory(JSON.parse(saved));
-      } catch (e) {
-        console.error("Failed to parse history");
-      }
-    }
+    loadHistory()
+      .then(setHistory)
+      .catch(err => console.error("Failed to load history", err));
+
+    const unsubscribe = subscribe(updated => {
+      setHistory(prev => prev.some(item => item.id === updated.id)
+        ? prev.map(item => item.id === updated.id ? updated : item)
+        : [updated, ...prev]);
+      setResult(prev => prev && prev.id === updated.id ? updated : prev);
+    });
 
     const handleOnline = () => setIsOffline(false);
     const handleOffline = () => setIsOffline(true);
@@ -41,184 +111,408 @@ const App: React.FC = () => {
     return () => {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
+      unsubscribe();
     };
   }, []);
 
+  // Only the latest identify/research run may touch the screen; starting one cancels the last
+  const startPipeline = (): AbortSignal => {
+    pipelineRef.current?.abort();
+    const controller = new AbortController();
+    pipelineRef.current = controller;
+    return controller.signal;
+  };
+
+  // Leaving the loading screens means nobody is waiting for that answer any more
+  useEffect(() => {
+    if (state !== AppState.IDENTIFYING && state !== AppState.SEARCHING) pipelineRef.current?.abort();
+  }, [state]);
+
+  const fail = (err: unknown, fallback: TranslationKey, retry?: () => void) => {
+    console.error(err);
+    setError({ kind: toAppError(err).kind, fallback, retry });
+    setState(AppState.ERROR);
+  };
+
   const saveToHistory = (newResult: LandmarkResult) => {
-    setHistory(prev => {
-      const filtered = prev.filter(item => item.id !== newResult.id);
-      const updated = [newResult, ...filtered].slice(0, 50); // Increased limit
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-      return updated;
-    });
+    saveResult(newResult).catch(err => console.error("Failed to save to journal", err));
   };
 
-  const handleCapture = async (base64Image: string) => {
-    if (isOffline) {
-      setError("Internet connection required for new discoveries.");
-      setState(AppState.ERROR);
+  const handleCapture = async (photo: NormalizedImage, capture?: CaptureMetadata) => {
+    if (aiUnavailable) {
+      fail(new AppError('network', "Offline"), 'error.needsConnection', () => handleCapture(photo, capture));
       return;
     }
-    setCapturedImage(base64Image);
+    const signal = startPipeline();
+    setCapturedImage(photo.dataUrl);
     setState(AppState.IDENTIFYING);
     setError(null);
     try {
-      const info = await identifyLandmark(base64Image);
-      await processLandmark(info, base64Image);
-    } catch (err: any) {
-      console.error(err);
-      setError(err.message || "Failed to analyze image. Please try again.");
-      setState(AppState.ERROR);
+      const candidates = await identifyLandmark(photo.dataUrl, language, capture, signal);
+      if (signal.aborted) return;
+      const pending = { photo, capture, candidates };
+      if (candidates.length > 1 && candidates[0].confidence < LOW_CONFIDENCE) {
+        setPendingCapture(pending);
+        setState(AppState.CHOOSING);
+        return;
+      }
+      await processCandidate(pending, 0, signal);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      fail(err, 'error.analyzeFailed', () => handleCapture(photo, capture));
     }
   };
 
-  const handleSearch = async (e: React.FormEvent) => {
+  const processCandidate = async ({ photo, capture, candidates }: PendingCapture, index: number, signal: AbortSignal) => {
+    const { confidence, cues, ...info } = candidates[index];
+    await processLandmark(info, photo.originalUrl || photo.dataUrl, {
+      capture,
+      thumbnailUrl: photo.thumbnailUrl,
+      candidates,
+      candidateIndex: index
+    }, signal);
+  };
+
+  const chooseCandidate = (index: number) => {
+    if (!pendingCapture) return;
+    const pending = pendingCapture;
+    setPendingCapture(null);
+    const run = async () => {
+      const signal = startPipeline();
+      try {
+        await processCandidate(pending, index, signal);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        fail(err, 'error.analyzeFailed', run);
+      }
+    };
+    run();
+  };
+
+  // Rewrites the same journal entry, so the rejected guess does not linger
+  const tryNextCandidate = async () => {
+    if (!result?.candidates) return;
+    const nextIndex = (result.candidateIndex ?? 0) + 1;
+    const next = result.candidates[nextIndex];
+    if (!next) return;
+    const { confidence, cues, ...info } = next;
+    const signal = startPipeline();
+    setCapturedImage(result.thumbnailUrl || result.imageUrl);
+    setError(null);
+    try {
+      await processLandmark(info, result.imageUrl, {
+        id: result.id,
+        timestamp: result.timestamp,
+        capture: result.capture,
+        thumbnailUrl: result.thumbnailUrl,
+        candidates: result.candidates,
+        candidateIndex: nextIndex,
+        isBookmarked: result.isBookmarked
+      }, signal);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      fail(err, 'error.analyzeFailed', tryNextCandidate);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!searchQuery.trim() || isOffline) return;
-    
+    if (!searchQuery.trim()) return;
+    searchByName(searchQuery);
+  };
+
+  // `id` is reused when resolving a shared link, so the link keeps working here afterwards
+  const searchByName = async (query: string, id?: string) => {
+    const signal = startPipeline();
     setState(AppState.IDENTIFYING);
     setError(null);
     try {
-      const info = await searchLandmarkByName(searchQuery);
+      const { value: info } = await getCachedLandmarkByName(query, language, { signal });
       // Fetch an image for it
-      const imageUrl = await generateLandmarkImage(info.name);
+      const { value: imageUrl } = await getCachedLandmarkImage(info.name, undefined, { signal });
+      if (signal.aborted) return;
       setCapturedImage(imageUrl);
-      await processLandmark(info, imageUrl);
+      await processLandmark(info, imageUrl, id ? { id } : {}, signal);
       setSearchQuery('');
-    } catch (err: any) {
-      setError("Landmark not found or search failed.");
-      setState(AppState.ERROR);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      fail(err, 'error.searchFailed', () => searchByName(query, id));
     }
   };
 
-  const processLandmark = async (info: any, image: string) => {
+  const processLandmark = async (info: LandmarkInfo, image: string, extras: Partial<LandmarkResult>, signal: AbortSignal) => {
     setState(AppState.SEARCHING);
-    const [historyData, relatedData] = await Promise.all([
-      getLandmarkHistory(info.name),
-      getRelatedLandmarks(info.name, info.location || "")
-    ]);
-    
-    const newResult: LandmarkResult = {
-      id: crypto.randomUUID(),
-      info,
-      history: historyData.text,
-      sources: historyData.sources,
-      relatedLandmarks: relatedData,
-      imageUrl: image,
-      timestamp: Date.now(),
-      isBookmarked: false,
-      isDownloaded: false
-    };
-    
+    const { result: newResult, cacheStatus: status } = await researchLandmark(info, image, language, extras, signal);
+    // Cache hits do not notice the abort, so check before showing a stale answer
+    if (signal.aborted) return;
+    setCacheStatus(status);
     setResult(newResult);
     saveToHistory(newResult);
     setState(AppState.RESULT);
   };
 
   const toggleBookmark = (id: string) => {
-    setHistory(prev => {
-      const updated = prev.map(item => 
-        item.id === id ? { ...item, isBookmarked: !item.isBookmarked } : item
-      );
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-      return updated;
-    });
-    if (result && result.id === id) {
-      setResult({ ...result, isBookmarked: !result.isBookmarked });
+    const item = history.find(entry => entry.id === id);
+    if (item) {
+      updateResult(id, { isBookmarked: !item.isBookmarked })
+        .catch(err => console.error("Failed to update bookmark", err));
     }
   };
 
   const toggleDownload = (id: string) => {
-    setHistory(prev => {
-      const updated = prev.map(item => 
-        item.id === id ? { ...item, isDownloaded: !item.isDownloaded } : item
-      );
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-      return updated;
-    });
-    if (result && result.id === id) {
-      setResult({ ...result, isDownloaded: !result.isDownloaded });
+    const item = history.find(entry => entry.id === id);
+    if (item) {
+      const change = item.isDownloaded ? removeOfflineDownload(id) : startOfflineDownload(item);
+      change.catch(err => console.error("Failed to update download state", err));
     }
   };
 
   const exploreRelated = async (name: string) => {
-    if (isOffline) return;
     setSearchQuery(name);
     // Reuse search logic
+    const signal = startPipeline();
     setState(AppState.IDENTIFYING);
     try {
-      const info = await searchLandmarkByName(name);
-      const imageUrl = await generateLandmarkImage(info.name);
-      setCapturedImage(imageUrl);
-      await processLandmark(info, imageUrl);
+      const { value: info } = await getCachedLandmarkByName(name, language, { signal });
+      // Stubs saved with an offline tour have no picture; open them without one
+      const imageUrl = await getCachedLandmarkImage(info.name, undefined, { signal })
+        .then(({ value }) => value)
+        .catch(err => {
+          if (aiUnavailable && !isAbortError(err)) return '';
+          throw err;
+        });
+      if (signal.aborted) return;
+      setCapturedImage(imageUrl || null);
+      await processLandmark(info, imageUrl, {}, signal);
       setSearchQuery('');
     } catch (err) {
-      setError("Could not explore related site.");
-      setState(AppState.ERROR);
+      if (isAbortError(err)) return;
+      fail(err, 'error.relatedFailed', () => exploreRelated(name));
+    }
+  };
+
+  const updateAudioCache = (audioBase64: string, narrationScript: string) => {
+    if (result) {
+      updateResult(result.id, { audioBase64, narrationScript })
+        .catch(err => console.error("Failed to cache narration", err));
     }
   };
 
-  const updateAudioCache = (audioBase64: string) => {
+  const saveNarrationVariant = (variant: NarrationVariant) => {
     if (result) {
-      const updatedResult = { ...result, audioBase64 };
-      setResult(updatedResult);
-      saveToHistory(updatedResult);
+      updateResult(result.id, existing => ({
+        narrations: [...(existing.narrations || []).filter(v => v.id !== variant.id), variant]
+      }))
+        .catch(err => console.error("Failed to save narration variant", err));
     }
   };
 
+  const saveNarrationChapter = (chapter: NarrationChapter) => {
+    if (result) {
+      updateResult(result.id, existing => ({
+        chapters: [...(existing.chapters || []).filter(c => c.index !== chapter.index), chapter]
+      }))
+        .catch(err => console.error("Failed to save narration chapter", err));
+    }
+  };
+
+  // Bypass the cache and rewrite the open entry with fresh model output
+  const refreshResult = async () => {
+    if (!result) return;
+    const resultLanguage = result.language || 'en';
+    const [historyData, relatedData] = await Promise.all([
+      getCachedLandmarkHistory(result.info, resultLanguage, { forceRefresh: true }),
+      getCachedRelatedLandmarks(result.info, resultLanguage, { forceRefresh: true })
+    ]);
+    setCacheStatus({
+      fromCache: historyData.fromCache && relatedData.fromCache,
+      cachedAt: Math.min(historyData.cachedAt, relatedData.cachedAt)
+    });
+    const historyChanged = historyData.value.text !== result.history;
+    const relatedChanged = relatedData.value.map(r => r.name).join('\n') !== (result.relatedLandmarks || []).map(r => r.name).join('\n');
+    const dropped: OfflinePart[] = [];
+    if (historyChanged) dropped.push('narration');
+    if (relatedChanged) dropped.push('related');
+    await updateResult(result.id, {
+      history: historyData.value.text,
+      sources: historyData.value.sources,
+      relatedLandmarks: relatedData.value,
+      // Narration was read from the old chronicle
+      audioBase64: historyChanged ? undefined : result.audioBase64,
+      storedNarration: historyChanged ? undefined : result.storedNarration,
+      narrationScript: historyChanged ? undefined : result.narrationScript,
+      chapters: historyChanged ? undefined : result.chapters,
+      narrations: historyChanged ? undefined : result.narrations,
+      // The download stored the old narration and warmed the old related stubs
+      offline: dropOfflineParts(result, dropped)
+    });
+  };
+
+  // Translate an existing journal entry; the landmark name stays as the stable identity
+  const regenerateInLanguage = async (target: LanguageCode) => {
+    if (!result) return;
+    const [infoData, historyData, relatedData] = await Promise.all([
+      getCachedLandmarkByName(result.info.name, target),
+      getCachedLandmarkHistory(result.info, target),
+      getCachedRelatedLandmarks(result.info, target)
+    ]);
+    setCacheStatus({
+      fromCache: historyData.fromCache && relatedData.fromCache,
+      cachedAt: Math.min(historyData.cachedAt, relatedData.cachedAt)
+    });
+    await updateResult(result.id, {
+      info: {
+        ...result.info,
+        description: infoData.value.description,
+        location: infoData.value.location || result.info.location
+      },
+      history: historyData.value.text,
+      sources: historyData.value.sources,
+      relatedLandmarks: relatedData.value,
+      language: target,
+      audioBase64: undefined,
+      storedNarration: undefined,
+      narrationScript: undefined,
+      chapters: undefined,
+      offline: dropOfflineParts(result, ['narration', 'related'])
+    });
+  };
+
+  const exportBookmarkedNarrations = async (format: AudioFormat) => {
+    setShowExportMenu(false);
+    setIsExporting(true);
+    try {
+      const { exported, skipped } = await downloadBookmarkedNarrations(history, format);
+      if (!exported) alert(t('export.bookmarksEmpty'));
+      else if (skipped) alert(t('export.bookmarksSkipped', { exported: String(exported), skipped: String(skipped) }));
+    } catch (err) {
+      console.error("Bookmark export failed", err);
+      alert(t('export.audioFailed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // The tour view narrates on its own, so the queue must not talk over it
+  useEffect(() => {
+    if (state === AppState.RESULT) pausePlaylist();
+  }, [state]);
+
+  // Imported route stops only carry a name and coordinates until first opened
+  const openPlannedStop = async (item: LandmarkResult) => {
+    const itemLanguage = item.language || 'en';
+    const signal = startPipeline();
+    setCapturedImage(null);
+    setError(null);
+    setState(AppState.SEARCHING);
+    try {
+      const [historyData, relatedData, imageData] = await Promise.all([
+        getCachedLandmarkHistory(item.info, itemLanguage, { signal }),
+        getCachedRelatedLandmarks(item.info, itemLanguage, { signal }),
+        getCachedLandmarkImage(item.info.name, undefined, { signal })
+      ]);
+      if (signal.aborted) return;
+      const fetchedUris = new Set(historyData.value.sources.map(s => s.uri));
+      const updated = await updateResult(item.id, {
+        history: historyData.value.text,
+        sources: [...historyData.value.sources, ...item.sources.filter(s => !fetchedUris.has(s.uri))],
+        relatedLandmarks: relatedData.value,
+        imageUrl: imageData.value,
+        isPlanned: false
+      });
+      if (!updated) throw new Error("Planned stop was removed");
+      setCacheStatus({
+        fromCache: historyData.fromCache && relatedData.fromCache,
+        cachedAt: Math.min(historyData.cachedAt, relatedData.cachedAt)
+      });
+      setResult(updated);
+      setState(AppState.RESULT);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      fail(err, 'error.searchFailed', () => openPlannedStop(item));
+    }
+  };
+
+  // Stops already in the journal are skipped so re-importing a route is harmless
+  const importRoute = async (file: File) => {
+    try {
+      const known = new Set(history.map(item => normalizeLandmarkName(item.info.name)));
+      const stops = (await importWaypoints(file, language)).filter(stop => !known.has(normalizeLandmarkName(stop.info.name)));
+      for (const stop of stops) await saveResult(stop);
+      alert(t('geo.imported', { count: String(stops.length) }));
+    } catch (err) {
+      console.error("Route import failed", err);
+      alert(t('geo.importFailed'));
+    }
+  };
+
+  const openJournalEntry = (id: string) => {
+    const item = history.find(entry => entry.id === id);
+    if (item) viewHistoryItem(item);
+  };
+
   const viewHistoryItem = (item: LandmarkResult) => {
+    if (item.isPlanned) {
+      openPlannedStop(item);
+      return;
+    }
     setResult(item);
+    setCacheStatus({ fromCache: true, cachedAt: item.timestamp });
     setState(AppState.RESULT);
   };
 
+  // Links to entries missing from this journal are looked up by name instead
+  const openRoute = async (route: Route) => {
+    if (route.view !== 'landmark') {
+      if (route.view === 'home') reset();
+      else setState(VIEW_STATES[route.view]);
+      return;
+    }
+    if (state === AppState.RESULT && result?.id === route.id) return;
+    const item = await getResult(route.id).catch(err => {
+      console.error("Failed to read journal entry", err);
+      return null;
+    });
+    if (item) {
+      viewHistoryItem(item);
+    } else if (route.name) {
+      setCapturedImage(null);
+      searchByName(route.name, route.id);
+    } else {
+      navigate({ view: 'home' }, { replace: true });
+      reset();
+    }
+  };
+
+  useRouteChanges(openRoute);
+
+  useEffect(() => {
+    const route = parseRoute();
+    if (route.view === 'landmark') openRoute(route);
+  }, []);
+
+  // Mirror the screen in the address bar; re-picking a candidate rewrites the same entry, so it replaces
+  useEffect(() => {
+    const route = routeForState(state, result);
+    if (!route) return;
+    const current = parseRoute();
+    navigate(route, { replace: route.view === 'landmark' && current.view === 'landmark' && current.id === route.id });
+  }, [state, result?.id, result?.info.name]);
+
+  const searchInstead = () => {
+    reset();
+    searchInputRef.current?.focus();
+  };
+
   const reset = () => {
     setState(AppState.IDLE);
     setResult(null);
+    setPendingCapture(null);
     setError(null);
     setCapturedImage(null);
+    setCacheStatus(null);
   };
 
-  // Map Initialization
-  useEffect(() => {
-    if (state === AppState.MAP && mapContainerRef.current && !mapRef.current) {
-      const L = (window as any).L;
-      if (!L) return;
-
-      const map = L.map(mapContainerRef.current, {
-        zoomControl: false,
-        attributionControl: false
-      }).setView([20, 0], 2);
-
-      L.tileLayer('https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png', {
-        maxZoom: 19
-      }).addTo(map);
-
-      history.forEach(item => {
-        if (item.info.latitude && item.info.longitude) {
-          const marker = L.marker([item.info.latitude, item.info.longitude]).addTo(map);
-          marker.on('click', () => {
-            // Smoothly fly to marker before opening
-            map.flyTo([item.info.latitude, item.info.longitude], 12, {
-              animate: true,
-              duration: 1.5
-            });
-            setTimeout(() => {
-              viewHistoryItem(item);
-            }, 1000);
-          });
-        }
-      });
-
-      mapRef.current = map;
-    }
-    return () => {
-      if (mapRef.current) {
-        mapRef.current.remove();
-        mapRef.current = null;
-      }
-    };
-  }, [state, history]);
-
   const bookmarks = history.filter(item => item.isBookmarked);
 
   return (
@@ -236,11 +530,11 @@ const App: React.FC = () => {
           <form onSubmit={handleSearch} className="flex-1 max-w-xl relative group">
             <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-500 group-focus-within:text-amber-500 transition-colors" />
             <input 
+              ref={searchInputRef}
               type="text"
-              placeholder="Search landmarks..."
+              placeholder={t('nav.search')}
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
-              disabled={isOffline}
               className="w-full bg-white/5 border border-white/10 rounded-2xl py-2.5 pl-11 pr-4 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500/50 focus:bg-white/10 transition-all disabled:opacity-50"
             />
           </form>
@@ -248,19 +542,29 @@ const App: React.FC = () => {
           <div className="flex items-center gap-2 md:gap-4 flex-shrink-0">
             <div className="hidden lg:flex items-center gap-6 text-[10px] font-black uppercase tracking-[0.2em] text-zinc-500">
               <button onClick={() => setState(AppState.HISTORY)} className={`hover:text-amber-400 transition-colors flex items-center gap-2 ${state === AppState.HISTORY ? 'text-amber-400' : ''}`}>
-                <Clock size={14} /> Journal
+                <Clock size={14} /> {t('nav.journal')}
               </button>
               <button onClick={() => setState(AppState.BOOKMARKS)} className={`hover:text-amber-400 transition-colors flex items-center gap-2 ${state === AppState.BOOKMARKS ? 'text-amber-400' : ''}`}>
-                <Bookmark size={14} /> Saved
+                <Bookmark size={14} /> {t('nav.saved')}
               </button>
               <button onClick={() => setState(AppState.MAP)} className={`hover:text-amber-400 transition-colors flex items-center gap-2 ${state === AppState.MAP ? 'text-amber-400' : ''}`}>
-                <Globe size={14} /> Map
+                <Globe size={14} /> {t('nav.map')}
               </button>
             </div>
             
+            <button onClick={() => setShowSettings(true)} className="p-2 rounded-xl text-zinc-500 hover:text-amber-400 hover:bg-white/5 transition-colors">
+              <Settings size={18} />
+            </button>
+
+            {activeProviderName === 'mock' && (
+              <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-sky-500/10 border border-sky-500/20 text-sky-400 text-[10px] font-bold uppercase tracking-widest">
+                <FlaskConical size={14} /> {t('nav.mock')}
+              </div>
+            )}
+
             {isOffline && (
               <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-red-500/10 border border-red-500/20 text-red-500 text-[10px] font-bold uppercase tracking-widest">
-                <WifiOff size={14} /> Offline
+                <WifiOff size={14} /> {t('nav.offline')}
               </div>
             )}
           </div>
@@ -273,30 +577,32 @@ const App: React.FC = () => {
           <div className="max-w-5xl mx-auto space-y-24 animate-in fade-in slide-in-from-bottom-8 duration-1000 flex-1 py-10">
             <div className="text-center space-y-8">
               <div className="inline-flex items-center gap-2 px-4 py-1.5 rounded-full bg-amber-500/5 border border-amber-500/10 text-amber-500 text-[10px] font-black uppercase tracking-[0.3em] shadow-inner">
-                <Sparkles size={14} fill="currentColor" /> AI-Augmented Travel
+                <Sparkles size={14} fill="currentColor" /> {t('hero.badge')}
               </div>
               <h1 className="text-6xl md:text-8xl font-serif leading-[1.1] tracking-tight">
-                Reveal the Secrets of <br />
-                <span className="italic text-zinc-600 font-light">Every Horizon.</span>
+                {t('hero.title')} <br />
+                <span className="italic text-zinc-600 font-light">{t('hero.titleAccent')}</span>
               </h1>
               <p className="text-zinc-500 text-xl max-w-2xl mx-auto leading-relaxed font-light">
-                {isOffline 
-                  ? "Explore your offline journal. Connect to the internet to identify new landmarks."
-                  : "LuminaTour uses next-gen vision and search grounding to transform your travel photography into deep journeys."}
+                {aiUnavailable 
+                  ? t('hero.offline')
+                  : t('hero.online')}
               </p>
             </div>
 
-            <div className={`relative group ${isOffline ? 'opacity-40 grayscale pointer-events-none' : ''}`}>
+            <div className={`relative group ${aiUnavailable ? 'opacity-40 grayscale pointer-events-none' : ''}`}>
                <div className="absolute -inset-1 bg-gradient-to-r from-amber-500/20 to-transparent blur-2xl opacity-0 group-hover:opacity-100 transition-opacity duration-500" />
-               <CameraView onCapture={handleCapture} disabled={isOffline} />
+               <CameraView onCapture={handleCapture} disabled={aiUnavailable} />
             </div>
 
+            <ImportQueuePanel onOpen={openJournalEntry} />
+
             {/* Quick Journal Preview */}
             {history.length > 0 && (
               <div className="space-y-8 pb-10">
                 <div className="flex items-center justify-between border-b border-white/5 pb-4">
-                  <h3 className="text-xl font-serif">Recent Discoveries</h3>
-                  <button onClick={() => setState(AppState.HISTORY)} className="text-xs font-bold uppercase tracking-widest text-amber-500 hover:text-amber-400">View All</button>
+                  <h3 className="text-xl font-serif">{t('home.recent')}</h3>
+                  <button onClick={() => setState(AppState.HISTORY)} className="text-xs font-bold uppercase tracking-widest text-amber-500 hover:text-amber-400">{t('home.viewAll')}</button>
                 </div>
                 <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-4">
                   {history.slice(0, 5).map(item => (
@@ -305,10 +611,14 @@ const App: React.FC = () => {
                       onClick={() => viewHistoryItem(item)}
                       className="group relative aspect-[4/5] rounded-xl overflow-hidden border border-white/5 hover:border-amber-500/30 transition-all text-left"
                     >
-                      <img src={item.imageUrl} className="absolute inset-0 w-full h-full object-cover grayscale-[0.5] group-hover:grayscale-0 group-hover:scale-110 transition-all" />
+                      {item.imageUrl ? (
+                        <img src={item.thumbnailUrl || item.imageUrl} className="absolute inset-0 w-full h-full object-cover grayscale-[0.5] group-hover:grayscale-0 group-hover:scale-110 transition-all" />
+                      ) : (
+                        <div className="absolute inset-0 bg-gradient-to-br from-zinc-800 to-zinc-950 flex items-center justify-center"><RouteIcon className="w-8 h-8 text-zinc-700" /></div>
+                      )}
                       <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent" />
                       <div className="absolute bottom-3 left-3 right-3">
-                         <p className="text-[10px] text-amber-500 font-bold uppercase tracking-widest mb-0.5">{new Date(item.timestamp).toLocaleDateString()}</p>
+                         <p className="text-[10px] text-amber-500 font-bold uppercase tracking-widest mb-0.5">{new Date(item.timestamp).toLocaleDateString(language)}</p>
                          <p className="text-xs font-bold line-clamp-1">{item.info.name}</p>
                       </div>
                     </button>
@@ -323,36 +633,73 @@ const App: React.FC = () => {
           <div className="max-w-6xl mx-auto space-y-12 animate-in fade-in slide-in-from-bottom-4 py-10 w-full">
             <div className="flex items-center justify-between">
               <div>
-                <h1 className="text-4xl font-serif mb-2">{state === AppState.HISTORY ? 'Travel Journal' : 'Saved Destinations'}</h1>
+                <h1 className="text-4xl font-serif mb-2">{state === AppState.HISTORY ? t('journal.title') : t('saved.title')}</h1>
                 <p className="text-zinc-500 text-sm">
-                  {state === AppState.HISTORY ? 'A collection of your global cultural discoveries.' : 'Landmarks you flagged for later revisiting.'}
+                  {state === AppState.HISTORY ? t('journal.subtitle') : t('saved.subtitle')}
                 </p>
               </div>
               <div className="flex gap-2">
+                {(state === AppState.HISTORY ? history : bookmarks).length > 0 && (
+                  <button
+                    onClick={() => playAll(state === AppState.HISTORY ? history : bookmarks)}
+                    className="flex items-center gap-2 px-4 py-3 rounded-xl bg-amber-500 hover:bg-amber-400 text-black text-[10px] font-black uppercase tracking-widest transition-colors"
+                  >
+                    <Headphones size={16} /> {t('playlist.playAll')}
+                  </button>
+                )}
+                {state === AppState.HISTORY && <TripBookMenu results={history} />}
+                {state === AppState.HISTORY && <GeoExportMenu results={history} onImport={importRoute} />}
+                {state === AppState.BOOKMARKS && bookmarks.length > 0 && (
+                  <div className="relative">
+                    <button
+                      onClick={() => setShowExportMenu(!showExportMenu)}
+                      disabled={isExporting}
+                      className="flex items-center gap-2 px-4 py-3 rounded-xl bg-white/5 hover:bg-white/10 text-[10px] font-black uppercase tracking-widest text-zinc-300 transition-colors disabled:opacity-50"
+                    >
+                      {isExporting ? <Loader2 size={16} className="animate-spin" /> : <FileArchive size={16} />} {t('export.bookmarks')}
+                    </button>
+                    {showExportMenu && (
+                      <div className="absolute top-full right-0 mt-2 bg-zinc-900 border border-white/10 p-2 rounded-2xl flex flex-col gap-1 shadow-2xl animate-in fade-in slide-in-from-top-2 z-50 min-w-[180px]">
+                        {AUDIO_FORMATS.map(format => (
+                          <button key={format} onClick={() => exportBookmarkedNarrations(format)} className="px-4 py-2 text-left hover:bg-white/5 rounded-xl text-sm text-zinc-300">
+                            {t(format === 'mp3' ? 'export.mp3' : 'export.wav')}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
                 <button onClick={() => setState(AppState.IDLE)} className="p-3 rounded-xl bg-white/5 hover:bg-white/10 transition-colors"><X size={20} /></button>
               </div>
             </div>
 
+            {state === AppState.HISTORY && <ImportQueuePanel onOpen={openJournalEntry} />}
+
             {(state === AppState.HISTORY ? history : bookmarks).length === 0 ? (
               <div className="text-center py-20 border border-dashed border-white/10 rounded-3xl">
                 {state === AppState.HISTORY ? <Clock className="w-12 h-12 text-zinc-800 mx-auto mb-4" /> : <Bookmark className="w-12 h-12 text-zinc-800 mx-auto mb-4" />}
-                <p className="text-zinc-500">No {state === AppState.HISTORY ? 'discoveries' : 'bookmarks'} yet.</p>
+                <p className="text-zinc-500">{state === AppState.HISTORY ? t('journal.empty') : t('saved.empty')}</p>
               </div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 pb-20">
                 {(state === AppState.HISTORY ? history : bookmarks).map(item => (
                   <div key={item.id} className="group bg-zinc-900/40 border border-white/5 rounded-3xl overflow-hidden hover:border-amber-500/20 transition-all flex flex-col relative">
                     <div className="relative aspect-video overflow-hidden">
-                      <img src={item.imageUrl} className="w-full h-full object-cover transition-transform group-hover:scale-105 duration-700" />
+                      {item.imageUrl ? (
+                        <img src={item.thumbnailUrl || item.imageUrl} className="w-full h-full object-cover transition-transform group-hover:scale-105 duration-700" />
+                      ) : (
+                        <div className="w-full h-full bg-gradient-to-br from-zinc-800 to-zinc-950 flex items-center justify-center"><RouteIcon className="w-10 h-10 text-zinc-700" /></div>
+                      )}
                       <div className="absolute top-4 left-4 flex gap-2">
                          <div className="px-3 py-1 bg-black/50 backdrop-blur-md rounded-full text-[10px] font-bold text-amber-500 uppercase tracking-widest border border-white/10">
-                           {item.info.location || 'Discovery'}
+                           {item.info.location || t('card.discovery')}
                          </div>
-                         {item.isDownloaded && (
-                           <div className="p-1 px-2 bg-green-500/20 backdrop-blur-md rounded-full text-[8px] font-black uppercase text-green-500 border border-green-500/30 flex items-center gap-1">
-                             <Download size={10} /> Saved Offline
+                         {item.isPlanned && (
+                           <div className="p-1 px-2 bg-sky-500/20 backdrop-blur-md rounded-full text-[8px] font-black uppercase text-sky-400 border border-sky-500/30 flex items-center gap-1">
+                             <RouteIcon size={10} /> {t('card.planned')}
                            </div>
                          )}
+                         <OfflineBadge result={item} />
                       </div>
                       <button 
                         onClick={() => toggleBookmark(item.id)}
@@ -364,15 +711,24 @@ const App: React.FC = () => {
                     <div className="p-6 flex-1 flex flex-col">
                       <div className="flex justify-between items-start mb-4">
                         <h3 className="text-xl font-bold tracking-tight">{item.info.name}</h3>
-                        <p className="text-[10px] font-bold text-zinc-500 uppercase mt-1">{new Date(item.timestamp).toLocaleDateString()}</p>
+                        <p className="text-[10px] font-bold text-zinc-500 uppercase mt-1">{new Date(item.timestamp).toLocaleDateString(language)}</p>
                       </div>
                       <p className="text-sm text-zinc-500 line-clamp-2 mb-6 flex-1 font-light italic">"{item.info.description}"</p>
-                      <button 
-                        onClick={() => viewHistoryItem(item)}
-                        className="w-full py-3 rounded-xl bg-white/5 border border-white/10 text-xs font-bold uppercase tracking-widest hover:bg-amber-500 hover:text-black transition-all"
-                      >
-                        Revisit Story
-                      </button>
+                      <div className="flex gap-2">
+                        <button 
+                          onClick={() => viewHistoryItem(item)}
+                          className="flex-1 py-3 rounded-xl bg-white/5 border border-white/10 text-xs font-bold uppercase tracking-widest hover:bg-amber-500 hover:text-black transition-all"
+                        >
+                          {t('card.revisit')}
+                        </button>
+                        <button
+                          onClick={() => enqueue([item])}
+                          title={t('playlist.add')}
+                          className="px-4 rounded-xl bg-white/5 border border-white/10 text-zinc-400 hover:text-black hover:bg-amber-500 transition-all"
+                        >
+                          <ListPlus size={16} />
+                        </button>
+                      </div>
                     </div>
                   </div>
                 ))}
@@ -385,12 +741,15 @@ const App: React.FC = () => {
           <div className="max-w-6xl mx-auto flex-1 flex flex-col space-y-6 animate-in fade-in slide-in-from-bottom-4 py-10 w-full">
             <div className="flex items-center justify-between">
               <div>
-                <h1 className="text-4xl font-serif mb-2">Explorer Map</h1>
-                <p className="text-zinc-500 text-sm">Visualizing your cultural footprint across the globe.</p>
+                <h1 className="text-4xl font-serif mb-2">{t('map.title')}</h1>
+                <p className="text-zinc-500 text-sm">{t('map.subtitle')}</p>
+              </div>
+              <div className="flex gap-2">
+                <GeoExportMenu results={history} onImport={importRoute} />
+                <button onClick={() => setState(AppState.IDLE)} className="p-3 rounded-xl bg-white/5 hover:bg-white/10 transition-colors"><X size={20} /></button>
               </div>
-              <button onClick={() => setState(AppState.IDLE)} className="p-3 rounded-xl bg-white/5 hover:bg-white/10 transition-colors"><X size={20} /></button>
             </div>
-            <div ref={mapContainerRef} className="flex-1 w-full min-h-[500px] rounded-3xl overflow-hidden border border-white/5" />
+            <ExplorerMap results={history} onOpen={viewHistoryItem} />
           </div>
         )}
 
@@ -411,31 +770,39 @@ const App: React.FC = () => {
              </div>
              <div className="text-center space-y-6">
                 <h2 className="text-4xl font-serif font-bold text-white mb-2">
-                  {state === AppState.IDENTIFYING ? "Analyzing Architecture..." : "Gathering Historical Data..."}
+                  {state === AppState.IDENTIFYING ? t('loading.identifying') : t('loading.searching')}
                 </h2>
                 <div className="h-8 overflow-hidden relative">
                    <div className="animate-slide-up-messages flex flex-col items-center">
-                     <p className="text-zinc-500 italic h-8">Deciphering structural patterns...</p>
-                     <p className="text-zinc-500 italic h-8">Cross-referencing global landmarks database...</p>
-                     <p className="text-zinc-500 italic h-8">Querying historical archives for verified facts...</p>
+                     <p className="text-zinc-500 italic h-8">{t('loading.step1')}</p>
+                     <p className="text-zinc-500 italic h-8">{t('loading.step2')}</p>
+                     <p className="text-zinc-500 italic h-8">{t('loading.step3')}</p>
                    </div>
                 </div>
              </div>
           </div>
         )}
 
+        {state === AppState.CHOOSING && pendingCapture && (
+          <CandidatePicker
+            candidates={pendingCapture.candidates}
+            image={capturedImage}
+            onChoose={chooseCandidate}
+            onCancel={reset}
+          />
+        )}
+
         {/* Error State */}
-        {state === AppState.ERROR && (
-          <div className="max-w-md mx-auto p-12 rounded-[2rem] bg-zinc-900 border border-white/5 text-center space-y-8 animate-in zoom-in-95 duration-500 my-auto">
-            <div className="w-20 h-20 rounded-3xl bg-red-500/10 flex items-center justify-center mx-auto">
-              <AlertCircle className="w-10 h-10 text-red-500" />
-            </div>
-            <div className="space-y-3">
-              <h3 className="text-2xl font-bold tracking-tight">System Notice</h3>
-              <p className="text-zinc-500 text-sm leading-relaxed">{error}</p>
-            </div>
-            <button onClick={reset} className="w-full py-4 rounded-2xl bg-white text-black font-black uppercase tracking-widest text-xs hover:bg-zinc-200 transition-all">Recalibrate</button>
-          </div>
+        {state === AppState.ERROR && error && (
+          <ErrorScreen
+            kind={error.kind}
+            fallbackMessage={error.fallback}
+            onRetry={error.retry}
+            onNewPhoto={reset}
+            onSearch={searchInstead}
+            onContinueOffline={() => setState(AppState.HISTORY)}
+            onHome={reset}
+          />
         )}
 
         {state === AppState.RESULT && result && (
@@ -444,23 +811,39 @@ const App: React.FC = () => {
             onBack={reset} 
             onExploreRelated={exploreRelated}
             onUpdateCache={updateAudioCache}
+            onSaveNarration={saveNarrationVariant}
+            onSaveChapter={saveNarrationChapter}
+            cacheStatus={cacheStatus}
+            onRefresh={aiUnavailable ? undefined : refreshResult}
+            onRegenerate={aiUnavailable ? undefined : regenerateInLanguage}
+            onWrongLandmark={!aiUnavailable && result.candidates?.[(result.candidateIndex ?? 0) + 1] ? tryNextCandidate : undefined}
           />
         )}
       </main>
 
+      {state !== AppState.RESULT && <MiniPlayer />}
+      <UpdatePrompt />
+
+      {showSettings && (
+        <SettingsPanel
+          onClose={() => setShowSettings(false)}
+          onRestored={() => loadHistory().then(setHistory).catch(err => console.error("Failed to reload history", err))}
+        />
+      )}
+
       {/* Footer Nav for Mobile */}
       <div className="lg:hidden fixed bottom-0 left-0 right-0 bg-black/80 backdrop-blur-xl border-t border-white/5 px-8 py-4 flex justify-around items-center z-40">
         <button onClick={() => setState(AppState.HISTORY)} className={`flex flex-col items-center gap-1 ${state === AppState.HISTORY ? 'text-amber-500' : 'text-zinc-500'}`}>
           <Clock size={20} />
-          <span className="text-[9px] font-bold uppercase">Journal</span>
+          <span className="text-[9px] font-bold uppercase">{t('nav.journal')}</span>
         </button>
         <button onClick={() => setState(AppState.BOOKMARKS)} className={`flex flex-col items-center gap-1 ${state === AppState.BOOKMARKS ? 'text-amber-500' : 'text-zinc-500'}`}>
           <Bookmark size={20} />
-          <span className="text-[9px] font-bold uppercase">Saved</span>
+          <span className="text-[9px] font-bold uppercase">{t('nav.saved')}</span>
         </button>
         <button onClick={() => setState(AppState.MAP)} className={`flex flex-col items-center gap-1 ${state === AppState.MAP ? 'text-amber-500' : 'text-zinc-500'}`}>
           <Globe size={20} />
-          <span className="text-[9px] font-bold uppercase">Map</span>
+          <span className="text-[9px] font-bold uppercase">{t('nav.map')}</span>
         </button>
       </div>
 
@@ -1,36 +1,68 @@
 
 import React, { useRef, useState } from 'react';
-import { Camera, Upload, Image as ImageIcon } from 'lucide-react';
+import { Camera, Upload, Image as ImageIcon, Loader2, ScanEye } from 'lucide-react';
+import { CaptureMetadata } from '../types';
+import { LiveViewfinder } from './LiveViewfinder';
+import { useTranslation } from '../services/i18n';
+import { enqueuePhotos } from '../services/importQueue';
+import { getSettings } from '../services/settings';
+import { readCaptureMetadata } from '../utils/exif';
+import { normalizeImage, NormalizedImage } from '../utils/image';
 
 interface CameraViewProps {
-  onCapture: (base64: string) => void;
+  onCapture: (photo: NormalizedImage, capture?: CaptureMetadata) => void;
   disabled?: boolean;
 }
 
 export const CameraView: React.FC<CameraViewProps> = ({ onCapture, disabled }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [dragActive, setDragActive] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isLive, setIsLive] = useState(false);
+  const supportsLive = !!navigator.mediaDevices?.getUserMedia;
+  const { t, language } = useTranslation();
 
-  const handleFile = (file: File) => {
-    if (!file) return;
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const result = e.target?.result as string;
-      onCapture(result);
-    };
-    reader.readAsDataURL(file);
+  const handleFile = async (file: File) => {
+    if (!file || isProcessing) return;
+    setIsProcessing(true);
+    try {
+      const { imageMaxDimension, keepOriginalPhotos } = getSettings();
+      // EXIF is read from the original bytes, since re-encoding drops it
+      const [capture, photo] = await Promise.all([
+        file.arrayBuffer().then(readCaptureMetadata),
+        normalizeImage(file, { maxDimension: imageMaxDimension, keepOriginal: keepOriginalPhotos }),
+      ]);
+      onCapture(photo, capture || undefined);
+    } catch (err) {
+      console.error("Failed to read photo", err);
+      alert(t('camera.unreadable'));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // A whole roll goes to the background queue; a single photo opens its tour right away
+  const handleFiles = (files: FileList | null) => {
+    if (!files?.length) return;
+    if (files.length > 1) enqueuePhotos(Array.from(files), language);
+    else handleFile(files[0]);
   };
 
   const onFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files?.[0]) handleFile(e.target.files[0]);
+    handleFiles(e.target.files);
+    e.target.value = '';
   };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setDragActive(false);
-    if (e.dataTransfer.files?.[0]) handleFile(e.dataTransfer.files[0]);
+    if (!disabled) handleFiles(e.dataTransfer.files);
   };
 
+  if (isLive) {
+    return <LiveViewfinder onCapture={onCapture} onClose={() => setIsLive(false)} />;
+  }
+
   return (
     <div 
       className={`relative w-full max-w-xl mx-auto h-80 rounded-3xl border-2 border-dashed transition-all duration-300 flex flex-col items-center justify-center p-8 bg-zinc-900/50 backdrop-blur-sm
@@ -46,26 +78,34 @@ export const CameraView: React.FC<CameraViewProps> = ({ onCapture, disabled }) =
         className="hidden" 
         ref={fileInputRef} 
         accept="image/*" 
-        capture="environment"
+        multiple
         onChange={onFileChange} 
       />
       
       <div className="bg-zinc-800 p-6 rounded-full mb-6 ring-8 ring-zinc-900 shadow-xl">
-        <Camera className="w-12 h-12 text-amber-400" />
+        {isProcessing ? <Loader2 className="w-12 h-12 text-amber-400 animate-spin" /> : <Camera className="w-12 h-12 text-amber-400" />}
       </div>
       
-      <h3 className="text-xl font-medium mb-2">Snap or Upload</h3>
+      <h3 className="text-xl font-medium mb-2">{isProcessing ? t('camera.processing') : t('camera.title')}</h3>
       <p className="text-zinc-400 text-center max-w-xs">
-        Capture a landmark to reveal its history and experience an immersive tour.
+        {t('camera.subtitle')}
       </p>
       
       <div className="absolute bottom-6 flex gap-4">
         <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-zinc-500 bg-black/40 px-3 py-1.5 rounded-full border border-white/5">
-          <Upload size={14} /> Upload
+          <Upload size={14} /> {t('camera.upload')}
         </div>
         <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-zinc-500 bg-black/40 px-3 py-1.5 rounded-full border border-white/5">
-          <ImageIcon size={14} /> Browse
+          <ImageIcon size={14} /> {t('camera.browse')}
         </div>
+        {supportsLive && (
+          <button
+            onClick={(e) => { e.stopPropagation(); if (!disabled) setIsLive(true); }}
+            className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-amber-400 bg-amber-500/10 px-3 py-1.5 rounded-full border border-amber-500/30 hover:bg-amber-500 hover:text-black transition-colors"
+          >
+            <ScanEye size={14} /> {t('camera.live')}
+          </button>
+        )}
       </div>
     </div>
   );
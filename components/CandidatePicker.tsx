@@ -0,0 +1,65 @@
+
+import React from 'react';
+import { HelpCircle, MapPin, Search } from 'lucide-react';
+import { LandmarkCandidate } from '../types';
+import { useTranslation } from '../services/i18n';
+
+interface CandidatePickerProps {
+  candidates: LandmarkCandidate[];
+  image: string | null;
+  onChoose: (index: number) => void;
+  onCancel: () => void;
+}
+
+export const CandidatePicker: React.FC<CandidatePickerProps> = ({ candidates, image, onChoose, onCancel }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="max-w-2xl mx-auto w-full py-10 space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="flex items-center gap-6">
+        {image && <img src={image} className="w-24 h-24 rounded-3xl object-cover border border-white/10 flex-shrink-0" />}
+        <div className="space-y-2">
+          <h2 className="flex items-center gap-2 text-[11px] font-black text-amber-500 uppercase tracking-[0.3em]">
+            <HelpCircle size={14} /> {t('candidates.title')}
+          </h2>
+          <p className="text-zinc-400 text-sm leading-relaxed">{t('candidates.subtitle')}</p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {candidates.map((candidate, index) => (
+          <button
+            key={`${candidate.name}-${index}`}
+            onClick={() => onChoose(index)}
+            className="w-full text-left p-5 rounded-3xl bg-zinc-900/60 border border-white/5 hover:border-amber-500/40 hover:bg-zinc-900 transition-all space-y-3 group"
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <h3 className="text-lg font-serif font-bold group-hover:text-amber-400 transition-colors">{candidate.name}</h3>
+                {candidate.location && (
+                  <p className="flex items-center gap-1 text-[10px] font-bold text-zinc-500 uppercase tracking-widest mt-1"><MapPin size={10} /> {candidate.location}</p>
+                )}
+              </div>
+              <span className="text-sm font-mono tabular-nums text-amber-500 flex-shrink-0">{Math.round(candidate.confidence * 100)}%</span>
+            </div>
+            <div className="h-1 rounded-full bg-white/5 overflow-hidden">
+              <div className="h-full bg-amber-500" style={{ width: `${Math.round(candidate.confidence * 100)}%` }} />
+            </div>
+            <p className="text-sm text-zinc-400 line-clamp-2">{candidate.description}</p>
+            {candidate.cues.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {candidate.cues.map(cue => (
+                  <span key={cue} className="px-2 py-1 rounded-lg bg-white/5 border border-white/5 text-[10px] text-zinc-400">{cue}</span>
+                ))}
+              </div>
+            )}
+          </button>
+        ))}
+      </div>
+
+      <button onClick={onCancel} className="w-full flex items-center justify-center gap-2 py-4 rounded-2xl bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white hover:bg-white/10 transition-all">
+        <Search size={14} /> {t('candidates.none')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+
+import React from 'react';
+import { AlertCircle, BookOpen, Camera, FileX, Gauge, Hourglass, KeyRound, RotateCcw, ScanSearch, Search, ShieldAlert, WifiOff } from 'lucide-react';
+import { AppErrorKind } from '../services/errors';
+import { useTranslation } from '../services/i18n';
+import { TranslationKey } from '../services/translations';
+
+type RecoveryAction = 'retry' | 'newPhoto' | 'search' | 'offline';
+
+interface ErrorScreenProps {
+  kind: AppErrorKind;
+  fallbackMessage: TranslationKey; // What was being attempted, for errors nobody could classify
+  onRetry?: () => void;
+  onNewPhoto: () => void;
+  onSearch: () => void;
+  onContinueOffline: () => void;
+  onHome: () => void;
+}
+
+const MESSAGES: Record<Exclude<AppErrorKind, 'unknown'>, TranslationKey> = {
+  quota: 'error.quota',
+  invalidKey: 'error.invalidKey',
+  safety: 'error.safety',
+  noLandmark: 'error.noLandmark',
+  malformed: 'error.malformed',
+  network: 'error.needsConnection',
+  timeout: 'error.timeout',
+};
+
+const ICONS: Record<AppErrorKind, React.ElementType> = {
+  quota: Gauge,
+  invalidKey: KeyRound,
+  safety: ShieldAlert,
+  noLandmark: ScanSearch,
+  malformed: FileX,
+  network: WifiOff,
+  timeout: Hourglass,
+  unknown: AlertCircle,
+};
+
+// Most useful first; a retry is pointless when the key or the photo itself is the problem
+const ACTIONS: Record<AppErrorKind, RecoveryAction[]> = {
+  quota: ['retry', 'offline'],
+  invalidKey: ['offline'],
+  safety: ['newPhoto', 'search'],
+  noLandmark: ['newPhoto', 'search'],
+  malformed: ['retry', 'search'],
+  network: ['retry', 'offline'],
+  timeout: ['retry', 'search'],
+  unknown: ['retry', 'newPhoto'],
+};
+
+const ACTION_ICONS: Record<RecoveryAction, React.ElementType> = {
+  retry: RotateCcw,
+  newPhoto: Camera,
+  search: Search,
+  offline: BookOpen,
+};
+
+const ACTION_LABELS: Record<RecoveryAction, TranslationKey> = {
+  retry: 'error.retry',
+  newPhoto: 'error.newPhoto',
+  search: 'error.searchByName',
+  offline: 'error.continueOffline',
+};
+
+export const ErrorScreen: React.FC<ErrorScreenProps> = ({ kind, fallbackMessage, onRetry, onNewPhoto, onSearch, onContinueOffline, onHome }) => {
+  const { t } = useTranslation();
+  const Icon = ICONS[kind];
+  const handlers: Record<RecoveryAction, (() => void) | undefined> = {
+    retry: onRetry,
+    newPhoto: onNewPhoto,
+    search: onSearch,
+    offline: onContinueOffline,
+  };
+  const actions = ACTIONS[kind].filter(action => handlers[action]);
+
+  return (
+    <div className="max-w-md mx-auto p-12 rounded-[2rem] bg-zinc-900 border border-white/5 text-center space-y-8 animate-in zoom-in-95 duration-500 my-auto">
+      <div className="w-20 h-20 rounded-3xl bg-red-500/10 flex items-center justify-center mx-auto">
+        <Icon className="w-10 h-10 text-red-500" />
+      </div>
+      <div className="space-y-3">
+        <h3 className="text-2xl font-bold tracking-tight">{t('error.title')}</h3>
+        <p className="text-zinc-500 text-sm leading-relaxed">{t(kind === 'unknown' ? fallbackMessage : MESSAGES[kind])}</p>
+      </div>
+      <div className="space-y-3">
+        {actions.map((action, index) => {
+          const ActionIcon = ACTION_ICONS[action];
+          return (
+            <button
+              key={action}
+              onClick={handlers[action]}
+              className={`w-full py-4 rounded-2xl font-black uppercase tracking-widest text-xs flex items-center justify-center gap-2 transition-all ${
+                index === 0 ? 'bg-white text-black hover:bg-zinc-200' : 'bg-white/5 text-white hover:bg-white/10'
+              }`}
+            >
+              <ActionIcon size={14} /> {t(ACTION_LABELS[action])}
+            </button>
+          );
+        })}
+        <button onClick={onHome} className="w-full py-3 text-[10px] font-black uppercase tracking-widest text-zinc-500 hover:text-white transition-colors">{t('error.recalibrate')}</button>
+      </div>
+    </div>
+  );
+};
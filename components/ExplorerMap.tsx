@@ -0,0 +1,223 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Bookmark, Download, Filter, Layers } from 'lucide-react';
+import { LandmarkResult } from '../types';
+import { filterJournal, GeoExportScope } from '../services/geoFormats';
+import { useTranslation } from '../services/i18n';
+import { createBaseTileLayer } from '../services/mapTiles';
+import { TranslationKey } from '../services/translations';
+import { ChronicleTheme, chronicleThemes } from '../utils/chronicle';
+import { clusterPoints } from '../utils/geo';
+import { escapeHtml } from '../utils/html';
+
+export const THEME_LABELS: Record<ChronicleTheme, TranslationKey> = {
+  architecture: 'theme.architecture',
+  conflict: 'theme.conflict',
+  modernization: 'theme.modernization',
+  royal: 'theme.royal',
+  general: 'theme.general',
+};
+
+interface ExplorerMapProps {
+  results: LandmarkResult[];
+  onOpen: (item: LandmarkResult) => void;
+}
+
+interface MapFilters extends GeoExportScope {
+  downloadedOnly?: boolean;
+  theme?: ChronicleTheme;
+}
+
+type LocatedResult = LandmarkResult & { info: { latitude: number; longitude: number } };
+
+// Markers closer than this many screen pixels merge into one cluster
+const CLUSTER_CELL_PX = 60;
+const FIT_PADDING: [number, number] = [48, 48];
+
+function isLocated(result: LandmarkResult): result is LocatedResult {
+  return typeof result.info.latitude === 'number' && typeof result.info.longitude === 'number';
+}
+
+export const ExplorerMap: React.FC<ExplorerMapProps> = ({ results, onOpen }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<any>(null);
+  const layerRef = useRef<any>(null);
+  const onOpenRef = useRef(onOpen);
+  const framedFiltersRef = useRef<MapFilters | null>(null);
+  const [filters, setFilters] = useState<MapFilters>({});
+  const [zoom, setZoom] = useState(2);
+  const { t, language } = useTranslation();
+  onOpenRef.current = onOpen;
+
+  const themesById = useMemo(
+    () => new Map(results.map(r => [r.id, chronicleThemes(r.history, r.language)])),
+    [results]
+  );
+  const themes = useMemo(
+    () => Array.from(new Set(Array.from(themesById.values()).flat())).sort(),
+    [themesById]
+  );
+  const visible = useMemo(
+    () => filterJournal(results, filters).filter(r =>
+      (!filters.downloadedOnly || r.isDownloaded) &&
+      (!filters.theme || themesById.get(r.id)?.includes(filters.theme))
+    ).filter(isLocated),
+    [results, filters, themesById]
+  );
+
+  useEffect(() => {
+    const L = (window as any).L;
+    if (!L || !containerRef.current) return;
+
+    const map = L.map(containerRef.current, {
+      zoomControl: false,
+      attributionControl: false
+    }).setView([20, 0], 2);
+
+    createBaseTileLayer(L).addTo(map);
+
+    layerRef.current = L.layerGroup().addTo(map);
+    map.on('zoomend', () => setZoom(map.getZoom()));
+    mapRef.current = map;
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      layerRef.current = null;
+    };
+  }, []);
+
+  // Frame whatever the filters leave on the map, once the journal has loaded and
+  // after each filter change. Edits to entries must not undo the user's pan and zoom.
+  useEffect(() => {
+    const L = (window as any).L;
+    const map = mapRef.current;
+    if (!map || !results.length || framedFiltersRef.current === filters) return;
+    framedFiltersRef.current = filters;
+    if (!visible.length) {
+      map.setView([20, 0], 2);
+      return;
+    }
+    const bounds = L.latLngBounds(visible.map(r => [r.info.latitude, r.info.longitude]));
+    map.fitBounds(bounds, { padding: FIT_PADDING, maxZoom: 14 });
+  }, [visible, filters, results.length]);
+
+  useEffect(() => {
+    const L = (window as any).L;
+    const map = mapRef.current;
+    const layer = layerRef.current;
+    if (!map || !layer) return;
+    layer.clearLayers();
+
+    const popupContent = (items: LocatedResult[]) => {
+      const element = document.createElement('div');
+      element.className = 'space-y-3 max-h-72 overflow-y-auto w-56';
+      element.innerHTML = items.map(item => {
+        const image = item.thumbnailUrl || item.imageUrl;
+        const meta = [item.info.location, new Date(item.timestamp).toLocaleDateString(language)].filter(Boolean).join(' · ');
+        return `<div class="space-y-2">
+          ${image ? `<img src="${escapeHtml(image)}" alt="" class="w-full h-28 object-cover rounded-lg" />` : ''}
+          <div>
+            <p class="font-serif text-base text-white leading-tight">${escapeHtml(item.info.name)}</p>
+            <p class="text-[11px] text-zinc-400">${escapeHtml(meta)}</p>
+          </div>
+          <button data-id="${escapeHtml(item.id)}" class="w-full py-2 rounded-lg bg-amber-500 text-black text-[10px] font-black uppercase tracking-widest">${escapeHtml(t('map.revisit'))}</button>
+        </div>`;
+      }).join('');
+      element.querySelectorAll<HTMLButtonElement>('button[data-id]').forEach(button => {
+        const item = items.find(entry => entry.id === button.dataset.id);
+        button.addEventListener('click', () => item && onOpenRef.current(item));
+      });
+      return element;
+    };
+
+    // Visits in the order they happened; planned stops are not part of the trail
+    const trail = visible.filter(r => !r.isPlanned).sort((a, b) => a.timestamp - b.timestamp);
+    if (trail.length > 1) {
+      L.polyline(trail.map(r => [r.info.latitude, r.info.longitude]), { color: '#f59e0b', weight: 2, opacity: 0.7 }).addTo(layer);
+    }
+
+    const points = visible.map(item => {
+      const { x, y } = map.project([item.info.latitude, item.info.longitude], zoom);
+      return { x, y, item };
+    });
+    for (const cluster of clusterPoints<LocatedResult>(points, CLUSTER_CELL_PX)) {
+      const [first] = cluster;
+      if (cluster.length === 1) {
+        L.marker([first.info.latitude, first.info.longitude])
+          .bindPopup(popupContent(cluster), { minWidth: 224 })
+          .addTo(layer);
+        continue;
+      }
+      const bounds = L.latLngBounds(cluster.map(r => [r.info.latitude, r.info.longitude]));
+      const center = bounds.getCenter();
+      const marker = L.marker(center, {
+        icon: L.divIcon({
+          className: '',
+          html: `<div class="w-10 h-10 rounded-full bg-amber-500 border-4 border-amber-500/30 bg-clip-padding flex items-center justify-center text-black text-sm font-black shadow-lg">${cluster.length}</div>`,
+          iconSize: [40, 40],
+          iconAnchor: [20, 20]
+        })
+      }).addTo(layer);
+      // Stops sharing a spot never split apart, so list them instead of zooming
+      if (bounds.getNorthEast().equals(bounds.getSouthWest()) || zoom >= map.getMaxZoom()) {
+        marker.bindPopup(popupContent(cluster), { minWidth: 224 });
+      } else {
+        marker.on('click', () => map.fitBounds(bounds, { padding: FIT_PADDING }));
+      }
+    }
+
+    // Where the photo was really taken, tied to the landmark it shows
+    visible.forEach(item => {
+      if (item.capture?.latitude == null || item.capture.longitude == null) return;
+      const spot: [number, number] = [item.capture.latitude, item.capture.longitude];
+      L.circleMarker(spot, { radius: 5, color: '#f59e0b', weight: 2, fillOpacity: 0.6 })
+        .bindTooltip(t('map.photoTaken', { name: item.info.name }))
+        .addTo(layer);
+      L.polyline([spot, [item.info.latitude, item.info.longitude]], { color: '#f59e0b', weight: 1, opacity: 0.5, dashArray: '4 6' }).addTo(layer);
+    });
+  }, [visible, zoom, language]);
+
+  const chipClass = (active: boolean) => `flex items-center gap-1.5 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${active ? 'bg-amber-500 border-amber-400 text-black' : 'bg-white/5 border-white/10 text-zinc-400 hover:text-white'}`;
+  const dateClass = "bg-white/5 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-zinc-200 [color-scheme:dark]";
+
+  return (
+    <div className="flex-1 flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => setFilters({ ...filters, bookmarkedOnly: !filters.bookmarkedOnly })} className={chipClass(!!filters.bookmarkedOnly)}>
+          <Bookmark size={12} /> {t('map.bookmarked')}
+        </button>
+        <button onClick={() => setFilters({ ...filters, downloadedOnly: !filters.downloadedOnly })} className={chipClass(!!filters.downloadedOnly)}>
+          <Download size={12} /> {t('map.downloaded')}
+        </button>
+        <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-zinc-500">
+          {t('geo.from')}
+          <input type="date" value={filters.from || ''} onChange={(e) => setFilters({ ...filters, from: e.target.value || undefined })} className={dateClass} />
+        </label>
+        <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-zinc-500">
+          {t('geo.to')}
+          <input type="date" value={filters.to || ''} onChange={(e) => setFilters({ ...filters, to: e.target.value || undefined })} className={dateClass} />
+        </label>
+      </div>
+      {themes.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => setFilters({ ...filters, theme: undefined })} className={chipClass(!filters.theme)}>
+            <Layers size={12} /> {t('map.allThemes')}
+          </button>
+          {themes.map(theme => (
+            <button key={theme} onClick={() => setFilters({ ...filters, theme })} className={chipClass(filters.theme === theme)}>
+              <Filter size={12} /> {t(THEME_LABELS[theme])}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="relative flex-1 flex flex-col">
+        <div ref={containerRef} className="flex-1 w-full min-h-[500px] rounded-3xl overflow-hidden border border-white/5" />
+        {!visible.length && results.length > 0 && (
+          <div className="absolute inset-x-0 top-6 flex justify-center pointer-events-none z-[1000]">
+            <p className="px-4 py-2 rounded-xl bg-black/70 border border-white/10 text-xs text-zinc-300">{t('map.noMatches')}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
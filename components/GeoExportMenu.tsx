@@ -0,0 +1,94 @@
+
+import React, { useRef, useState } from 'react';
+import { Route, Upload, Loader2 } from 'lucide-react';
+import { LandmarkResult } from '../types';
+import { downloadJournal, GEO_FORMATS, GeoExportScope, GeoFormat } from '../services/geoFormats';
+import { useTranslation } from '../services/i18n';
+
+interface GeoExportMenuProps {
+  results: LandmarkResult[];
+  onImport: (file: File) => Promise<void>;
+}
+
+const FORMAT_LABELS: Record<GeoFormat, string> = {
+  geojson: 'GeoJSON',
+  kml: 'KML',
+  gpx: 'GPX',
+};
+
+export const GeoExportMenu: React.FC<GeoExportMenuProps> = ({ results, onImport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [scope, setScope] = useState<GeoExportScope>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { t } = useTranslation();
+
+  const handleExport = (format: GeoFormat) => {
+    const { exported, skipped } = downloadJournal(results, format, scope);
+    if (!exported) alert(t('geo.nothingToExport'));
+    else if (skipped) alert(t('geo.skipped', { exported: String(exported), skipped: String(skipped) }));
+    setIsOpen(false);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    try {
+      await onImport(file);
+      setIsOpen(false);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const chipClass = (active: boolean) => `flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${active ? 'bg-amber-500 border-amber-400 text-black' : 'bg-white/5 border-white/10 text-zinc-400 hover:text-white'}`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-4 py-3 rounded-xl bg-white/5 hover:bg-white/10 text-[10px] font-black uppercase tracking-widest text-zinc-300 transition-colors"
+      >
+        {isImporting ? <Loader2 size={16} className="animate-spin" /> : <Route size={16} />} {t('geo.menu')}
+      </button>
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-72 bg-zinc-900 border border-white/10 p-4 rounded-2xl space-y-4 shadow-2xl animate-in fade-in slide-in-from-top-2 z-50">
+          <div className="flex gap-2">
+            <button onClick={() => setScope({ ...scope, bookmarkedOnly: false })} className={chipClass(!scope.bookmarkedOnly)}>{t('geo.all')}</button>
+            <button onClick={() => setScope({ ...scope, bookmarkedOnly: true })} className={chipClass(!!scope.bookmarkedOnly)}>{t('geo.bookmarks')}</button>
+          </div>
+          <div className="grid grid-cols-2 gap-2 text-[10px] font-black uppercase tracking-widest text-zinc-500">
+            <label className="space-y-1">
+              <span>{t('geo.from')}</span>
+              <input type="date" value={scope.from || ''} onChange={(e) => setScope({ ...scope, from: e.target.value || undefined })} className="w-full bg-white/5 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-zinc-200 normal-case tracking-normal font-medium [color-scheme:dark]" />
+            </label>
+            <label className="space-y-1">
+              <span>{t('geo.to')}</span>
+              <input type="date" value={scope.to || ''} onChange={(e) => setScope({ ...scope, to: e.target.value || undefined })} className="w-full bg-white/5 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-zinc-200 normal-case tracking-normal font-medium [color-scheme:dark]" />
+            </label>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {GEO_FORMATS.map(format => (
+              <button key={format} onClick={() => handleExport(format)} className="py-2.5 rounded-xl bg-amber-500/10 border border-amber-500/30 text-[10px] font-black uppercase tracking-widest text-amber-500 hover:bg-amber-500 hover:text-black transition-all">
+                {FORMAT_LABELS[format]}
+              </button>
+            ))}
+          </div>
+          <div className="pt-4 border-t border-white/5">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+              className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-widest text-zinc-300 hover:bg-white/10 transition-all disabled:opacity-50"
+            >
+              <Upload size={14} /> {t('geo.import')}
+            </button>
+            <p className="text-[10px] text-zinc-600 mt-2 leading-relaxed">{t('geo.importHint')}</p>
+            <input ref={fileInputRef} type="file" accept=".geojson,.json,.kml,.gpx" onChange={handleFileChange} className="hidden" />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+
+import React from 'react';
+import { Images, Loader2, CheckCircle2, AlertCircle, RotateCcw, X } from 'lucide-react';
+import { useTranslation } from '../services/i18n';
+import { TranslationKey } from '../services/translations';
+import { clearFinishedImports, IMPORT_PROGRESS, ImportStatus, removeImport, retryImport, useImportQueue } from '../services/importQueue';
+
+interface ImportQueuePanelProps {
+  onOpen: (resultId: string) => void;
+}
+
+const STATUS_LABELS: Record<ImportStatus, TranslationKey> = {
+  queued: 'import.queued',
+  preparing: 'import.preparing',
+  identifying: 'import.identifying',
+  researching: 'import.researching',
+  done: 'import.done',
+  error: 'import.failed',
+};
+
+export const ImportQueuePanel: React.FC<ImportQueuePanelProps> = ({ onOpen }) => {
+  const items = useImportQueue();
+  const { t } = useTranslation();
+
+  if (items.length === 0) return null;
+
+  const finished = items.filter(item => item.status === 'done').length;
+
+  return (
+    <div className="bg-zinc-900/60 border border-white/5 rounded-3xl p-6 space-y-4 animate-in fade-in slide-in-from-bottom-4">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-[11px] font-black text-amber-500 uppercase tracking-[0.3em]">
+          <Images size={14} /> {t('import.title', { done: String(finished), total: String(items.length) })}
+        </h3>
+        {finished > 0 && (
+          <button onClick={clearFinishedImports} className="text-[10px] font-black uppercase tracking-widest text-zinc-500 hover:text-white transition-colors">
+            {t('import.clearFinished')}
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2 max-h-80 overflow-y-auto custom-scrollbar">
+        {items.map(item => (
+          <div key={item.id} className="flex items-center gap-3 p-2 rounded-2xl hover:bg-white/5 transition-colors">
+            {item.thumbnailUrl ? (
+              <img src={item.thumbnailUrl} className="w-12 h-12 rounded-xl object-cover flex-shrink-0" />
+            ) : (
+              <div className="w-12 h-12 rounded-xl bg-white/5 flex-shrink-0" />
+            )}
+            <button
+              onClick={() => item.resultId && onOpen(item.resultId)}
+              disabled={!item.resultId}
+              className="flex-1 min-w-0 text-left space-y-1.5 disabled:cursor-default"
+            >
+              <p className="text-sm font-bold truncate">{item.landmarkName || item.fileName}</p>
+              <div className="h-1 rounded-full bg-white/5 overflow-hidden">
+                <div
+                  className={`h-full transition-all duration-700 ${item.status === 'error' ? 'bg-red-500' : item.status === 'done' ? 'bg-green-500' : 'bg-amber-500'}`}
+                  style={{ width: `${IMPORT_PROGRESS[item.status] * 100}%` }}
+                />
+              </div>
+              <p className={`text-[10px] uppercase tracking-widest truncate ${item.status === 'error' ? 'text-red-400' : 'text-zinc-500'}`}>
+                {t(STATUS_LABELS[item.status])}{item.error ? ` · ${item.error}` : ''}
+              </p>
+            </button>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              {item.status === 'done' && <CheckCircle2 size={16} className="text-green-500" />}
+              {item.status === 'error' && <AlertCircle size={16} className="text-red-500" />}
+              {item.status !== 'done' && item.status !== 'error' && item.status !== 'queued' && <Loader2 size={16} className="text-amber-500 animate-spin" />}
+              {item.status === 'error' && (
+                <button onClick={() => retryImport(item.id)} title={t('import.retry')} className="p-2 rounded-xl text-zinc-500 hover:text-white hover:bg-white/5 transition-colors"><RotateCcw size={14} /></button>
+              )}
+              <button onClick={() => removeImport(item.id)} title={t('import.remove')} className="p-2 rounded-xl text-zinc-600 hover:text-white hover:bg-white/5 transition-colors"><X size={14} /></button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
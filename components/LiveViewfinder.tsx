@@ -0,0 +1,195 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Loader2, ScanEye, WifiOff } from 'lucide-react';
+import { CaptureMetadata, LandmarkCandidate } from '../types';
+import { identifyLandmark, providerRequiresNetwork } from '../services/ai';
+import { useTranslation } from '../services/i18n';
+import { getSettings } from '../services/settings';
+import { captureVideoFrame, frameDifference, frameSignature, NormalizedImage, previewVideoFrame } from '../utils/image';
+import { isAbortError } from '../utils/retry';
+
+interface LiveViewfinderProps {
+  onCapture: (photo: NormalizedImage, capture?: CaptureMetadata) => void;
+  onClose: () => void;
+}
+
+const SAMPLE_INTERVAL_MS = 2500;
+// Mean luminance change (0-255) below which the user is holding still on the same scene
+const SCENE_CHANGE_THRESHOLD = 14;
+
+export const LiveViewfinder: React.FC<LiveViewfinderProps> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const positionRef = useRef<GeolocationPosition | null>(null);
+  const headingRef = useRef<number | null>(null);
+  const lastSignatureRef = useRef<Uint8Array | null>(null);
+  const isSamplingRef = useRef(false);
+  const isLockedRef = useRef(false);
+  const [isReady, setIsReady] = useState(false);
+  const [isLocking, setIsLocking] = useState(false);
+  const [isRecognizing, setIsRecognizing] = useState(false);
+  const [isOffline, setIsOffline] = useState(!navigator.onLine);
+  const [provisional, setProvisional] = useState<LandmarkCandidate | null>(null);
+  const { t, language } = useTranslation();
+  const canRecognize = !(isOffline && providerRequiresNetwork);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(mediaStream => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        if (videoRef.current) videoRef.current.srcObject = mediaStream;
+      })
+      .catch(err => {
+        console.error("Camera access failed", err);
+        alert(t('live.cameraDenied'));
+        onClose();
+      });
+
+    // The live frame has no EXIF, so the device position stands in for it
+    const watchId = 'geolocation' in navigator
+      ? navigator.geolocation.watchPosition(
+          position => { positionRef.current = position; },
+          () => { positionRef.current = null; },
+          { enableHighAccuracy: true, maximumAge: 10000 }
+        )
+      : null;
+
+    // GPS heading is the direction of travel; the compass says where the camera faces
+    const handleOrientation = (event: DeviceOrientationEvent) => {
+      const compass = (event as DeviceOrientationEvent & { webkitCompassHeading?: number }).webkitCompassHeading;
+      if (typeof compass === 'number' && !Number.isNaN(compass)) headingRef.current = compass;
+      else if (event.absolute && event.alpha != null) headingRef.current = (360 - event.alpha) % 360;
+    };
+    window.addEventListener('deviceorientationabsolute', handleOrientation as EventListener);
+    window.addEventListener('deviceorientation', handleOrientation);
+
+    const handleOnline = () => setIsOffline(false);
+    const handleOffline = () => setIsOffline(true);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+      if (watchId !== null) navigator.geolocation.clearWatch(watchId);
+      window.removeEventListener('deviceorientationabsolute', handleOrientation as EventListener);
+      window.removeEventListener('deviceorientation', handleOrientation);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const captureMetadata = (): CaptureMetadata => {
+    const position = positionRef.current;
+    const metadata: CaptureMetadata = { takenAt: Date.now() };
+    if (position) {
+      metadata.latitude = position.coords.latitude;
+      metadata.longitude = position.coords.longitude;
+      if (position.coords.altitude != null) metadata.altitude = position.coords.altitude;
+    }
+    if (headingRef.current != null) metadata.heading = headingRef.current;
+    return metadata;
+  };
+
+  // Provisional recognition: at most one request in flight, and none while the scene is unchanged
+  useEffect(() => {
+    if (!isReady || !canRecognize) return;
+    const controller = new AbortController();
+    const sample = async () => {
+      const video = videoRef.current;
+      if (!video || isSamplingRef.current || isLockedRef.current || video.readyState < 2) return;
+      const signature = frameSignature(video);
+      const previous = lastSignatureRef.current;
+      if (previous && frameDifference(signature, previous) < SCENE_CHANGE_THRESHOLD) return;
+
+      isSamplingRef.current = true;
+      setIsRecognizing(true);
+      try {
+        const [best] = await identifyLandmark(await previewVideoFrame(video), language, captureMetadata(), controller.signal);
+        lastSignatureRef.current = signature;
+        if (!isLockedRef.current) setProvisional(best || null);
+      } catch (err) {
+        if (!isAbortError(err)) console.warn("Provisional recognition failed", err);
+      } finally {
+        isSamplingRef.current = false;
+        setIsRecognizing(false);
+      }
+    };
+    sample();
+    const timer = setInterval(sample, SAMPLE_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      controller.abort();
+    };
+  }, [isReady, canRecognize, language]);
+
+  const lockFrame = async () => {
+    const video = videoRef.current;
+    if (!video || !isReady || isLockedRef.current) return;
+    isLockedRef.current = true;
+    setIsLocking(true);
+    try {
+      const photo = await captureVideoFrame(video, getSettings().imageMaxDimension);
+      onCapture(photo, captureMetadata());
+    } catch (err) {
+      console.error("Failed to capture frame", err);
+      isLockedRef.current = false;
+      setIsLocking(false);
+    }
+  };
+
+  return (
+    <div className="relative w-full max-w-xl mx-auto aspect-[3/4] sm:aspect-[4/3] rounded-3xl overflow-hidden bg-black border border-white/10 shadow-2xl">
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted
+        onLoadedData={() => setIsReady(true)}
+        onClick={lockFrame}
+        className="absolute inset-0 w-full h-full object-cover cursor-pointer"
+      />
+
+      {!isReady && (
+        <div className="absolute inset-0 flex items-center justify-center"><Loader2 className="w-8 h-8 text-amber-500 animate-spin" /></div>
+      )}
+
+      <div className="absolute inset-8 border-2 border-white/20 rounded-2xl pointer-events-none" />
+
+      <button onClick={onClose} className="absolute top-4 right-4 p-2 rounded-full bg-black/50 backdrop-blur-md text-white hover:bg-black/70 transition-colors"><X size={18} /></button>
+
+      <div className="absolute top-4 left-4 right-16 pointer-events-none">
+        {!canRecognize ? (
+          <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-black/60 backdrop-blur-md text-[10px] font-black uppercase tracking-widest text-zinc-300">
+            <WifiOff size={12} /> {t('live.offline')}
+          </div>
+        ) : provisional ? (
+          <div className="inline-flex flex-col px-4 py-2 rounded-2xl bg-black/60 backdrop-blur-md border border-amber-500/30 animate-in fade-in">
+            <span className="text-[9px] font-black uppercase tracking-widest text-amber-500">{t('live.provisional', { confidence: String(Math.round(provisional.confidence * 100)) })}</span>
+            <span className="text-sm font-serif font-bold text-white">{provisional.name}</span>
+          </div>
+        ) : (
+          <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-black/60 backdrop-blur-md text-[10px] font-black uppercase tracking-widest text-zinc-300">
+            <ScanEye size={12} className={isRecognizing ? 'animate-pulse text-amber-500' : ''} /> {t('live.scanning')}
+          </div>
+        )}
+      </div>
+
+      <div className="absolute bottom-6 inset-x-0 flex flex-col items-center gap-3">
+        <button
+          onClick={lockFrame}
+          disabled={!isReady || isLocking}
+          className="w-16 h-16 rounded-full bg-white/90 border-4 border-amber-500 flex items-center justify-center active:scale-90 transition-all disabled:opacity-50"
+        >
+          {isLocking && <Loader2 className="w-6 h-6 text-black animate-spin" />}
+        </button>
+        <p className="text-[10px] font-black uppercase tracking-widest text-white/70">{t('live.tapToLock')}</p>
+      </div>
+    </div>
+  );
+};
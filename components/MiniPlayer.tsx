@@ -0,0 +1,79 @@
+
+import React, { useState } from 'react';
+import { Play, Pause, SkipBack, SkipForward, ListMusic, X, Loader2, Volume2 } from 'lucide-react';
+import { useTranslation } from '../services/i18n';
+import {
+  clearPlaylist, nextTrack, playTrack, previousTrack, removeFromQueue,
+  seekPlaylist, togglePlaylist, usePlaylist
+} from '../services/playlist';
+
+const formatTime = (time: number) => {
+  if (!Number.isFinite(time)) return '0:00';
+  const mins = Math.floor(time / 60);
+  const secs = Math.floor(time % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+export const MiniPlayer: React.FC = () => {
+  const { queue, currentIndex, isPlaying, isLoading, currentTime, duration } = usePlaylist();
+  const [showQueue, setShowQueue] = useState(false);
+  const { t } = useTranslation();
+
+  if (queue.length === 0) return null;
+
+  const current = queue[currentIndex];
+
+  return (
+    <div className="fixed bottom-24 lg:bottom-6 right-4 lg:right-6 left-4 sm:left-auto sm:w-96 z-50 bg-zinc-900/95 backdrop-blur-2xl border border-white/10 rounded-3xl shadow-2xl overflow-hidden animate-in fade-in slide-in-from-bottom-4">
+      {showQueue && (
+        <div className="max-h-64 overflow-y-auto custom-scrollbar border-b border-white/5 p-2 space-y-1">
+          {queue.map((item, idx) => (
+            <div key={item.id} className={`flex items-center gap-3 p-2 rounded-2xl transition-colors ${idx === currentIndex ? 'bg-amber-500/10' : 'hover:bg-white/5'}`}>
+              <button onClick={() => playTrack(idx)} className="flex-1 flex items-center gap-3 text-left min-w-0">
+                {item.imageUrl ? <img src={item.thumbnailUrl || item.imageUrl} className="w-10 h-10 rounded-xl object-cover flex-shrink-0" /> : <div className="w-10 h-10 rounded-xl bg-white/5 flex-shrink-0" />}
+                <div className="min-w-0">
+                  <p className={`text-sm font-bold truncate ${idx === currentIndex ? 'text-amber-500' : 'text-zinc-200'}`}>{item.info.name}</p>
+                  <p className="text-[10px] text-zinc-500 uppercase tracking-widest truncate">{item.info.location}</p>
+                </div>
+                {idx === currentIndex && isPlaying && <Volume2 size={14} className="text-amber-500 flex-shrink-0" />}
+              </button>
+              <button onClick={() => removeFromQueue(item.id)} title={t('playlist.remove')} className="p-2 rounded-xl text-zinc-600 hover:text-white hover:bg-white/5 transition-colors"><X size={14} /></button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="p-4 space-y-3">
+        <div className="flex items-center gap-3">
+          {current?.imageUrl ? (
+            <img src={current.thumbnailUrl || current.imageUrl} className="w-12 h-12 rounded-2xl object-cover flex-shrink-0" />
+          ) : (
+            <div className="w-12 h-12 rounded-2xl bg-white/5 flex items-center justify-center flex-shrink-0"><ListMusic size={18} className="text-zinc-600" /></div>
+          )}
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-bold truncate">{current ? current.info.name : t('playlist.title')}</p>
+            <p className="text-[10px] text-zinc-500 uppercase tracking-widest truncate">
+              {isLoading ? t('playlist.preparing') : t('playlist.position', { current: String(Math.max(currentIndex + 1, 1)), total: String(queue.length) })}
+            </p>
+          </div>
+          <button onClick={() => setShowQueue(!showQueue)} title={t('playlist.queue')} className={`p-2 rounded-xl transition-colors ${showQueue ? 'text-amber-500 bg-amber-500/10' : 'text-zinc-500 hover:text-white hover:bg-white/5'}`}><ListMusic size={18} /></button>
+          <button onClick={clearPlaylist} title={t('playlist.clear')} className="p-2 rounded-xl text-zinc-500 hover:text-white hover:bg-white/5 transition-colors"><X size={18} /></button>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] font-mono tabular-nums text-zinc-500">{formatTime(currentTime)}</span>
+          <input type="range" min="0" max={duration || 1} step="0.1" value={currentTime} onChange={(e) => seekPlaylist(parseFloat(e.target.value))} disabled={!duration} className="flex-1 h-1 cursor-pointer accent-amber-500" />
+          <span className="text-[10px] font-mono tabular-nums text-zinc-500">{formatTime(duration)}</span>
+        </div>
+
+        <div className="flex items-center justify-center gap-4">
+          <button onClick={previousTrack} disabled={currentIndex === -1} className="p-2 text-zinc-400 hover:text-white transition-colors disabled:opacity-30"><SkipBack size={18} /></button>
+          <button onClick={togglePlaylist} className="w-11 h-11 rounded-full bg-amber-500 hover:bg-amber-400 text-black flex items-center justify-center transition-all active:scale-90">
+            {isLoading ? <Loader2 size={18} className="animate-spin" /> : isPlaying ? <Pause size={18} fill="currentColor" /> : <Play size={18} fill="currentColor" className="ml-0.5" />}
+          </button>
+          <button onClick={nextTrack} disabled={currentIndex >= queue.length - 1} className="p-2 text-zinc-400 hover:text-white transition-colors disabled:opacity-30"><SkipForward size={18} /></button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -7,29 +7,44 @@ import {
   Type as TypeIcon, Compass, Gauge, Box, Eye, SkipBack, SkipForward,
   Info, Target, History as HistoryIcon, BookOpen, Camera, Image as ImageIcon,
   ArrowRight, Bookmark, Download, MessageSquare, Mail, Layers, Filter,
-  ChevronLeft as ChevronLeftIcon, ChevronRight as ChevronRightIcon, Wifi, X
+  ChevronLeft as ChevronLeftIcon, ChevronRight as ChevronRightIcon, Wifi, X, Database, Languages, SlidersHorizontal, FileAudio, HelpCircle, FileCode
 } from 'lucide-react';
-import { LandmarkResult, RelatedLandmark } from '../types';
-import { generateNarration, generateLandmarkImage } from '../services/gemini';
+import { THEME_LABELS } from './ExplorerMap';
+import { OFFLINE_PART_LABELS } from './OfflineBadge';
+import { CacheStatus, LandmarkResult, LanguageCode, NarrationChapter, NarrationLength, NarrationPersona, NarrationVariant, RelatedLandmark } from '../types';
+import { AUDIO_FORMATS, AudioFormat, downloadNarration } from '../services/audioExport';
+import { generateNarration, generateNarrationScript, generateLandmarkImage, providerRequiresNetwork } from '../services/ai';
+import { LANGUAGES, useTranslation } from '../services/i18n';
+import { isFullyOffline, removeOfflineDownload, startOfflineDownload, useOfflineJobs } from '../services/offlineDownload';
+import { getSettings } from '../services/settings';
+import { DEFAULT_LENGTH, DEFAULT_PERSONA, NARRATION_LENGTHS, NARRATION_PERSONAS, narrationVariantId } from '../services/narration';
+import { landmarkUrl } from '../services/router';
+import { shareTourCard, shareTourPage } from '../services/tourExport';
+import { PREBUILT_VOICES } from '../services/voices';
+import { readAiImage, readAudio, updateResult } from '../services/storage';
 import { decodeBase64, decodeAudioData } from '../utils/audio';
+import { ChronicleTheme, HistorySection, sentenceTheme, splitSections } from '../utils/chronicle';
+import { isAbortError } from '../utils/retry';
+import { timeTranscript } from '../utils/transcript';
 
 interface NarratedExperienceProps {
   result: LandmarkResult;
   onBack: () => void;
   onExploreRelated?: (name: string) => void;
-  onUpdateCache?: (audioBase64: string) => void;
-}
-
-interface HistorySection {
-  title: string;
-  content: string;
+  onUpdateCache?: (audioBase64: string, script: string) => void;
+  onSaveNarration?: (variant: NarrationVariant) => void;
+  onSaveChapter?: (chapter: NarrationChapter) => void;
+  cacheStatus?: CacheStatus | null;
+  onRefresh?: () => Promise<void>;
+  onRegenerate?: (language: LanguageCode) => Promise<void>;
+  onWrongLandmark?: () => void;
 }
 
 interface ARFactNode {
   id: string;
   year: string;
   text: string;
-  theme: string;
+  theme: ChronicleTheme;
   sectionIdx: number;
   x: number;
   y: number;
@@ -40,7 +55,15 @@ type FontSize = 'small' | 'medium' | 'large';
 type PlaybackSpeed = 0.5 | 0.75 | 1 | 1.25 | 1.5 | 2;
 type ARBgMode = 'live' | 'stylized';
 
-export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result, onBack, onExploreRelated, onUpdateCache }) => {
+interface ChapterMeta {
+  duration: number;
+  script: string;
+}
+
+// Seek bar placeholder for chapters that have not been generated yet
+const ESTIMATED_CHAPTER_SECONDS = 25;
+
+export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result, onBack, onExploreRelated, onUpdateCache, onSaveNarration, onSaveChapter, cacheStatus, onRefresh, onRegenerate, onWrongLandmark }) => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [isLoadingAudio, setIsLoadingAudio] = useState(false);
   const [isGeneratingImg, setIsGeneratingImg] = useState(false);
@@ -49,12 +72,33 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
   const [feedback, setFeedback] = useState<'up' | 'down' | null>(null);
   const [expandedSections, setExpandedSections] = useState<Record<number, boolean>>({ 0: true });
   const [showShareMenu, setShowShareMenu] = useState(false);
+  const [isPreparingShare, setIsPreparingShare] = useState(false);
   const [fontSize, setFontSize] = useState<FontSize>('medium');
   const [playbackSpeed, setPlaybackSpeed] = useState<PlaybackSpeed>(1);
   const [parallaxOffset, setParallaxOffset] = useState(0);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [showLanguageMenu, setShowLanguageMenu] = useState(false);
+  const [showStudio, setShowStudio] = useState(false);
+  const [showAudioMenu, setShowAudioMenu] = useState(false);
+  const [isExportingAudio, setIsExportingAudio] = useState(false);
+  const [studioVoice, setStudioVoice] = useState(() => getSettings().narrationVoice);
+  const [studioPersona, setStudioPersona] = useState<NarrationPersona>(DEFAULT_PERSONA);
+  const [studioLength, setStudioLength] = useState<NarrationLength>(DEFAULT_LENGTH);
+  const [activeVariantId, setActiveVariantId] = useState<string | null>(null);
+  const [isGeneratingVariant, setIsGeneratingVariant] = useState(false);
+  const [isChapterMode, setIsChapterMode] = useState(false);
+  const [activeChapter, setActiveChapter] = useState(0);
+  const [loadingChapter, setLoadingChapter] = useState<number | null>(null);
+  const [chapterMeta, setChapterMeta] = useState<Record<number, ChapterMeta>>({});
+  const chapterLoadsRef = useRef<Record<number, Promise<AudioBuffer>>>({});
+  const chapterRequestRef = useRef(0);
+  // Aborted when the tour closes or switches entry, so late answers never land on the wrong one
+  const requestsRef = useRef(new AbortController());
+  const { t, language } = useTranslation();
   
   const [isBookmarked, setIsBookmarked] = useState(result.isBookmarked || false);
-  const [isDownloaded, setIsDownloaded] = useState(result.isDownloaded || false);
+  const offlineJob = useOfflineJobs()[result.id];
+  const isSavingOffline = offlineJob?.status === 'running';
 
   // AR Mode States
   const [isARMode, setIsARMode] = useState(() => {
@@ -62,13 +106,15 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
   });
   const [arBgMode, setArBgMode] = useState<ARBgMode>('live');
   const [selectedARFact, setSelectedARFact] = useState<ARFactNode | null>(null);
-  const [selectedTheme, setSelectedTheme] = useState<string>('All');
+  const [selectedTheme, setSelectedTheme] = useState<ChronicleTheme | 'All'>('All');
   const [trackingConfidence, setTrackingConfidence] = useState(98);
   const videoRef = useRef<HTMLVideoElement>(null);
   const [stream, setStream] = useState<MediaStream | null>(null);
 
   const sidebarRef = useRef<HTMLDivElement>(null);
   const sectionRefs = useRef<Record<number, HTMLElement | null>>({});
+  const transcriptRef = useRef<HTMLDivElement>(null);
+  const sentenceRefs = useRef<Record<number, HTMLElement | null>>({});
   const audioContextRef = useRef<AudioContext | null>(null);
   const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
   const audioBufferRef = useRef<AudioBuffer | null>(null);
@@ -78,27 +124,7 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
   const [duration, setDuration] = useState(0);
   const animationFrameRef = useRef<number>(null);
 
-  const sections: HistorySection[] = React.useMemo(() => {
-    const raw = result.history.split(/##\s+/);
-    const parsed: HistorySection[] = [];
-    
-    if (raw[0].trim()) {
-      const lines = raw[0].trim().split('\n');
-      const introTitle = lines[0].length < 30 ? lines[0] : "Introduction";
-      parsed.push({
-        title: introTitle,
-        content: raw[0].trim()
-      });
-    }
-
-    for (let i = 1; i < raw.length; i++) {
-      const lines = raw[i].split('\n');
-      const title = lines[0].trim();
-      const content = lines.slice(1).join('\n').trim();
-      parsed.push({ title, content });
-    }
-    return parsed;
-  }, [result.history]);
+  const sections: HistorySection[] = React.useMemo(() => splitSections(result.history), [result.history]);
 
   const arFactNodes: ARFactNode[] = React.useMemo(() => {
     const nodes: ARFactNode[] = [];
@@ -109,17 +135,11 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
       sentences.forEach((s, idx) => {
         const match = s.match(yearRegex);
         if (match && nodes.length < 8) {
-          let theme = "General History";
-          if (s.toLowerCase().includes('architect') || s.toLowerCase().includes('design')) theme = "Architecture";
-          if (s.toLowerCase().includes('war') || s.toLowerCase().includes('battle') || s.toLowerCase().includes('conflict')) theme = "Conflict";
-          if (s.toLowerCase().includes('rebuild') || s.toLowerCase().includes('modern') || s.toLowerCase().includes('today')) theme = "Modernization";
-          if (s.toLowerCase().includes('king') || s.toLowerCase().includes('queen') || s.toLowerCase().includes('emperor')) theme = "Royal Era";
-
           nodes.push({
             id: `fact-${sIdx}-${idx}`,
             year: match[0],
             text: s.trim().substring(0, 120) + (s.length > 120 ? '...' : ''),
-            theme: theme,
+            theme: sentenceTheme(s, result.language),
             sectionIdx: sIdx,
             x: (Math.random() - 0.5) * 50,
             y: (Math.random() - 0.5) * 35,
@@ -133,7 +153,7 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
 
   const uniqueThemes = React.useMemo(() => {
     const themes = new Set(arFactNodes.map(n => n.theme));
-    return ['All', ...Array.from(themes)];
+    return ['All' as const, ...Array.from(themes)];
   }, [arFactNodes]);
 
   const filteredNodes = React.useMemo(() => {
@@ -200,7 +220,7 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
         console.error("Camera access failed", err);
         setIsARMode(false);
         localStorage.removeItem(`ar_active_${result.id}`);
-        alert("Camera access is required for AR mode. Please ensure permissions are granted.");
+        alert(t('tour.arCameraRequired'));
       }
     } else {
       if (stream) {
@@ -210,9 +230,8 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
     }
   };
 
-  const jumpToChronicleSection = (idx: number) => {
+  const revealSection = (idx: number) => {
     setExpandedSections(prev => ({ ...prev, [idx]: true }));
-    setSelectedARFact(null);
     setTimeout(() => {
       const sectionEl = sectionRefs.current[idx];
       if (sectionEl && sidebarRef.current) {
@@ -224,6 +243,11 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
     }, 50);
   };
 
+  const jumpToChronicleSection = (idx: number) => {
+    setSelectedARFact(null);
+    revealSection(idx);
+  };
+
   useEffect(() => {
     if (isARMode && !stream) {
       toggleAR();
@@ -259,56 +283,56 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
   };
 
   useEffect(() => {
+    const controller = new AbortController();
+    requestsRef.current = controller;
+    const { signal } = controller;
+
     const fetchNarration = async () => {
-      if (result.audioBase64) {
+      setActiveVariantId(null);
+      setIsChapterMode(false);
+      setChapterMeta({});
+      setIsLoadingAudio(false);
+      chapterLoadsRef.current = {};
+      const request = chapterRequestRef.current;
+      const saved = await readAudio(result).catch(() => null);
+      if (signal.aborted) return;
+      if (saved) {
         try {
-          const bytes = decodeBase64(result.audioBase64);
-          if (!audioContextRef.current) {
-            audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-          }
-          const audioBuffer = await decodeAudioData(bytes, audioContextRef.current);
-          audioBufferRef.current = audioBuffer;
-          setDuration(audioBuffer.duration);
-          playFromOffset(0);
+          await loadAudio(saved);
           return;
         } catch (e) {
           console.error("Failed to load cached audio", e);
         }
       }
 
-      if (!navigator.onLine) return;
+      if (!navigator.onLine && providerRequiresNetwork) return;
 
       setIsLoadingAudio(true);
       try {
-        const base64 = await generateNarration(result.history);
-        const bytes = decodeBase64(base64);
-        
-        if (!audioContextRef.current) {
-          audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-        }
-        
-        const audioBuffer = await decodeAudioData(bytes, audioContextRef.current);
-        audioBufferRef.current = audioBuffer;
-        setDuration(audioBuffer.duration);
-        
-        if (onUpdateCache) onUpdateCache(base64);
-        
-        playFromOffset(0);
+        const options = { language: result.language || 'en', voice: getSettings().narrationVoice };
+        const script = await generateNarrationScript(result.history, options, signal);
+        const base64 = await generateNarration(script, options, signal);
+        if (signal.aborted) return;
+        if (onUpdateCache) onUpdateCache(base64, script);
+        // A chapter may have been started while the full tour was generating
+        if (request === chapterRequestRef.current) await loadAudio(base64);
       } catch (err) {
-        console.error("Narration failed", err);
+        if (!isAbortError(err)) console.error("Narration failed", err);
       } finally {
-        setIsLoadingAudio(false);
+        if (!signal.aborted) setIsLoadingAudio(false);
       }
     };
 
     fetchNarration();
 
     return () => {
+      controller.abort();
       stopPlayback();
       if (audioContextRef.current) audioContextRef.current.close();
+      audioContextRef.current = null;
       if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
     };
-  }, [result.history, result.id]);
+  }, [result.history, result.id, result.language]);
 
   const updateProgress = () => {
     if (isPlaying && audioContextRef.current) {
@@ -333,6 +357,20 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
     };
   }, [isPlaying, duration, playbackSpeed]);
 
+  const getAudioContext = () => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    return audioContextRef.current;
+  };
+
+  const loadAudio = async (base64: string) => {
+    const audioBuffer = await decodeAudioData(decodeBase64(base64), getAudioContext());
+    audioBufferRef.current = audioBuffer;
+    setDuration(audioBuffer.duration);
+    playFromOffset(0);
+  };
+
   const playFromOffset = (offset: number) => {
     if (!audioBufferRef.current || !audioContextRef.current) return;
     
@@ -343,7 +381,7 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
     source.playbackRate.value = playbackSpeed;
     source.connect(audioContextRef.current.destination);
     
-    offsetRef.current = Math.max(0, Math.min(offset, duration));
+    offsetRef.current = Math.max(0, Math.min(offset, audioBufferRef.current.duration));
     startTimeRef.current = audioContextRef.current.currentTime;
     
     source.start(0, offsetRef.current);
@@ -366,33 +404,38 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
       stopPlayback();
     } else {
       if (currentTime >= duration) {
-        playFromOffset(0);
+        if (isChapterMode) playChapter(0);
+        else playFromOffset(0);
       } else {
         playFromOffset(currentTime);
       }
     }
   };
 
-  const skip = (seconds: number) => {
-    const newTime = Math.max(0, Math.min(currentTime + seconds, duration));
-    if (isPlaying) {
-      playFromOffset(newTime);
-    } else {
-      offsetRef.current = newTime;
-      setCurrentTime(newTime);
+  // Times are on the whole timeline, which spans every chapter in chapter mode
+  const seekTo = (time: number, autoplay = false) => {
+    let newTime = Math.max(0, Math.min(time, timelineDuration));
+    if (isChapterMode) {
+      let idx = 0;
+      while (idx < sections.length - 1 && newTime >= chapterStarts[idx + 1]) idx++;
+      newTime -= chapterStarts[idx];
+      if (idx !== activeChapter || !chapterMeta[idx]) {
+        playChapter(idx, newTime);
+        return;
+      }
     }
-  };
-
-  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const newTime = parseFloat(e.target.value);
     setCurrentTime(newTime);
-    if (isPlaying) {
+    if (isPlaying || autoplay) {
       playFromOffset(newTime);
     } else {
       offsetRef.current = newTime;
     }
   };
 
+  const skip = (seconds: number) => seekTo(timelineTime + seconds);
+
+  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => seekTo(parseFloat(e.target.value));
+
   const changePlaybackSpeed = (speed: PlaybackSpeed) => {
     if (playbackSpeed === speed) return;
     const now = audioContextRef.current?.currentTime || 0;
@@ -404,13 +447,199 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
     }
   };
 
+  const resultLanguage = result.language || 'en';
+  const hasNarration = !!result.audioBase64 || !!result.storedNarration;
+  const variants: NarrationVariant[] = (result.narrations || []).filter(v => v.language === resultLanguage);
+  const studioVariantId = narrationVariantId(resultLanguage, studioVoice, studioPersona, studioLength);
+  const studioVariant = variants.find(v => v.id === studioVariantId);
+
+  const chapterStarts = React.useMemo(() => {
+    const starts = [0];
+    sections.forEach((_, idx) => starts.push(starts[idx] + (chapterMeta[idx]?.duration ?? ESTIMATED_CHAPTER_SECONDS)));
+    return starts;
+  }, [sections, chapterMeta]);
+
+  const timelineDuration = isChapterMode ? chapterStarts[sections.length] : duration;
+  const timelineTime = isChapterMode ? chapterStarts[activeChapter] + currentTime : currentTime;
+
+  const findCachedChapter = (idx: number) => (result.chapters || []).find(c =>
+    c.index === idx && c.language === resultLanguage && c.title === sections[idx]?.title
+  );
+
+  const canLoadChapter = (idx: number) => !!findCachedChapter(idx) || navigator.onLine || !providerRequiresNetwork;
+
+  // Each chapter is generated once, on first play, then replayed from the journal entry
+  const loadChapter = (idx: number): Promise<AudioBuffer> => {
+    const loads = chapterLoadsRef.current;
+    if (!loads[idx]) {
+      const { signal } = requestsRef.current;
+      loads[idx] = (async () => {
+        let chapter = findCachedChapter(idx);
+        let audioBase64 = chapter ? await readAudio(result, chapter) : null;
+        if (!chapter || !audioBase64) {
+          const section = sections[idx];
+          const options = { language: resultLanguage, voice: getSettings().narrationVoice };
+          const script = await generateNarrationScript(`## ${section.title}\n${section.content}`, options, signal);
+          audioBase64 = await generateNarration(script, options, signal);
+          signal.throwIfAborted();
+          chapter = { index: idx, title: section.title, ...options, script, audioBase64, createdAt: Date.now() };
+          if (onSaveChapter) onSaveChapter(chapter);
+        }
+        const { script } = chapter;
+        const buffer = await decodeAudioData(decodeBase64(audioBase64), getAudioContext());
+        if (chapterLoadsRef.current === loads) {
+          setChapterMeta(prev => ({ ...prev, [idx]: { duration: buffer.duration, script } }));
+        }
+        return buffer;
+      })();
+      // Let a failed chapter be retried
+      loads[idx].catch(() => { delete loads[idx]; });
+    }
+    return loads[idx];
+  };
+
+  const playChapter = async (idx: number, offset = 0) => {
+    const request = ++chapterRequestRef.current;
+    stopPlayback();
+    setIsChapterMode(true);
+    setActiveVariantId(null);
+    setActiveChapter(idx);
+    setCurrentTime(offset);
+    setLoadingChapter(idx);
+    revealSection(idx);
+    try {
+      const buffer = await loadChapter(idx);
+      if (request !== chapterRequestRef.current) return;
+      audioBufferRef.current = buffer;
+      setDuration(buffer.duration);
+      playFromOffset(offset);
+      if (idx + 1 < sections.length && canLoadChapter(idx + 1)) {
+        loadChapter(idx + 1).catch(err => {
+          if (!isAbortError(err)) console.error("Failed to prepare next chapter", err);
+        });
+      }
+    } catch (err) {
+      if (!isAbortError(err)) console.error("Chapter narration failed", err);
+    } finally {
+      if (request === chapterRequestRef.current) setLoadingChapter(null);
+    }
+  };
+
+  // Roll straight into the next chapter when one finishes
+  useEffect(() => {
+    if (isChapterMode && !isPlaying && duration > 0 && currentTime >= duration && activeChapter + 1 < sections.length) {
+      playChapter(activeChapter + 1);
+    }
+  }, [isPlaying, currentTime]);
+
+  const toggleChapter = (idx: number) => {
+    if (isChapterMode && activeChapter === idx && loadingChapter === null && currentTime < duration) togglePlayback();
+    else playChapter(idx);
+  };
+
+  const activeScript = activeVariantId
+    ? variants.find(v => v.id === activeVariantId)?.script
+    : result.narrationScript;
+
+  const transcript = React.useMemo(() => {
+    if (isChapterMode) {
+      return sections.flatMap((_, idx) => {
+        const meta = chapterMeta[idx];
+        if (!meta) return [];
+        return timeTranscript(meta.script, meta.duration)
+          .map(s => ({ ...s, start: s.start + chapterStarts[idx], end: s.end + chapterStarts[idx] }));
+      });
+    }
+    return activeScript ? timeTranscript(activeScript, duration) : [];
+  }, [isChapterMode, sections, chapterMeta, chapterStarts, activeScript, duration]);
+
+  const activeSentence = transcript.reduce((active, sentence, idx) => sentence.start <= timelineTime ? idx : active, -1);
+
+  // Keep the spoken sentence in view without moving the chronicle sidebar
+  useEffect(() => {
+    const sentenceEl = sentenceRefs.current[activeSentence];
+    if (sentenceEl && transcriptRef.current) {
+      transcriptRef.current.scrollTo({
+        top: sentenceEl.offsetTop - transcriptRef.current.clientHeight / 3,
+        behavior: 'smooth'
+      });
+    }
+  }, [activeSentence]);
+
+  const seekToSentence = (idx: number) => {
+    if (transcript[idx]) seekTo(transcript[idx].start, true);
+  };
+
+  // null selects the original narration saved with the entry
+  const selectVariant = async (variant: NarrationVariant | null) => {
+    const { signal } = requestsRef.current;
+    const base64 = await readAudio(result, variant || undefined).catch(() => null);
+    if (!base64 || signal.aborted) return;
+    chapterRequestRef.current++;
+    setIsChapterMode(false);
+    setActiveVariantId(variant ? variant.id : null);
+    try {
+      await loadAudio(base64);
+    } catch (err) {
+      console.error("Failed to load narration variant", err);
+    }
+  };
+
+  const handleGenerateVariant = async () => {
+    if (studioVariant) {
+      await selectVariant(studioVariant);
+      return;
+    }
+    const { signal } = requestsRef.current;
+    setIsGeneratingVariant(true);
+    try {
+      const options = { language: resultLanguage, voice: studioVoice, persona: studioPersona, length: studioLength };
+      const script = await generateNarrationScript(result.history, options, signal);
+      const audioBase64 = await generateNarration(script, options, signal);
+      if (signal.aborted) return;
+      const variant: NarrationVariant = {
+        id: studioVariantId,
+        ...options,
+        audioBase64,
+        script,
+        createdAt: Date.now()
+      };
+      if (onSaveNarration) onSaveNarration(variant);
+      await selectVariant(variant);
+    } catch (err) {
+      if (!isAbortError(err)) console.error("Narration variant failed", err);
+    } finally {
+      setIsGeneratingVariant(false);
+    }
+  };
+
+  const activeVariant = variants.find(v => v.id === activeVariantId);
+
+  // Exports whichever narration is selected in the studio
+  const handleDownloadAudio = async (format: AudioFormat) => {
+    setShowAudioMenu(false);
+    setIsExportingAudio(true);
+    try {
+      await downloadNarration(result, format, activeVariant);
+    } catch (err) {
+      console.error("Audio export failed", err);
+      alert(t('export.audioFailed'));
+    } finally {
+      setIsExportingAudio(false);
+    }
+  };
+
   const handleGenerateImage = async () => {
+    const { signal } = requestsRef.current;
     setIsGeneratingImg(true);
     try {
-      const url = await generateLandmarkImage(result.info.name);
+      // Show the reimagining saved for offline before paying for a new one
+      const saved = aiImageUrl ? null : await readAiImage(result, 'cinematic').catch(() => null);
+      const url = saved || await generateLandmarkImage(result.info.name, 'cinematic', signal);
+      if (signal.aborted) return;
       setAiImageUrl(url);
     } catch (err) {
-      console.error(err);
+      if (!isAbortError(err)) console.error(err);
     } finally {
       setIsGeneratingImg(false);
     }
@@ -421,12 +650,15 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
     setArBgMode(nextMode);
     
     if (nextMode === 'stylized' && !abstractImageUrl && !isGeneratingImg) {
+      const { signal } = requestsRef.current;
       setIsGeneratingImg(true);
       try {
-        const url = await generateLandmarkImage(result.info.name, 'abstract');
+        const saved = await readAiImage(result, 'abstract').catch(() => null);
+        const url = saved || await generateLandmarkImage(result.info.name, 'abstract', signal);
+        if (signal.aborted) return;
         setAbstractImageUrl(url);
       } catch (err) {
-        console.error(err);
+        if (!isAbortError(err)) console.error(err);
       } finally {
         setIsGeneratingImg(false);
       }
@@ -435,32 +667,70 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
 
   const handleBookmark = () => {
     setIsBookmarked(!isBookmarked);
-    const saved = localStorage.getItem('lumina_tour_history');
-    if (saved) {
-      const history = JSON.parse(saved);
-      const updated = history.map((item: any) => 
-        item.id === result.id ? { ...item, isBookmarked: !isBookmarked } : item
-      );
-      localStorage.setItem('lumina_tour_history', JSON.stringify(updated));
+    updateResult(result.id, { isBookmarked: !isBookmarked })
+      .catch(err => console.error("Failed to update bookmark", err));
+  };
+
+  const handleDownload = async () => {
+    if (isSavingOffline) return;
+    if (isFullyOffline(result)) {
+      if (!confirm(t('offline.remove', { name: result.info.name }))) return;
+      removeOfflineDownload(result.id).catch(err => console.error("Failed to remove offline tour", err));
+      return;
+    }
+    try {
+      const job = await startOfflineDownload(result);
+      if (job.status === 'done') {
+        alert(t('tour.savedOffline', { name: result.info.name }));
+      } else if (job.status === 'partial') {
+        const missing = job.failed.map(part => t(OFFLINE_PART_LABELS[part])).join(', ');
+        alert(t('offline.partial', { name: result.info.name, missing }));
+      }
+    } catch (err) {
+      console.error("Failed to save for offline", err);
+      alert(t('offline.failed'));
+    }
+  };
+
+  const handleRefresh = async () => {
+    if (!onRefresh) return;
+    setIsRefreshing(true);
+    try {
+      await onRefresh();
+    } catch (err) {
+      console.error("Refresh failed", err);
+      alert(t('tour.refreshFailed'));
+    } finally {
+      setIsRefreshing(false);
     }
   };
 
-  const handleDownload = () => {
-    setIsDownloaded(true);
-    const saved = localStorage.getItem('lumina_tour_history');
-    if (saved) {
-      const history = JSON.parse(saved);
-      const updated = history.map((item: any) => 
-        item.id === result.id ? { ...item, isDownloaded: true } : item
-      );
-      localStorage.setItem('lumina_tour_history', JSON.stringify(updated));
+  const handleRegenerate = async (target: LanguageCode) => {
+    if (!onRegenerate) return;
+    setShowLanguageMenu(false);
+    setIsRefreshing(true);
+    try {
+      await onRegenerate(target);
+    } catch (err) {
+      console.error("Regeneration failed", err);
+      alert(t('tour.refreshFailed'));
+    } finally {
+      setIsRefreshing(false);
     }
-    alert(`${result.info.name} saved for offline access.`);
+  };
+
+  const formatCacheAge = (cachedAt: number) => {
+    const relative = new Intl.RelativeTimeFormat(language, { style: 'short' });
+    const minutes = Math.floor((Date.now() - cachedAt) / 60000);
+    if (minutes < 60) return relative.format(-Math.max(1, minutes), 'minute');
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return relative.format(-hours, 'hour');
+    return relative.format(-Math.floor(hours / 24), 'day');
   };
 
   const shareViaPlatform = (platform: string) => {
-    const text = `Discovering history with LuminaTour: ${result.info.name}`;
-    const url = window.location.href;
+    const text = t('share.text', { name: result.info.name });
+    const url = landmarkUrl(result);
     let shareUrl = "";
 
     switch (platform) {
@@ -470,12 +740,26 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
       case 'email': shareUrl = `mailto:?subject=${encodeURIComponent(text)}&body=${encodeURIComponent(url)}`; break;
       case 'copy':
         navigator.clipboard.writeText(`${text} - ${url}`);
-        alert("Link copied!");
+        alert(t('share.copied'));
         return;
     }
     if (shareUrl) window.open(shareUrl, '_blank');
   };
 
+  // Sends the tour itself rather than a link, for recipients without the app
+  const shareFile = async (share: (result: LandmarkResult) => Promise<void>) => {
+    setIsPreparingShare(true);
+    try {
+      await share(result);
+      setShowShareMenu(false);
+    } catch (err) {
+      console.error("Tour share failed", err);
+      alert(t('share.failed'));
+    } finally {
+      setIsPreparingShare(false);
+    }
+  };
+
   const formatTime = (time: number) => {
     const mins = Math.floor(time / 60);
     const secs = Math.floor(time % 60);
@@ -626,7 +910,7 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
                              {node.year}
                            </span>
                            <span className={`text-[8px] font-bold uppercase tracking-[0.1em] opacity-60 ${isSelected ? 'text-black' : 'text-amber-500'}`}>
-                             {node.theme}
+                             {t(THEME_LABELS[node.theme])}
                            </span>
                            <p className={`text-[10px] font-medium leading-tight line-clamp-2 mt-1 ${isSelected ? 'text-black/80' : 'text-zinc-400'}`}>
                              {node.text}
@@ -646,7 +930,7 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
                  <div className="flex items-center gap-4 bg-black/60 backdrop-blur-xl px-5 py-3 rounded-2xl border border-white/10 pointer-events-auto shadow-2xl">
                     <div className={`w-2.5 h-2.5 rounded-full ${trackingConfidence > 85 ? 'bg-green-500 animate-pulse shadow-[0_0_10px_#22c55e]' : trackingConfidence > 65 ? 'bg-amber-500 shadow-[0_0_10px_#f59e0b]' : 'bg-red-500 animate-ping shadow-[0_0_10px_#ef4444]'}`} />
                     <div className="flex flex-col">
-                      <span className="text-[10px] font-black text-zinc-400 uppercase tracking-widest leading-none mb-1">Stability Sync</span>
+                      <span className="text-[10px] font-black text-zinc-400 uppercase tracking-widest leading-none mb-1">{t('tour.arStability')}</span>
                       <div className="flex items-center gap-2">
                         <div className="w-24 h-1 bg-white/10 rounded-full overflow-hidden">
                            <div 
@@ -671,7 +955,7 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
                            : 'bg-black/50 border-white/10 text-zinc-400 hover:text-white hover:bg-white/10'}`}
                      >
                        {theme === 'All' ? <Layers size={10} className="inline mr-1.5 mb-0.5" /> : <Filter size={10} className="inline mr-1.5 mb-0.5" />}
-                       {theme}
+                       {theme === 'All' ? t('map.allThemes') : t(THEME_LABELS[theme])}
                      </button>
                    ))}
                  </div>
@@ -727,7 +1011,7 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
                        <div>
                           <div className="flex items-center gap-3 mb-2">
                             <span className="px-3 py-1 rounded-lg bg-amber-500/10 text-amber-500 text-[10px] font-black uppercase tracking-[0.2em] border border-amber-500/30">
-                              {selectedARFact.theme}
+                              {t(THEME_LABELS[selectedARFact.theme])}
                             </span>
                           </div>
                           <h4 className="text-4xl font-serif text-white tracking-tight">The Year {selectedARFact.year}</h4>
@@ -763,7 +1047,7 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
           </div>
         ) : (
           <div className="absolute inset-0 w-full h-full" style={{ transform: `translateY(${parallaxOffset}px)` }}>
-            <img src={aiImageUrl || result.imageUrl} className={`absolute inset-0 w-full h-full object-cover scale-110 blur-[4px] opacity-40 transition-all duration-1000 ${isGeneratingImg ? 'opacity-10 animate-pulse' : ''}`} alt="" />
+            <img src={aiImageUrl || result.imageUrl || undefined} className={`absolute inset-0 w-full h-full object-cover scale-110 blur-[4px] opacity-40 transition-all duration-1000 ${isGeneratingImg ? 'opacity-10 animate-pulse' : ''}`} alt="" />
           </div>
         )}
 
@@ -778,17 +1062,22 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
                    <p className="text-zinc-400 font-serif italic">Reimagining through AI...</p>
                 </div>
               ) : (
-                <img src={aiImageUrl || result.imageUrl} className="w-full h-full object-cover animate-zoom-in" alt={result.info.name} />
+                <img src={aiImageUrl || result.imageUrl || undefined} className="w-full h-full object-cover animate-zoom-in" alt={result.info.name} />
               )}
               <div className="absolute bottom-0 left-0 right-0 p-8 bg-gradient-to-t from-black/90 to-transparent">
                  <div className="flex items-center gap-2 text-amber-400 mb-2">
                    <MapPin size={16} />
-                   <span className="text-xs font-bold uppercase tracking-widest">{result.info.location || 'Unknown'}</span>
+                   <span className="text-xs font-bold uppercase tracking-widest">{result.info.location || t('tour.unknownLocation')}</span>
                  </div>
                  <div className="flex justify-between items-end">
                    <div>
                      <h1 className="text-4xl font-serif text-white mb-1 leading-tight">{result.info.name}</h1>
                      <p className="text-zinc-200 text-sm max-w-md line-clamp-1 opacity-80">{result.info.description}</p>
+                     {onWrongLandmark && (
+                       <button onClick={onWrongLandmark} className="mt-3 inline-flex items-center gap-1.5 px-3 py-1 rounded-full bg-black/40 backdrop-blur-md border border-white/10 text-[10px] font-black uppercase tracking-widest text-zinc-300 hover:text-amber-400 hover:border-amber-500/40 transition-all">
+                         <HelpCircle size={12} /> {t('tour.wrongLandmark')}
+                       </button>
+                     )}
                    </div>
                    <div className="flex gap-2">
                       <button onClick={handleGenerateImage} disabled={isGeneratingImg} className="p-3 rounded-full bg-white/10 backdrop-blur-md border border-white/20 hover:bg-amber-500 hover:text-black transition-all group/btn relative">
@@ -815,6 +1104,13 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
                             <button onClick={() => shareViaPlatform('copy')} className="flex items-center gap-3 px-4 py-2 hover:bg-white/5 rounded-xl text-sm text-zinc-300">
                               <Copy size={14} /> Copy Link
                             </button>
+                            <div className="h-px bg-white/5 my-1" />
+                            <button onClick={() => shareFile(shareTourPage)} disabled={isPreparingShare} className="flex items-center gap-3 px-4 py-2 hover:bg-white/5 rounded-xl text-sm text-zinc-300 whitespace-nowrap disabled:opacity-50">
+                              <FileCode size={14} className="text-amber-500" /> {t('share.page')}
+                            </button>
+                            <button onClick={() => shareFile(shareTourCard)} disabled={isPreparingShare} className="flex items-center gap-3 px-4 py-2 hover:bg-white/5 rounded-xl text-sm text-zinc-300 whitespace-nowrap disabled:opacity-50">
+                              {isPreparingShare ? <RefreshCcw size={14} className="animate-spin" /> : <ImageIcon size={14} className="text-amber-500" />} {t('share.card')}
+                            </button>
                           </div>
                         )}
                       </div>
@@ -829,20 +1125,65 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
         <div className="absolute bottom-10 left-1/2 -translate-x-1/2 flex gap-4 z-40">
            <button onClick={toggleAR} className={`flex items-center gap-3 px-8 py-4 rounded-2xl font-black uppercase tracking-[0.2em] text-[11px] transition-all border shadow-2xl group/ar ${isARMode ? 'bg-red-500 text-white border-red-400 hover:bg-red-600' : 'bg-amber-500 border-amber-400 text-black hover:bg-amber-400 hover:scale-105 active:scale-95'}`}>
               {isARMode ? <Box size={20} className="animate-pulse" /> : <Eye size={20} className="group-hover/ar:animate-bounce" />}
-              {isARMode ? "Disconnect AR" : "Augmented Vision"}
+              {isARMode ? t('tour.arOff') : t('tour.arOn')}
            </button>
         </div>
 
         <button onClick={onBack} className="absolute top-8 left-8 flex items-center gap-3 px-6 py-3 rounded-full bg-black/50 backdrop-blur-xl border border-white/10 text-white hover:bg-white/10 transition-colors z-50 shadow-2xl">
-          <ChevronLeft size={22} /> Exit Experience
+          <ChevronLeft size={22} /> {t('tour.exit')}
         </button>
       </div>
 
       <div ref={sidebarRef} onScroll={handleScroll} className="w-full md:w-[480px] bg-zinc-950 border-l border-white/5 flex flex-col h-[60vh] md:h-full relative shadow-2xl overflow-y-auto custom-scrollbar" role="complementary">
         <div className="p-10 space-y-10 pb-56">
           <div className="flex items-center justify-between border-b border-white/5 pb-6">
-            <h2 className="text-[11px] font-black text-amber-500 uppercase tracking-[0.3em]">The Chronicle</h2>
+            <div className="space-y-2">
+              <h2 className="text-[11px] font-black text-amber-500 uppercase tracking-[0.3em]">{t('tour.chronicle')}</h2>
+              {cacheStatus && (
+                <div className={`inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-widest border ${cacheStatus.fromCache ? 'bg-sky-500/10 border-sky-500/20 text-sky-400' : 'bg-green-500/10 border-green-500/20 text-green-500'}`}>
+                  {cacheStatus.fromCache ? <Database size={10} /> : <Wifi size={10} />}
+                  {cacheStatus.fromCache ? t('tour.cached', { age: formatCacheAge(cacheStatus.cachedAt) }) : t('tour.live')}
+                </div>
+              )}
+            </div>
             <div className="flex gap-2">
+              {onRefresh && (
+                <button 
+                  onClick={handleRefresh} 
+                  disabled={isRefreshing}
+                  title={t('tour.refresh')}
+                  className="p-2.5 rounded-xl border bg-white/5 border-white/5 text-zinc-500 hover:text-white transition-all disabled:opacity-50"
+                >
+                  <RefreshCcw size={18} className={isRefreshing ? 'animate-spin' : ''} />
+                </button>
+              )}
+              {onRegenerate && (
+                <div className="relative">
+                  <button 
+                    onClick={() => setShowLanguageMenu(!showLanguageMenu)} 
+                    disabled={isRefreshing}
+                    title={t('tour.regenerate')}
+                    className="p-2.5 rounded-xl border bg-white/5 border-white/5 text-zinc-500 hover:text-white transition-all disabled:opacity-50"
+                  >
+                    <Languages size={18} />
+                  </button>
+                  {showLanguageMenu && (
+                    <div className="absolute top-full right-0 mt-2 bg-zinc-900 border border-white/10 p-2 rounded-2xl flex flex-col gap-1 shadow-2xl animate-in fade-in slide-in-from-top-2 z-50 min-w-[160px]">
+                      {LANGUAGES.map(lang => (
+                        <button 
+                          key={lang.code} 
+                          onClick={() => handleRegenerate(lang.code)} 
+                          disabled={lang.code === (result.language || 'en')}
+                          className="flex items-center justify-between gap-3 px-4 py-2 hover:bg-white/5 rounded-xl text-sm text-zinc-300 disabled:text-amber-500 disabled:hover:bg-transparent"
+                        >
+                          {lang.label}
+                          <span className="text-[9px] font-black uppercase text-zinc-600">{lang.code}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
               <button 
                 onClick={handleBookmark} 
                 className={`p-2.5 rounded-xl border transition-all ${isBookmarked ? 'bg-amber-500 border-amber-400 text-black' : 'bg-white/5 border-white/5 text-zinc-500 hover:text-white'}`}
@@ -851,10 +1192,30 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
               </button>
               <button 
                 onClick={handleDownload} 
-                className={`p-2.5 rounded-xl border transition-all ${isDownloaded ? 'bg-green-500 border-green-400 text-black' : 'bg-white/5 border-white/5 text-zinc-500 hover:text-white'}`}
+                title={isSavingOffline ? t('offline.saving', { percent: String(Math.round(offlineJob.completed / offlineJob.parts.length * 100)) }) : undefined}
+                className={`p-2.5 rounded-xl border transition-all ${isFullyOffline(result) ? 'bg-green-500 border-green-400 text-black' : result.isDownloaded ? 'bg-amber-500/20 border-amber-500/30 text-amber-500' : 'bg-white/5 border-white/5 text-zinc-500 hover:text-white'}`}
               >
-                <Download size={18} />
+                {isSavingOffline ? <RefreshCcw size={18} className="animate-spin" /> : <Download size={18} />}
               </button>
+              <div className="relative">
+                <button 
+                  onClick={() => setShowAudioMenu(!showAudioMenu)} 
+                  disabled={isExportingAudio || (!hasNarration && !activeVariant)}
+                  title={t('export.audio')}
+                  className="p-2.5 rounded-xl border bg-white/5 border-white/5 text-zinc-500 hover:text-white transition-all disabled:opacity-50"
+                >
+                  {isExportingAudio ? <RefreshCcw size={18} className="animate-spin" /> : <FileAudio size={18} />}
+                </button>
+                {showAudioMenu && (
+                  <div className="absolute top-full right-0 mt-2 bg-zinc-900 border border-white/10 p-2 rounded-2xl flex flex-col gap-1 shadow-2xl animate-in fade-in slide-in-from-top-2 z-50 min-w-[160px]">
+                    {AUDIO_FORMATS.map(format => (
+                      <button key={format} onClick={() => handleDownloadAudio(format)} className="px-4 py-2 text-left hover:bg-white/5 rounded-xl text-sm text-zinc-300">
+                        {t(format === 'mp3' ? 'export.mp3' : 'export.wav')}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
               <div className="flex gap-1 p-1 bg-white/5 rounded-xl border border-white/5">
                 {(['small', 'medium', 'large'] as FontSize[]).map(size => (
                   <button key={size} onClick={() => setFontSize(size)} className={`p-2 rounded-lg transition-all ${fontSize === size ? 'bg-amber-500 text-black shadow-lg shadow-amber-500/20' : 'text-zinc-500 hover:text-white'}`}>
@@ -865,13 +1226,45 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
             </div>
           </div>
 
+          {transcript.length > 0 && (
+            <section className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="flex items-center gap-2 text-[10px] font-black text-zinc-600 uppercase tracking-[0.2em]"><MessageSquare size={12} /> {t('tour.transcript')}</h3>
+                <span className="text-[9px] font-bold text-zinc-700 uppercase tracking-widest">{t('tour.transcriptHint')}</span>
+              </div>
+              <div ref={transcriptRef} className="relative max-h-56 overflow-y-auto custom-scrollbar p-5 rounded-2xl bg-white/[0.02] border border-white/5 leading-relaxed">
+                {transcript.map((sentence, idx) => (
+                  <span
+                    key={idx}
+                    ref={el => { sentenceRefs.current[idx] = el; }}
+                    onClick={() => seekToSentence(idx)}
+                    aria-current={idx === activeSentence ? 'true' : undefined}
+                    className={`${getFontSizeClass()} cursor-pointer rounded px-0.5 transition-colors duration-300 ${idx === activeSentence ? 'bg-amber-500/20 text-amber-300' : idx < activeSentence ? 'text-zinc-500 hover:text-zinc-300' : 'text-zinc-300 hover:text-white'}`}
+                  >
+                    {sentence.text}{' '}
+                  </span>
+                ))}
+              </div>
+            </section>
+          )}
+
           <div className="space-y-5">
             {sections.map((section, idx) => (
               <article key={idx} ref={el => { sectionRefs.current[idx] = el; }} className={`border border-white/5 rounded-2xl overflow-hidden transition-all duration-700 ${expandedSections[idx] ? 'bg-white/[0.04] ring-1 ring-amber-500/30' : 'bg-white/[0.02]'}`}>
-                <button onClick={() => toggleSection(idx)} className="w-full flex items-center justify-between p-5 text-left hover:bg-white/5 transition-colors focus:outline-none focus:bg-white/5">
-                  <span className="font-bold text-zinc-100 tracking-tight">{section.title}</span>
-                  {expandedSections[idx] ? <ChevronUp size={20} className="text-amber-500" /> : <ChevronDown size={20} className="text-zinc-600" />}
-                </button>
+                <div className="flex items-center">
+                  <button onClick={() => toggleSection(idx)} className="flex-1 flex items-center justify-between p-5 text-left hover:bg-white/5 transition-colors focus:outline-none focus:bg-white/5">
+                    <span className="font-bold text-zinc-100 tracking-tight">{section.title}</span>
+                    {expandedSections[idx] ? <ChevronUp size={20} className="text-amber-500" /> : <ChevronDown size={20} className="text-zinc-600" />}
+                  </button>
+                  <button
+                    onClick={() => toggleChapter(idx)}
+                    disabled={!canLoadChapter(idx)}
+                    title={t('tour.playSection')}
+                    className={`p-2.5 mx-3 rounded-xl transition-all disabled:opacity-30 ${isChapterMode && activeChapter === idx ? 'text-amber-500 bg-amber-500/10' : 'text-zinc-500 hover:text-white hover:bg-white/5'}`}
+                  >
+                    {loadingChapter === idx ? <RefreshCcw className="animate-spin" size={16} /> : isChapterMode && activeChapter === idx && isPlaying ? <Pause size={16} fill="currentColor" /> : <Play size={16} fill="currentColor" />}
+                  </button>
+                </div>
                 {expandedSections[idx] && (
                   <div className="px-5 pb-5 pt-0">
                     <div className={`${getFontSizeClass()} text-zinc-300 leading-relaxed whitespace-pre-wrap font-light`}>{section.content}</div>
@@ -883,7 +1276,7 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
 
           {result.sources && result.sources.length > 0 && (
             <div className="space-y-5 pt-6">
-               <h3 className="text-[10px] font-black text-zinc-600 uppercase tracking-[0.2em]">Verified Sources</h3>
+               <h3 className="text-[10px] font-black text-zinc-600 uppercase tracking-[0.2em]">{t('tour.sources')}</h3>
                <div className="flex flex-wrap gap-2.5">
                  {result.sources.map((source, i) => (
                    <a key={i} href={source.uri} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-2.5 px-4 py-2 rounded-full bg-zinc-900 border border-white/5 text-[11px] text-zinc-300 hover:text-amber-500 hover:border-amber-500/40 transition-all focus:outline-none focus:ring-1 focus:ring-amber-500 shadow-sm">
@@ -897,14 +1290,14 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
 
           {result.relatedLandmarks && result.relatedLandmarks.length > 0 && (
             <div className="space-y-8 pt-10 border-t border-white/5">
-              <h3 className="text-[11px] font-black text-zinc-600 uppercase tracking-[0.2em]">Discover Related Sites</h3>
+              <h3 className="text-[11px] font-black text-zinc-600 uppercase tracking-[0.2em]">{t('tour.related')}</h3>
               <div className="grid gap-5">
                 {result.relatedLandmarks.map((rel, i) => (
                   <div key={i} className="p-6 rounded-2xl bg-amber-500/5 border border-amber-500/10 group/rel hover:bg-amber-500/10 transition-all">
                     <h4 className="font-black text-zinc-100 mb-2 group-hover/rel:text-amber-500 transition-colors uppercase tracking-tight">{rel.name}</h4>
                     <p className="text-xs text-zinc-400 italic mb-5 leading-relaxed">"{rel.reason}"</p>
                     <button onClick={() => onExploreRelated?.(rel.name)} className="flex items-center gap-2.5 text-[10px] font-black uppercase tracking-[0.2em] text-amber-500 hover:text-amber-400 transition-colors focus:outline-none">
-                      <Compass size={14} /> Explore Site <ArrowRight size={14} />
+                      <Compass size={14} /> {t('tour.explore')} <ArrowRight size={14} />
                     </button>
                   </div>
                 ))}
@@ -914,11 +1307,63 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
         </div>
 
         <div className="sticky bottom-0 left-0 right-0 p-8 bg-zinc-900/98 backdrop-blur-3xl border-t border-white/10 space-y-5 z-40 shadow-[0_-20px_60px_rgba(0,0,0,0.9)]">
+          {showStudio && (
+            <div className="space-y-4 pb-5 border-b border-white/5 animate-in slide-in-from-bottom-2 duration-300">
+              <div className="flex flex-wrap gap-2">
+                {hasNarration && (
+                  <button onClick={() => selectVariant(null)} className={`px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${activeVariantId === null && !isChapterMode ? 'bg-amber-500 border-amber-400 text-black' : 'bg-white/5 border-white/10 text-zinc-400 hover:text-white'}`}>
+                    {t('studio.original')}
+                  </button>
+                )}
+                {variants.map(variant => (
+                  <button key={variant.id} onClick={() => selectVariant(variant)} className={`px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${activeVariantId === variant.id ? 'bg-amber-500 border-amber-400 text-black' : 'bg-white/5 border-white/10 text-zinc-400 hover:text-white'}`}>
+                    {variant.voice} · {t(`persona.${variant.persona}`)} · {t(`length.${variant.length}`)}
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-[auto_1fr] items-center gap-x-4 gap-y-3 text-[10px] font-black text-zinc-500 uppercase tracking-[0.2em]">
+                <span>{t('studio.voice')}</span>
+                <select
+                  value={studioVoice}
+                  onChange={(e) => setStudioVoice(e.target.value)}
+                  className="bg-white/5 border border-white/10 rounded-lg py-1.5 px-3 text-xs normal-case tracking-normal font-medium text-zinc-200 focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+                >
+                  {PREBUILT_VOICES.map(voice => (
+                    <option key={voice.name} value={voice.name} className="bg-zinc-900">{voice.name} · {voice.style}</option>
+                  ))}
+                </select>
+                <span>{t('studio.persona')}</span>
+                <div className="flex flex-wrap gap-2">
+                  {NARRATION_PERSONAS.map(persona => (
+                    <button key={persona} onClick={() => setStudioPersona(persona)} className={`px-2 py-0.5 rounded-md transition-all ${studioPersona === persona ? 'bg-amber-500 text-black' : 'text-zinc-600 hover:text-white'}`}>
+                      {t(`persona.${persona}`)}
+                    </button>
+                  ))}
+                </div>
+                <span>{t('studio.length')}</span>
+                <div className="flex flex-wrap gap-2">
+                  {NARRATION_LENGTHS.map(length => (
+                    <button key={length} onClick={() => setStudioLength(length)} className={`px-2 py-0.5 rounded-md transition-all ${studioLength === length ? 'bg-amber-500 text-black' : 'text-zinc-600 hover:text-white'}`}>
+                      {t(`length.${length}`)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <button
+                onClick={handleGenerateVariant}
+                disabled={isGeneratingVariant || (!studioVariant && !navigator.onLine && providerRequiresNetwork)}
+                className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-amber-500/10 border border-amber-500/30 text-[10px] font-black uppercase tracking-widest text-amber-500 hover:bg-amber-500 hover:text-black transition-all disabled:opacity-50"
+              >
+                {isGeneratingVariant ? <RefreshCcw className="animate-spin" size={14} /> : <Sparkles size={14} />}
+                {isGeneratingVariant ? t('studio.generating') : studioVariant ? t('studio.play') : t('studio.generate')}
+              </button>
+            </div>
+          )}
           <div className="space-y-4">
             <div className="flex justify-between items-center text-[10px] font-black text-zinc-500 uppercase tracking-[0.2em]">
               <div className="flex items-center gap-4">
                 <span className="flex items-center gap-2 text-amber-500">
-                  <Gauge size={14} /> Playback Rate:
+                  <Gauge size={14} /> {t('tour.playbackRate')}
                 </span>
                 <div className="flex gap-2.5">
                   {[0.5, 1, 1.5, 2].map(speed => (
@@ -929,12 +1374,17 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
                 </div>
               </div>
               <div className="flex gap-2 font-mono tabular-nums bg-black/40 px-3 py-1 rounded-lg border border-white/5">
-                <span className="text-zinc-200">{formatTime(currentTime)}</span>
+                <span className="text-zinc-200">{formatTime(timelineTime)}</span>
                 <span className="opacity-20">/</span>
-                <span className="text-zinc-500">{formatTime(duration)}</span>
+                <span className="text-zinc-500">{formatTime(timelineDuration)}</span>
               </div>
             </div>
-            <input type="range" min="0" max={duration || 100} step="0.1" value={currentTime} onChange={handleSeek} className="w-full h-2 cursor-pointer accent-amber-500" />
+            <div className="relative">
+              <input type="range" min="0" max={timelineDuration || 100} step="0.1" value={timelineTime} onChange={handleSeek} className="w-full h-2 cursor-pointer accent-amber-500" />
+              {isChapterMode && timelineDuration > 0 && chapterStarts.slice(1, sections.length).map((start, i) => (
+                <span key={i} className="absolute top-1/2 -translate-y-1/2 w-0.5 h-3 rounded-full bg-white/60 pointer-events-none" style={{ left: `${(start / timelineDuration) * 100}%` }} />
+              ))}
+            </div>
           </div>
 
           <div className="flex items-center justify-between">
@@ -943,19 +1393,22 @@ export const NarratedExperience: React.FC<NarratedExperienceProps> = ({ result,
                  <button onClick={() => skip(-10)} className="p-2.5 text-zinc-500 hover:text-white hover:bg-white/5 rounded-full transition-colors"><SkipBack size={20} /></button>
                  <button 
                    onClick={togglePlayback} 
-                   disabled={isLoadingAudio && !result.audioBase64} 
-                   className={`w-16 h-16 rounded-full flex items-center justify-center transition-all transform active:scale-90 focus:outline-none focus:ring-4 focus:ring-amber-500/40 ${isLoadingAudio && !result.audioBase64 ? 'bg-zinc-800' : 'bg-amber-500 hover:bg-amber-400 shadow-[0_10px_30px_rgba(245,158,11,0.3)]'} text-black`}
+                   disabled={isLoadingAudio && !hasNarration} 
+                   className={`w-16 h-16 rounded-full flex items-center justify-center transition-all transform active:scale-90 focus:outline-none focus:ring-4 focus:ring-amber-500/40 ${isLoadingAudio && !hasNarration ? 'bg-zinc-800' : 'bg-amber-500 hover:bg-amber-400 shadow-[0_10px_30px_rgba(245,158,11,0.3)]'} text-black`}
                  >
-                   {isLoadingAudio && !result.audioBase64 ? <RefreshCcw className="animate-spin" size={24} /> : isPlaying ? <Pause fill="currentColor" size={24} /> : <Play fill="currentColor" size={24} className="ml-1" />}
+                   {isLoadingAudio && !hasNarration ? <RefreshCcw className="animate-spin" size={24} /> : isPlaying ? <Pause fill="currentColor" size={24} /> : <Play fill="currentColor" size={24} className="ml-1" />}
                  </button>
                  <button onClick={() => skip(10)} className="p-2.5 text-zinc-500 hover:text-white hover:bg-white/5 rounded-full transition-colors"><SkipForward size={20} /></button>
               </div>
               <div className="hidden sm:block">
-                <p className="text-xs font-black text-amber-500 uppercase tracking-[0.2em] mb-0.5">Neural Narrator</p>
-                <p className="text-[11px] text-zinc-400 font-medium tracking-tight">{isPlaying ? 'Immersion Active' : 'Waiting for Input'}</p>
+                <p className="text-xs font-black text-amber-500 uppercase tracking-[0.2em] mb-0.5">{t('tour.narrator')}</p>
+                <p className="text-[11px] text-zinc-400 font-medium tracking-tight">{isChapterMode && sections[activeChapter]
+                  ? loadingChapter !== null ? t('tour.chapterLoading') : t('tour.chapter', { number: String(activeChapter + 1), title: sections[activeChapter].title })
+                  : isPlaying ? t('tour.playing') : t('tour.idle')}</p>
               </div>
             </div>
             <div className="flex items-center gap-1.5 bg-black/50 p-2 rounded-2xl border border-white/5 shadow-inner">
+              <button onClick={() => setShowStudio(!showStudio)} title={t('studio.title')} className={`p-2.5 rounded-xl transition-all ${showStudio ? 'text-amber-500 bg-amber-500/10' : 'text-zinc-600 hover:text-zinc-300 hover:bg-white/5'}`}><SlidersHorizontal size={18} /></button>
               <button onClick={() => handleFeedback('up')} className={`p-2.5 rounded-xl transition-all ${feedback === 'up' ? 'text-green-500 bg-green-500/10 shadow-inner shadow-green-500/20' : 'text-zinc-600 hover:text-zinc-300 hover:bg-white/5'}`}><ThumbsUp size={18} /></button>
               <button onClick={() => handleFeedback('down')} className={`p-2.5 rounded-xl transition-all ${feedback === 'down' ? 'text-red-500 bg-red-500/10 shadow-inner shadow-red-500/20' : 'text-zinc-600 hover:text-zinc-300 hover:bg-white/5'}`}><ThumbsDown size={18} /></button>
             </div>
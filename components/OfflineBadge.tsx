@@ -0,0 +1,53 @@
+
+import React from 'react';
+import { AlertCircle, Download, Loader2 } from 'lucide-react';
+import { LandmarkResult, OfflinePart } from '../types';
+import { useTranslation } from '../services/i18n';
+import { isFullyOffline, useOfflineJobs } from '../services/offlineDownload';
+import { TranslationKey } from '../services/translations';
+
+export const OFFLINE_PART_LABELS: Record<OfflinePart, TranslationKey> = {
+  narration: 'offline.part.narration',
+  cinematic: 'offline.part.cinematic',
+  abstract: 'offline.part.abstract',
+  related: 'offline.part.related',
+  map: 'offline.part.map',
+};
+
+interface OfflineBadgeProps {
+  result: LandmarkResult;
+}
+
+/**
+ * Journal card badge: download progress, then whether the tour is fully offline.
+ */
+export const OfflineBadge: React.FC<OfflineBadgeProps> = ({ result }) => {
+  const job = useOfflineJobs()[result.id];
+  const { t } = useTranslation();
+
+  if (job?.status === 'running') {
+    return (
+      <div className="p-1 px-2 bg-amber-500/20 backdrop-blur-md rounded-full text-[8px] font-black uppercase text-amber-500 border border-amber-500/30 flex items-center gap-1">
+        <Loader2 size={10} className="animate-spin" /> {t('card.savingOffline', { percent: String(Math.round(job.completed / job.parts.length * 100)) })}
+      </div>
+    );
+  }
+  if (!result.isDownloaded) return null;
+  if (isFullyOffline(result)) {
+    return (
+      <div className="p-1 px-2 bg-green-500/20 backdrop-blur-md rounded-full text-[8px] font-black uppercase text-green-500 border border-green-500/30 flex items-center gap-1">
+        <Download size={10} /> {t('card.savedOffline')}
+      </div>
+    );
+  }
+  // Downloaded before parts were tracked, or some parts failed
+  const missing = result.offline?.missing.map(part => t(OFFLINE_PART_LABELS[part])).join(', ');
+  return (
+    <div
+      title={missing ? t('offline.missing', { missing }) : undefined}
+      className="p-1 px-2 bg-amber-500/20 backdrop-blur-md rounded-full text-[8px] font-black uppercase text-amber-500 border border-amber-500/30 flex items-center gap-1"
+    >
+      <AlertCircle size={10} /> {t('card.partlyOffline')}
+    </div>
+  );
+};
@@ -0,0 +1,282 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Settings, Database, Trash2, X, Languages, Mic, Archive, Download, Upload, Loader2, Image as ImageIcon, Map as MapIcon } from 'lucide-react';
+import { AppSettings } from '../types';
+import { getSettings, subscribeSettings, updateSettings } from '../services/settings';
+import { clearContentCache } from '../services/cache';
+import { downloadBackup, restoreBackup, RestoreMode } from '../services/backup';
+import { LANGUAGES, useTranslation } from '../services/i18n';
+import { clearMapTiles, getTileUsage, TileUsage } from '../services/mapTiles';
+import { TranslationKey } from '../services/translations';
+import { PREBUILT_VOICES } from '../services/voices';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+const TTL_OPTIONS: { label: TranslationKey; days: number }[] = [
+  { label: 'settings.ttlDay', days: 1 },
+  { label: 'settings.ttlWeek', days: 7 },
+  { label: 'settings.ttlMonth', days: 30 },
+  { label: 'settings.ttlForever', days: 0 },
+];
+
+const IMAGE_SIZE_OPTIONS = [1024, 1600, 2048];
+
+const TILE_RADIUS_OPTIONS = [1, 2, 5];
+const TILE_ZOOM_OPTIONS = [8, 10, 12, 14, 16, 17];
+const TILE_BUDGET_OPTIONS = [25, 50, 100, 250];
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose, onRestored }) => {
+  const [settings, setSettings] = useState<AppSettings>(getSettings);
+  const [isClearing, setIsClearing] = useState(false);
+  const [tileUsage, setTileUsage] = useState<TileUsage | null>(null);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const restoreModeRef = useRef<RestoreMode>('merge');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { t } = useTranslation();
+
+  useEffect(() => subscribeSettings(setSettings), []);
+
+  useEffect(() => {
+    getTileUsage().then(setTileUsage).catch(err => console.error("Failed to read map cache size", err));
+  }, []);
+
+  const handleClearCache = async () => {
+    setIsClearing(true);
+    try {
+      await clearContentCache();
+      alert(t('settings.cacheCleared'));
+    } catch (err) {
+      console.error("Failed to clear cache", err);
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  const handleClearTiles = async () => {
+    setIsClearing(true);
+    try {
+      await clearMapTiles();
+      setTileUsage({ tiles: 0, bytes: 0 });
+      alert(t('settings.mapCacheCleared'));
+    } catch (err) {
+      console.error("Failed to clear map cache", err);
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  const handleBackup = async () => {
+    setIsBackingUp(true);
+    try {
+      await downloadBackup();
+    } catch (err) {
+      console.error("Backup failed", err);
+      alert(t('backup.failed'));
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const chooseRestoreFile = (mode: RestoreMode) => {
+    if (mode === 'replace' && !confirm(t('backup.replaceConfirm'))) return;
+    restoreModeRef.current = mode;
+    fileInputRef.current?.click();
+  };
+
+  const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsBackingUp(true);
+    try {
+      const { added, updated, kept } = await restoreBackup(file, restoreModeRef.current);
+      onRestored();
+      alert(t('backup.restored', { added: String(added), updated: String(updated), kept: String(kept) }));
+    } catch (err) {
+      console.error("Restore failed", err);
+      alert(t('backup.restoreFailed'));
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-md flex items-center justify-center p-6 animate-in fade-in duration-300" onClick={onClose}>
+      <div className="w-full max-w-md bg-zinc-950 border border-white/10 rounded-[2rem] p-8 space-y-8 shadow-2xl max-h-[90vh] overflow-y-auto custom-scrollbar" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-3 text-[11px] font-black text-amber-500 uppercase tracking-[0.3em]">
+            <Settings size={16} /> {t('settings.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-xl bg-white/5 hover:bg-white/10 transition-colors"><X size={18} /></button>
+        </div>
+
+        <section className="space-y-4">
+          <div>
+            <h3 className="flex items-center gap-2 text-sm font-bold"><Languages size={14} className="text-amber-500" /> {t('settings.language')}</h3>
+            <p className="text-xs text-zinc-500 mt-1">{t('settings.languageHint')}</p>
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            {LANGUAGES.map(lang => (
+              <button
+                key={lang.code}
+                onClick={() => updateSettings({ language: lang.code })}
+                className={`py-2 rounded-xl text-[11px] font-bold border transition-all ${settings.language === lang.code ? 'bg-amber-500 border-amber-400 text-black' : 'bg-white/5 border-white/10 text-zinc-400 hover:text-white'}`}
+              >
+                {lang.label}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <section className="space-y-4">
+          <h3 className="flex items-center gap-2 text-sm font-bold"><Mic size={14} className="text-amber-500" /> {t('settings.voice')}</h3>
+          <select
+            value={settings.narrationVoice}
+            onChange={(e) => updateSettings({ narrationVoice: e.target.value })}
+            className="w-full bg-white/5 border border-white/10 rounded-xl py-2.5 px-4 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+          >
+            {PREBUILT_VOICES.map(voice => (
+              <option key={voice.name} value={voice.name} className="bg-zinc-900">{voice.name} · {voice.style}</option>
+            ))}
+          </select>
+        </section>
+
+        <section className="space-y-4">
+          <div>
+            <h3 className="flex items-center gap-2 text-sm font-bold"><ImageIcon size={14} className="text-amber-500" /> {t('settings.photos')}</h3>
+            <p className="text-xs text-zinc-500 mt-1">{t('settings.photosHint')}</p>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {IMAGE_SIZE_OPTIONS.map(size => (
+              <button
+                key={size}
+                onClick={() => updateSettings({ imageMaxDimension: size })}
+                className={`py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${settings.imageMaxDimension === size ? 'bg-amber-500 border-amber-400 text-black' : 'bg-white/5 border-white/10 text-zinc-400 hover:text-white'}`}
+              >
+                {size} px
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center justify-between gap-4 text-xs text-zinc-400 cursor-pointer">
+            <span>{t('settings.keepOriginals')}</span>
+            <input
+              type="checkbox"
+              checked={settings.keepOriginalPhotos}
+              onChange={(e) => updateSettings({ keepOriginalPhotos: e.target.checked })}
+              className="w-4 h-4 accent-amber-500"
+            />
+          </label>
+        </section>
+
+        <section className="space-y-4">
+          <div>
+            <h3 className="flex items-center gap-2 text-sm font-bold"><Database size={14} className="text-amber-500" /> {t('settings.cache')}</h3>
+            <p className="text-xs text-zinc-500 mt-1">{t('settings.cacheHint')}</p>
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            {TTL_OPTIONS.map(option => (
+              <button
+                key={option.days}
+                onClick={() => updateSettings({ cacheTtlDays: option.days })}
+                className={`py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${settings.cacheTtlDays === option.days ? 'bg-amber-500 border-amber-400 text-black' : 'bg-white/5 border-white/10 text-zinc-400 hover:text-white'}`}
+              >
+                {t(option.label)}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleClearCache}
+            disabled={isClearing}
+            className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-widest text-zinc-300 hover:bg-red-500/10 hover:text-red-400 hover:border-red-500/30 transition-all disabled:opacity-50"
+          >
+            <Trash2 size={14} /> {t('settings.clearCache')}
+          </button>
+        </section>
+
+        <section className="space-y-4">
+          <div>
+            <h3 className="flex items-center gap-2 text-sm font-bold"><MapIcon size={14} className="text-amber-500" /> {t('settings.mapCache')}</h3>
+            <p className="text-xs text-zinc-500 mt-1">{t('settings.mapCacheHint')}</p>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {TILE_RADIUS_OPTIONS.map(km => (
+              <button
+                key={km}
+                onClick={() => updateSettings({ mapTileRadiusKm: km })}
+                className={`py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${settings.mapTileRadiusKm === km ? 'bg-amber-500 border-amber-400 text-black' : 'bg-white/5 border-white/10 text-zinc-400 hover:text-white'}`}
+              >
+                {km} km
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-[10px] font-black uppercase tracking-widest text-zinc-500">
+            <label className="space-y-1">
+              <span>{t('settings.mapZoomFrom')}</span>
+              <select value={settings.mapTileMinZoom} onChange={(e) => updateSettings({ mapTileMinZoom: Number(e.target.value) })} className="w-full bg-white/5 border border-white/10 rounded-xl py-2 px-3 text-sm text-zinc-200 normal-case tracking-normal font-medium focus:outline-none focus:ring-2 focus:ring-amber-500/50">
+                {TILE_ZOOM_OPTIONS.filter(zoom => zoom <= settings.mapTileMaxZoom).map(zoom => <option key={zoom} value={zoom} className="bg-zinc-900">{zoom}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span>{t('settings.mapZoomTo')}</span>
+              <select value={settings.mapTileMaxZoom} onChange={(e) => updateSettings({ mapTileMaxZoom: Number(e.target.value) })} className="w-full bg-white/5 border border-white/10 rounded-xl py-2 px-3 text-sm text-zinc-200 normal-case tracking-normal font-medium focus:outline-none focus:ring-2 focus:ring-amber-500/50">
+                {TILE_ZOOM_OPTIONS.filter(zoom => zoom >= settings.mapTileMinZoom).map(zoom => <option key={zoom} value={zoom} className="bg-zinc-900">{zoom}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span>{t('settings.mapBudget')}</span>
+              <select value={settings.mapTileBudgetMb} onChange={(e) => updateSettings({ mapTileBudgetMb: Number(e.target.value) })} className="w-full bg-white/5 border border-white/10 rounded-xl py-2 px-3 text-sm text-zinc-200 normal-case tracking-normal font-medium focus:outline-none focus:ring-2 focus:ring-amber-500/50">
+                {TILE_BUDGET_OPTIONS.map(mb => <option key={mb} value={mb} className="bg-zinc-900">{mb} MB</option>)}
+              </select>
+            </label>
+          </div>
+          {tileUsage && (
+            <p className="text-xs text-zinc-500">
+              {t('settings.mapUsage', { tiles: String(tileUsage.tiles), size: (tileUsage.bytes / (1024 * 1024)).toFixed(1), budget: String(settings.mapTileBudgetMb) })}
+            </p>
+          )}
+          <button
+            onClick={handleClearTiles}
+            disabled={isClearing}
+            className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-widest text-zinc-300 hover:bg-red-500/10 hover:text-red-400 hover:border-red-500/30 transition-all disabled:opacity-50"
+          >
+            <Trash2 size={14} /> {t('settings.clearMapCache')}
+          </button>
+        </section>
+
+        <section className="space-y-4">
+          <div>
+            <h3 className="flex items-center gap-2 text-sm font-bold"><Archive size={14} className="text-amber-500" /> {t('backup.title')}</h3>
+            <p className="text-xs text-zinc-500 mt-1">{t('backup.hint')}</p>
+          </div>
+          <button
+            onClick={handleBackup}
+            disabled={isBackingUp}
+            className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-amber-500/10 border border-amber-500/30 text-[10px] font-black uppercase tracking-widest text-amber-500 hover:bg-amber-500 hover:text-black transition-all disabled:opacity-50"
+          >
+            {isBackingUp ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />} {t('backup.export')}
+          </button>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => chooseRestoreFile('merge')}
+              disabled={isBackingUp}
+              className="flex items-center justify-center gap-2 py-3 rounded-xl bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-widest text-zinc-300 hover:bg-white/10 transition-all disabled:opacity-50"
+            >
+              <Upload size={14} /> {t('backup.merge')}
+            </button>
+            <button
+              onClick={() => chooseRestoreFile('replace')}
+              disabled={isBackingUp}
+              className="flex items-center justify-center gap-2 py-3 rounded-xl bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-widest text-zinc-300 hover:bg-red-500/10 hover:text-red-400 hover:border-red-500/30 transition-all disabled:opacity-50"
+            >
+              <Upload size={14} /> {t('backup.replace')}
+            </button>
+          </div>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleRestore} className="hidden" />
+        </section>
+      </div>
+    </div>
+  );
+};
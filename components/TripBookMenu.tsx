@@ -0,0 +1,124 @@
+
+import React, { useMemo, useState } from 'react';
+import { BookOpen, Loader2, Printer, FileDown, FileCode } from 'lucide-react';
+import { LandmarkResult } from '../types';
+import { filterJournal, GeoExportScope } from '../services/geoFormats';
+import { useTranslation } from '../services/i18n';
+import { detectTrips, downloadTripBookHtml, downloadTripBookPdf, printTripBook, TripBookOptions } from '../services/tripBook';
+
+interface TripBookMenuProps {
+  results: LandmarkResult[];
+}
+
+type BookOutput = 'print' | 'pdf' | 'html';
+
+export const TripBookMenu: React.FC<TripBookMenuProps> = ({ results }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [busy, setBusy] = useState<BookOutput | null>(null);
+  const [scope, setScope] = useState<GeoExportScope>({});
+  const [title, setTitle] = useState('');
+  const { t, language } = useTranslation();
+  const trips = useMemo(() => detectTrips(results), [results]);
+  const selectedTrip = trips.findIndex(trip => trip.from === scope.from && trip.to === scope.to);
+
+  const handleOutput = async (output: BookOutput) => {
+    const selection = filterJournal(results, scope).filter(r => !r.isPlanned);
+    if (!selection.length) {
+      alert(t('book.empty'));
+      return;
+    }
+    const options: TripBookOptions = { title: title.trim() || t('book.defaultTitle'), language };
+    // Opened inside the click so popup blockers allow it
+    const printWindow = output === 'print' ? window.open('', '_blank') : null;
+    setBusy(output);
+    try {
+      if (output === 'print') {
+        if (!printWindow) throw new Error("Print window was blocked");
+        await printTripBook(printWindow, selection, options);
+      } else if (output === 'pdf') {
+        await downloadTripBookPdf(selection, options);
+      } else {
+        await downloadTripBookHtml(selection, options);
+      }
+      setIsOpen(false);
+    } catch (err) {
+      console.error("Trip book failed", err);
+      printWindow?.close();
+      alert(t('book.failed'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const chipClass = (active: boolean) => `flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${active ? 'bg-amber-500 border-amber-400 text-black' : 'bg-white/5 border-white/10 text-zinc-400 hover:text-white'}`;
+  const outputClass = "flex items-center justify-center gap-1.5 py-2.5 rounded-xl bg-amber-500/10 border border-amber-500/30 text-[10px] font-black uppercase tracking-widest text-amber-500 hover:bg-amber-500 hover:text-black transition-all disabled:opacity-50";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-4 py-3 rounded-xl bg-white/5 hover:bg-white/10 text-[10px] font-black uppercase tracking-widest text-zinc-300 transition-colors"
+      >
+        {busy ? <Loader2 size={16} className="animate-spin" /> : <BookOpen size={16} />} {t('book.menu')}
+      </button>
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-80 bg-zinc-900 border border-white/10 p-4 rounded-2xl space-y-4 shadow-2xl animate-in fade-in slide-in-from-top-2 z-50">
+          <label className="block space-y-1 text-[10px] font-black uppercase tracking-widest text-zinc-500">
+            <span>{t('book.titleLabel')}</span>
+            <input
+              type="text"
+              value={title}
+              placeholder={t('book.defaultTitle')}
+              onChange={(e) => setTitle(e.target.value)}
+              className="w-full bg-white/5 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-zinc-200 normal-case tracking-normal font-medium"
+            />
+          </label>
+          <div className="flex gap-2">
+            <button onClick={() => setScope({ ...scope, bookmarkedOnly: false })} className={chipClass(!scope.bookmarkedOnly)}>{t('geo.all')}</button>
+            <button onClick={() => setScope({ ...scope, bookmarkedOnly: true })} className={chipClass(!!scope.bookmarkedOnly)}>{t('geo.bookmarks')}</button>
+          </div>
+          {trips.length > 0 && (
+            <label className="block space-y-1 text-[10px] font-black uppercase tracking-widest text-zinc-500">
+              <span>{t('book.trip')}</span>
+              <select
+                value={selectedTrip}
+                onChange={(e) => {
+                  const trip = trips[Number(e.target.value)];
+                  setScope({ ...scope, from: trip?.from, to: trip?.to });
+                }}
+                className="w-full bg-white/5 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-zinc-200 normal-case tracking-normal font-medium [color-scheme:dark]"
+              >
+                <option value={-1}>{t('book.allDates')}</option>
+                {trips.map((trip, i) => (
+                  <option key={trip.from} value={i}>{t('book.tripOption', { from: trip.from, to: trip.to, count: String(trip.count) })}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <div className="grid grid-cols-2 gap-2 text-[10px] font-black uppercase tracking-widest text-zinc-500">
+            <label className="space-y-1">
+              <span>{t('geo.from')}</span>
+              <input type="date" value={scope.from || ''} onChange={(e) => setScope({ ...scope, from: e.target.value || undefined })} className="w-full bg-white/5 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-zinc-200 normal-case tracking-normal font-medium [color-scheme:dark]" />
+            </label>
+            <label className="space-y-1">
+              <span>{t('geo.to')}</span>
+              <input type="date" value={scope.to || ''} onChange={(e) => setScope({ ...scope, to: e.target.value || undefined })} className="w-full bg-white/5 border border-white/10 rounded-lg py-1.5 px-2 text-xs text-zinc-200 normal-case tracking-normal font-medium [color-scheme:dark]" />
+            </label>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <button onClick={() => handleOutput('print')} disabled={!!busy} className={outputClass}>
+              {busy === 'print' ? <Loader2 size={12} className="animate-spin" /> : <Printer size={12} />} {t('book.print')}
+            </button>
+            <button onClick={() => handleOutput('pdf')} disabled={!!busy} className={outputClass}>
+              {busy === 'pdf' ? <Loader2 size={12} className="animate-spin" /> : <FileDown size={12} />} PDF
+            </button>
+            <button onClick={() => handleOutput('html')} disabled={!!busy} className={outputClass}>
+              {busy === 'html' ? <Loader2 size={12} className="animate-spin" /> : <FileCode size={12} />} HTML
+            </button>
+          </div>
+          <p className="text-[11px] leading-snug text-zinc-500">{t('book.pdfNote')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+
+import React from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { useTranslation } from '../services/i18n';
+import { applyUpdate, dismissUpdate, useUpdateAvailable } from '../services/pwa';
+
+export const UpdatePrompt: React.FC = () => {
+  const available = useUpdateAvailable();
+  const { t } = useTranslation();
+
+  if (!available) return null;
+
+  return (
+    <div className="fixed top-24 left-1/2 -translate-x-1/2 z-[70] flex items-center gap-3 pl-5 pr-2 py-2 bg-zinc-900/95 backdrop-blur-2xl border border-amber-500/30 rounded-2xl shadow-2xl animate-in fade-in slide-in-from-top-2">
+      <span className="text-sm text-zinc-200">{t('update.available')}</span>
+      <button
+        onClick={applyUpdate}
+        className="flex items-center gap-2 px-4 py-2 rounded-xl bg-amber-500 text-black text-[10px] font-black uppercase tracking-widest hover:bg-amber-400 transition-colors"
+      >
+        <RefreshCw size={12} /> {t('update.reload')}
+      </button>
+      <button onClick={dismissUpdate} title={t('update.later')} className="p-2 rounded-xl text-zinc-500 hover:text-white hover:bg-white/5 transition-colors"><X size={14} /></button>
+    </div>
+  );
+};
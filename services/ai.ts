@@ -0,0 +1,72 @@
+import { CaptureMetadata, ImageStyle, LandmarkAIProvider, LanguageCode, NarrationOptions } from "../types";
+import { withRetry } from "../utils/retry";
+import { geminiProvider } from "./gemini";
+import { mockProvider } from "./mock";
+
+const PROVIDERS: Record<string, LandmarkAIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+/**
+ * Pick the backend once at startup. A `?provider=` query parameter wins over the
+ * AI_PROVIDER build setting so automated tests can force the offline mock.
+ */
+function resolveProvider(): LandmarkAIProvider {
+  const fromQuery = typeof window !== 'undefined'
+    ? new URLSearchParams(window.location.search).get('provider')
+    : null;
+  // Vite defines an unset variable as the string "undefined"
+  const fromEnv = process.env.AI_PROVIDER === 'undefined' ? '' : process.env.AI_PROVIDER;
+  const requested = fromQuery || fromEnv || 'gemini';
+  const provider = PROVIDERS[requested];
+  if (!provider) {
+    console.warn(`Unknown AI provider "${requested}", falling back to gemini`);
+    return geminiProvider;
+  }
+  return provider;
+}
+
+const provider = resolveProvider();
+
+export const activeProviderName = provider.name;
+export const providerRequiresNetwork = provider.requiresNetwork;
+
+// Per-attempt limits; grounded search, image generation and TTS are the slow ones
+const TIMEOUTS_MS = {
+  identify: 45000,
+  search: 20000,
+  history: 60000,
+  related: 20000,
+  image: 90000,
+  script: 45000,
+  narration: 90000,
+};
+
+export function identifyLandmark(base64Image: string, language?: LanguageCode, capture?: CaptureMetadata, signal?: AbortSignal) {
+  return withRetry(s => provider.identifyLandmark(base64Image, language, capture, s), { signal, timeoutMs: TIMEOUTS_MS.identify });
+}
+
+export function searchLandmarkByName(name: string, language?: LanguageCode, signal?: AbortSignal) {
+  return withRetry(s => provider.searchLandmarkByName(name, language, s), { signal, timeoutMs: TIMEOUTS_MS.search });
+}
+
+export function getLandmarkHistory(landmarkName: string, language?: LanguageCode, signal?: AbortSignal) {
+  return withRetry(s => provider.getLandmarkHistory(landmarkName, language, s), { signal, timeoutMs: TIMEOUTS_MS.history });
+}
+
+export function getRelatedLandmarks(landmarkName: string, location: string, language?: LanguageCode, signal?: AbortSignal) {
+  return withRetry(s => provider.getRelatedLandmarks(landmarkName, location, language, s), { signal, timeoutMs: TIMEOUTS_MS.related });
+}
+
+export function generateLandmarkImage(landmarkName: string, style?: ImageStyle, signal?: AbortSignal) {
+  return withRetry(s => provider.generateLandmarkImage(landmarkName, style, s), { signal, timeoutMs: TIMEOUTS_MS.image });
+}
+
+export function generateNarrationScript(history: string, options?: NarrationOptions, signal?: AbortSignal) {
+  return withRetry(s => provider.generateNarrationScript(history, options, s), { signal, timeoutMs: TIMEOUTS_MS.script });
+}
+
+export function generateNarration(script: string, options?: NarrationOptions, signal?: AbortSignal) {
+  return withRetry(s => provider.generateNarration(script, options, s), { signal, timeoutMs: TIMEOUTS_MS.narration });
+}
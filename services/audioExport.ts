@@ -0,0 +1,69 @@
+import { LandmarkResult, NarrationVariant } from "../types";
+import { AudioMetadata, decodeBase64, pcmToMp3, pcmToWav } from "../utils/audio";
+import { downloadBlob, toFileName } from "../utils/download";
+import { createZip, ZipEntry } from "../utils/zip";
+import { getLanguage } from "./i18n";
+import { readAudio } from "./storage";
+
+export type AudioFormat = 'wav' | 'mp3';
+
+export const AUDIO_FORMATS: AudioFormat[] = ['wav', 'mp3'];
+
+export interface BatchExportSummary {
+  exported: number;
+  skipped: number; // Bookmarks whose narration was never generated
+}
+
+function isoDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+export function narrationMetadata(result: LandmarkResult): AudioMetadata {
+  return {
+    title: result.info.name,
+    date: isoDate(result.timestamp),
+    language: getLanguage(result.language).iso639,
+    comment: result.info.location,
+  };
+}
+
+function narrationFileName(result: LandmarkResult, format: AudioFormat): string {
+  return `${toFileName(result.info.name)}-${isoDate(result.timestamp)}-${result.language || 'en'}.${format}`;
+}
+
+async function encodeNarration(audioBase64: string, result: LandmarkResult, format: AudioFormat): Promise<Blob> {
+  const pcm = decodeBase64(audioBase64);
+  return format === 'mp3' ? pcmToMp3(pcm, narrationMetadata(result)) : pcmToWav(pcm, narrationMetadata(result));
+}
+
+/**
+ * Save one narration as a standalone audio file. Defaults to the entry's main
+ * narration; pass a studio variant to export that instead.
+ */
+export async function downloadNarration(result: LandmarkResult, format: AudioFormat, variant?: NarrationVariant): Promise<void> {
+  const audioBase64 = await readAudio(result, variant);
+  if (!audioBase64) throw new Error("This landmark has no narration yet");
+  downloadBlob(await encodeNarration(audioBase64, result, format), narrationFileName(result, format));
+}
+
+/**
+ * Bundle the narration of every bookmarked landmark into one zip.
+ */
+export async function downloadBookmarkedNarrations(results: LandmarkResult[], format: AudioFormat): Promise<BatchExportSummary> {
+  const bookmarked = results.filter(r => r.isBookmarked);
+  const entries: ZipEntry[] = [];
+  const usedNames = new Set<string>();
+
+  for (const result of bookmarked) {
+    const audioBase64 = await readAudio(result);
+    if (!audioBase64) continue;
+    let name = narrationFileName(result, format);
+    for (let n = 2; usedNames.has(name); n++) name = narrationFileName(result, format).replace(`.${format}`, `-${n}.${format}`);
+    usedNames.add(name);
+    const blob = await encodeNarration(audioBase64, result, format);
+    entries.push({ name, data: new Uint8Array(await blob.arrayBuffer()), modified: new Date(result.timestamp) });
+  }
+
+  if (entries.length) downloadBlob(createZip(entries), `luminatour-narrations-${isoDate(Date.now())}.zip`);
+  return { exported: entries.length, skipped: bookmarked.length - entries.length };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { fillFromBackup, upgradeBackup } from "./backup";
+import { LandmarkResult } from "../types";
+
+const FORMAT = "luminatour-backup";
+
+describe("upgradeBackup", () => {
+  it("rejects files that are not backups", () => {
+    expect(() => upgradeBackup(null)).toThrow("Not a LuminaTour backup");
+    expect(() => upgradeBackup({ results: [] })).toThrow("Not a LuminaTour backup");
+  });
+
+  it("rejects negative and fractional schema versions without crashing", () => {
+    expect(() => upgradeBackup({ format: FORMAT, schemaVersion: -1, results: [] })).toThrow("Not a LuminaTour backup");
+    expect(() => upgradeBackup({ format: FORMAT, schemaVersion: 0.5, results: [] })).toThrow("Not a LuminaTour backup");
+  });
+
+  it("rejects backups from a newer app", () => {
+    expect(() => upgradeBackup({ format: FORMAT, schemaVersion: 99, results: [] })).toThrow("newer");
+  });
+
+  it("names the first entry that is not a journal entry", () => {
+    const entry = { id: "a", timestamp: 1, history: "", imageUrl: "", info: { name: "Louvre" } };
+    const backup = { format: FORMAT, schemaVersion: 1, results: [entry, { id: "b" }] };
+    expect(() => upgradeBackup(backup)).toThrow("Backup entry 2 is not a journal entry");
+  });
+});
+
+describe("fillFromBackup", () => {
+  const entry = { id: "a", timestamp: 1, history: "", imageUrl: "", info: { name: "Louvre" } } as unknown as LandmarkResult;
+
+  it("keeps the device's own narration and reimaginings over the backup's", () => {
+    const local: LandmarkResult = { ...entry, storedNarration: true, storedAiImages: ["cinematic"] };
+    const incoming: LandmarkResult = { ...entry, audioBase64: "old", aiImages: { cinematic: "old", abstract: "extra" } };
+    const merged = fillFromBackup(local, incoming);
+
+    expect(merged.audioBase64).toBeUndefined();
+    expect(merged.aiImages).toEqual({ abstract: "extra" });
+    expect(merged.storedAiImages).toEqual(["cinematic"]);
+  });
+
+  it("takes the backup's narration when the device has none", () => {
+    expect(fillFromBackup(entry, { ...entry, audioBase64: "old" }).audioBase64).toBe("old");
+  });
+});
@@ -0,0 +1,238 @@
+import { AppSettings, ImageStyle, LandmarkResult } from "../types";
+import { downloadBlob } from "../utils/download";
+import { getSettings, updateSettings } from "./settings";
+import { loadHistory, readAiImage, replaceAllResults, saveResult, withAudio } from "./storage";
+
+const BACKUP_FORMAT = 'luminatour-backup';
+const BACKUP_SCHEMA_VERSION = 1;
+const FEEDBACK_PREFIX = 'feedback_';
+const AR_ACTIVE_PREFIX = 'ar_active_';
+
+export type RestoreMode = 'replace' | 'merge';
+
+/**
+ * Per-landmark preferences that live in localStorage beside the journal.
+ */
+export interface LandmarkPreferences {
+  feedback?: 'up' | 'down';
+  arActive?: boolean;
+}
+
+export interface JournalBackup {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: number;
+  results: LandmarkResult[]; // Media inline as data URLs and base64 PCM
+  preferences: Record<string, LandmarkPreferences>;
+  settings: AppSettings;
+}
+
+export interface RestoreSummary {
+  added: number;
+  updated: number;
+  kept: number; // Local entries that won a conflict
+}
+
+// Each step lifts a backup from the version it is keyed by to the next one
+const UPGRADES: Partial<Record<number, (data: unknown) => unknown>> = {
+  // Version 0 is the raw localStorage journal array from before IndexedDB
+  0: (data) => ({
+    format: BACKUP_FORMAT,
+    schemaVersion: 1,
+    exportedAt: Date.now(),
+    results: data,
+    preferences: {},
+    settings: getSettings(),
+  }),
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Only what the app relies on to show an entry; optional fields are left to the UI
+function isLandmarkResult(value: unknown): value is LandmarkResult {
+  return isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.timestamp === 'number' &&
+    typeof value.history === 'string' &&
+    typeof value.imageUrl === 'string' &&
+    isRecord(value.info) && typeof value.info.name === 'string' &&
+    (value.updatedAt === undefined || typeof value.updatedAt === 'number');
+}
+
+function schemaVersionOf(data: unknown): number {
+  if (Array.isArray(data)) return 0;
+  return isRecord(data) && data.format === BACKUP_FORMAT ? Number(data.schemaVersion) : NaN;
+}
+
+function pickPreferences(value: unknown): Record<string, LandmarkPreferences> {
+  const preferences: Record<string, LandmarkPreferences> = {};
+  if (!isRecord(value)) return preferences;
+  for (const [id, entry] of Object.entries(value)) {
+    if (!isRecord(entry)) continue;
+    const picked: LandmarkPreferences = {};
+    if (entry.feedback === 'up' || entry.feedback === 'down') picked.feedback = entry.feedback;
+    if (entry.arActive === true) picked.arActive = true;
+    preferences[id] = picked;
+  }
+  return preferences;
+}
+
+// Settings this app does not know, or of the wrong type, are dropped
+function pickSettings(value: unknown): AppSettings {
+  const current = getSettings();
+  if (!isRecord(value)) return current;
+  const known = Object.entries(value).filter(([key, setting]) =>
+    key in current && typeof setting === typeof current[key as keyof AppSettings]
+  );
+  return { ...current, ...Object.fromEntries(known) };
+}
+
+// Edits bump updatedAt; entries never edited since creation only have timestamp
+function lastChanged(result: LandmarkResult): number {
+  return result.updatedAt ?? result.timestamp;
+}
+
+// The journal only knows which reimaginings are saved; a backup carries the images
+async function withAiImages(result: LandmarkResult): Promise<LandmarkResult> {
+  const { storedAiImages, ...rest } = result;
+  if (!storedAiImages?.length) return rest;
+  const aiImages = { ...rest.aiImages };
+  for (const style of storedAiImages) {
+    const url = await readAiImage(result, style);
+    if (url) aiImages[style] = url;
+  }
+  return { ...rest, aiImages };
+}
+
+/**
+ * Fill gaps in a local entry from its older backup copy. The local entry is
+ * loaded light, so the backup's narration and reimaginings only go in where
+ * the device has none of its own.
+ */
+export function fillFromBackup(local: LandmarkResult, incoming: LandmarkResult): LandmarkResult {
+  const { audioBase64, aiImages, ...rest } = incoming;
+  const merged: LandmarkResult = { ...rest, ...local };
+  if (audioBase64 && !local.audioBase64 && !local.storedNarration) merged.audioBase64 = audioBase64;
+  const missing = Object.entries(aiImages || {}).filter(([style]) =>
+    !local.aiImages?.[style as ImageStyle] && !local.storedAiImages?.includes(style as ImageStyle)
+  );
+  if (missing.length) merged.aiImages = { ...Object.fromEntries(missing), ...local.aiImages };
+  return merged;
+}
+
+function readPreferences(): Record<string, LandmarkPreferences> {
+  const preferences: Record<string, LandmarkPreferences> = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key) continue;
+    if (key.startsWith(FEEDBACK_PREFIX)) {
+      const value = localStorage.getItem(key);
+      if (value === 'up' || value === 'down') {
+        (preferences[key.slice(FEEDBACK_PREFIX.length)] ??= {}).feedback = value;
+      }
+    } else if (key.startsWith(AR_ACTIVE_PREFIX) && localStorage.getItem(key) === 'true') {
+      (preferences[key.slice(AR_ACTIVE_PREFIX.length)] ??= {}).arActive = true;
+    }
+  }
+  return preferences;
+}
+
+function writePreferences(id: string, preferences: LandmarkPreferences | undefined) {
+  if (preferences?.feedback) localStorage.setItem(`${FEEDBACK_PREFIX}${id}`, preferences.feedback);
+  else localStorage.removeItem(`${FEEDBACK_PREFIX}${id}`);
+  if (preferences?.arActive) localStorage.setItem(`${AR_ACTIVE_PREFIX}${id}`, 'true');
+  else localStorage.removeItem(`${AR_ACTIVE_PREFIX}${id}`);
+}
+
+/**
+ * Snapshot the whole journal, including media, per-landmark preferences and settings.
+ */
+export async function createBackup(): Promise<JournalBackup> {
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    results: await Promise.all((await loadHistory()).map(async result => withAiImages(await withAudio(result)))),
+    preferences: readPreferences(),
+    settings: getSettings(),
+  };
+}
+
+export async function downloadBackup(): Promise<void> {
+  const backup = await createBackup();
+  const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
+  downloadBlob(blob, `luminatour-backup-${new Date(backup.exportedAt).toISOString().slice(0, 10)}.json`);
+}
+
+/**
+ * Validate a parsed backup file and upgrade it to the current schema. Every
+ * entry is checked here, before a restore touches the journal.
+ */
+export function upgradeBackup(data: unknown): JournalBackup {
+  let backup = data;
+  let version = schemaVersionOf(data);
+  if (!Number.isInteger(version) || version < 0) throw new Error("Not a LuminaTour backup");
+  if (version > BACKUP_SCHEMA_VERSION) throw new Error(`Backup schema ${version} is newer than this app supports`);
+  while (version < BACKUP_SCHEMA_VERSION) {
+    const upgrade = UPGRADES[version];
+    if (!upgrade) throw new Error("Not a LuminaTour backup");
+    backup = upgrade(backup);
+    version = schemaVersionOf(backup);
+  }
+  if (!isRecord(backup) || !Array.isArray(backup.results)) throw new Error("Backup has no journal entries");
+  const results: unknown[] = backup.results;
+  if (!results.every(isLandmarkResult)) {
+    throw new Error(`Backup entry ${results.findIndex(item => !isLandmarkResult(item)) + 1} is not a journal entry`);
+  }
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: typeof backup.exportedAt === 'number' ? backup.exportedAt : Date.now(),
+    results,
+    preferences: pickPreferences(backup.preferences),
+    settings: pickSettings(backup.settings),
+  };
+}
+
+/**
+ * Restore a backup file. Replace swaps the journal for the backup in one step
+ * and adopts the backup's settings; merge keeps local settings and, for
+ * entries present on both sides, keeps the more recently changed one with
+ * gaps filled from the other.
+ */
+export async function restoreBackup(file: File, mode: RestoreMode): Promise<RestoreSummary> {
+  const backup = upgradeBackup(JSON.parse(await file.text()));
+  const local = await loadHistory();
+  const summary: RestoreSummary = { added: 0, updated: 0, kept: 0 };
+
+  if (mode === 'replace') {
+    await replaceAllResults(backup.results);
+    local.forEach(item => writePreferences(item.id, undefined));
+    backup.results.forEach(item => writePreferences(item.id, backup.preferences[item.id]));
+    updateSettings(backup.settings);
+    summary.added = backup.results.length;
+    return summary;
+  }
+
+  const localById = new Map(local.map(item => [item.id, item]));
+  const localPreferences = readPreferences();
+  for (const incoming of backup.results) {
+    const existing = localById.get(incoming.id);
+    if (!existing) {
+      await saveResult(incoming);
+      writePreferences(incoming.id, backup.preferences[incoming.id]);
+      summary.added++;
+    } else if (lastChanged(incoming) > lastChanged(existing)) {
+      await saveResult({ ...existing, ...incoming });
+      writePreferences(incoming.id, { ...localPreferences[incoming.id], ...backup.preferences[incoming.id] });
+      summary.updated++;
+    } else {
+      await saveResult(fillFromBackup(existing, incoming));
+      writePreferences(incoming.id, { ...backup.preferences[incoming.id], ...localPreferences[incoming.id] });
+      summary.kept++;
+    }
+  }
+  return summary;
+}
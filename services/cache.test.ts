@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { normalizeLandmarkName } from "./cache";
+
+describe("normalizeLandmarkName", () => {
+  it("folds case, accents and punctuation in Latin names", () => {
+    expect(normalizeLandmarkName("Notre-Dame de Paris")).toBe(normalizeLandmarkName("notre dame de paris"));
+    expect(normalizeLandmarkName("Sagrada Família")).toBe("sagrada familia");
+  });
+
+  it("keeps different CJK names apart", () => {
+    const tokyoTower = normalizeLandmarkName("東京タワー");
+    const forbiddenCity = normalizeLandmarkName("故宫");
+    expect(tokyoTower).not.toBe("");
+    expect(forbiddenCity).not.toBe("");
+    expect(tokyoTower).not.toBe(forbiddenCity);
+  });
+
+  it("tells kana apart that differ only by dakuten", () => {
+    expect(normalizeLandmarkName("かく")).not.toBe(normalizeLandmarkName("がく"));
+  });
+
+  it("keeps Cyrillic, Greek and Arabic letters", () => {
+    expect(normalizeLandmarkName("Эрмитаж")).toBe("эрмитаж");
+    expect(normalizeLandmarkName("Παρθενώνας")).toBe("παρθενωνας");
+    expect(normalizeLandmarkName("برج خليفة")).toBe("برج خليفة");
+  });
+});
@@ -0,0 +1,151 @@
+import { CacheStatus, ImageStyle, LandmarkHistory, LandmarkInfo, LanguageCode, RelatedLandmark } from "../types";
+import { generateLandmarkImage, getLandmarkHistory, getRelatedLandmarks, providerRequiresNetwork, searchLandmarkByName } from "./ai";
+import { CacheEntry, clearCacheEntries, listCacheEntriesByPlace, readCacheEntry, writeCacheEntry } from "./storage";
+import { getSettings } from "./settings";
+import { distanceMeters } from "../utils/geo";
+import { isAbortError } from "../utils/retry";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SAME_PLACE_METERS = 25;
+// About 110 m of latitude, so anything within SAME_PLACE_METERS is in a neighbouring cell
+const PLACE_CELL_DEGREES = 0.001;
+
+interface CachePlace {
+  prefix: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface CacheOptions {
+  forceRefresh?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface Cached<T> extends CacheStatus {
+  value: T;
+}
+
+/**
+ * Lowercase, strip accents and punctuation so "Notre-Dame de Paris" and
+ * "notre dame de paris" share an entry. Letters of every script are kept,
+ * along with marks such as Japanese dakuten that tell names apart.
+ */
+export function normalizeLandmarkName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\p{M}]+/gu, ' ')
+    .trim()
+    .normalize('NFC');
+}
+
+function isExpired(entry: CacheEntry): boolean {
+  const { cacheTtlDays } = getSettings();
+  return cacheTtlDays > 0 && Date.now() - entry.cachedAt > cacheTtlDays * DAY_MS;
+}
+
+function isSourceReachable(): boolean {
+  return navigator.onLine || !providerRequiresNetwork;
+}
+
+function placeKey(prefix: string, latitude: number, longitude: number): string {
+  return `${prefix}${Math.floor(latitude / PLACE_CELL_DEGREES)}:${Math.floor(longitude / PLACE_CELL_DEGREES)}`;
+}
+
+function neighbouringPlaces({ prefix, latitude, longitude }: CachePlace): string[] {
+  const places: string[] = [];
+  for (const dLat of [-1, 0, 1]) {
+    for (const dLng of [-1, 0, 1]) {
+      places.push(placeKey(prefix, latitude + dLat * PLACE_CELL_DEGREES, longitude + dLng * PLACE_CELL_DEGREES));
+    }
+  }
+  return places;
+}
+
+function placeOf(kind: string, info: LandmarkInfo, language: LanguageCode): CachePlace | undefined {
+  if (info.latitude == null || info.longitude == null) return undefined;
+  return { prefix: `${kind}:${language}:`, latitude: info.latitude, longitude: info.longitude };
+}
+
+/**
+ * Resolve the cache key for a landmark. An exact name match wins; otherwise an
+ * entry pinned within a few metres of the same coordinates is reused, which
+ * catches the model naming one place differently between runs.
+ */
+async function landmarkKey(kind: string, info: LandmarkInfo, language: LanguageCode): Promise<string> {
+  const key = `${kind}:${language}:${normalizeLandmarkName(info.name)}`;
+  const place = placeOf(kind, info, language);
+  if (!place) return key;
+  if (await readCacheEntry(key)) return key;
+
+  const entries = await listCacheEntriesByPlace(neighbouringPlaces(place));
+  const nearby = entries.find(entry =>
+    entry.latitude != null && entry.longitude != null &&
+    distanceMeters(place.latitude, place.longitude, entry.latitude, entry.longitude) <= SAME_PLACE_METERS
+  );
+  return nearby ? nearby.key : key;
+}
+
+/**
+ * Serve from cache while fresh (or whenever the source is unreachable), else
+ * fetch and store. A stale entry is still returned if the fetch fails.
+ */
+async function withCache<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  options: CacheOptions = {},
+  place?: CachePlace
+): Promise<Cached<T>> {
+  const entry = await readCacheEntry<T>(key);
+  const reachable = isSourceReachable();
+
+  if (entry && !options.forceRefresh && (!isExpired(entry) || !reachable)) {
+    return { value: entry.value, fromCache: true, cachedAt: entry.cachedAt };
+  }
+  if (!reachable) {
+    if (entry) return { value: entry.value, fromCache: true, cachedAt: entry.cachedAt };
+    throw new Error("This content has not been cached for offline use yet.");
+  }
+
+  try {
+    const value = await fetcher();
+    const cachedAt = Date.now();
+    await writeCacheEntry<T>({
+      key, value, cachedAt,
+      latitude: place?.latitude,
+      longitude: place?.longitude,
+      place: place && placeKey(place.prefix, place.latitude, place.longitude),
+    });
+    return { value, fromCache: false, cachedAt };
+  } catch (err) {
+    // A cancelled caller wants nothing back, not the stale copy
+    if (entry && !isAbortError(err)) {
+      console.warn(`Refresh of ${key} failed, serving cached copy`, err);
+      return { value: entry.value, fromCache: true, cachedAt: entry.cachedAt };
+    }
+    throw err;
+  }
+}
+
+export async function getCachedLandmarkByName(name: string, language: LanguageCode, options?: CacheOptions): Promise<Cached<LandmarkInfo>> {
+  return withCache(`search:${language}:${normalizeLandmarkName(name)}`, () => searchLandmarkByName(name, language, options?.signal), options);
+}
+
+export async function getCachedLandmarkHistory(info: LandmarkInfo, language: LanguageCode, options?: CacheOptions): Promise<Cached<LandmarkHistory>> {
+  const key = await landmarkKey('history', info, language);
+  return withCache(key, () => getLandmarkHistory(info.name, language, options?.signal), options, placeOf('history', info, language));
+}
+
+export async function getCachedRelatedLandmarks(info: LandmarkInfo, language: LanguageCode, options?: CacheOptions): Promise<Cached<RelatedLandmark[]>> {
+  const key = await landmarkKey('related', info, language);
+  return withCache(key, () => getRelatedLandmarks(info.name, info.location || "", language, options?.signal), options, placeOf('related', info, language));
+}
+
+export async function getCachedLandmarkImage(name: string, style: ImageStyle = 'cinematic', options?: CacheOptions): Promise<Cached<string>> {
+  return withCache(`image:${style}:${normalizeLandmarkName(name)}`, () => generateLandmarkImage(name, style, options?.signal), options);
+}
+
+export function clearContentCache(): Promise<void> {
+  return clearCacheEntries();
+}
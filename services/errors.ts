@@ -0,0 +1,56 @@
+import { TimeoutError } from "../utils/retry";
+
+export const APP_ERROR_KINDS = ['quota', 'invalidKey', 'safety', 'noLandmark', 'malformed', 'network', 'timeout', 'unknown'] as const;
+
+export type AppErrorKind = typeof APP_ERROR_KINDS[number];
+
+export function isAppErrorKind(value: unknown): value is AppErrorKind {
+  return (APP_ERROR_KINDS as readonly unknown[]).includes(value);
+}
+
+/**
+ * A failure the UI knows how to explain and recover from. Providers throw
+ * these where they can tell; everything else is classified by `toAppError`.
+ */
+export class AppError extends Error {
+  readonly kind: AppErrorKind;
+
+  constructor(kind: AppErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'AppError';
+    this.kind = kind;
+  }
+}
+
+const INVALID_KEY_PATTERN = /api[ _-]?key|API_KEY_INVALID|permission denied|unauthenticated/i;
+
+function classify(err: unknown): AppErrorKind {
+  if (err instanceof TimeoutError) return 'timeout';
+  if (err instanceof SyntaxError) return 'malformed';
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return 'network';
+  if (err instanceof TypeError && /fetch|network/i.test(err.message)) return 'network';
+
+  const status = (err as { status?: number } | undefined)?.status;
+  const message = err instanceof Error ? err.message : String(err);
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) return 'quota';
+  if (status === 401 || status === 403 || (status === 400 && INVALID_KEY_PATTERN.test(message))) return 'invalidKey';
+  return 'unknown';
+}
+
+export function toAppError(err: unknown): AppError {
+  if (err instanceof AppError) return err;
+  return new AppError(classify(err), err instanceof Error ? err.message : String(err), { cause: err });
+}
+
+/**
+ * Parse a JSON model response, turning empty or truncated output into a
+ * malformed-output error instead of a bare SyntaxError.
+ */
+export function parseModelJson<T>(text: string | undefined): T {
+  if (!text?.trim()) throw new AppError('malformed', "Model returned an empty response");
+  try {
+    return JSON.parse(text) as T;
+  } catch (err) {
+    throw new AppError('malformed', "Model returned malformed JSON", { cause: err });
+  }
+}
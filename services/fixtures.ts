@@ -0,0 +1,108 @@
+import { GroundingSource, LandmarkInfo, RelatedLandmark } from "../types";
+
+export interface LandmarkFixture {
+  info: LandmarkInfo;
+  history: string;
+  sources: GroundingSource[];
+  related: RelatedLandmark[];
+  cues: string[]; // Visual evidence the mock cites when identifying it
+}
+
+/**
+ * Canned landmark data served by the mock provider.
+ */
+export const LANDMARK_FIXTURES: LandmarkFixture[] = [
+  {
+    info: {
+      name: "Eiffel Tower",
+      description: "A wrought-iron lattice tower on the Champ de Mars, built as the entrance arch to the 1889 World's Fair.",
+      location: "Paris, France",
+      latitude: 48.8584,
+      longitude: 2.2945,
+    },
+    history: `The Eiffel Tower is the defining silhouette of Paris.
+
+## Origins
+In 1884 the engineers Maurice Koechlin and Émile Nouguier sketched a giant pylon for the upcoming Exposition Universelle. Gustave Eiffel bought the patent and championed the design.
+
+## Construction
+Work began in 1887 and took just over two years. Around 18,000 iron parts were joined by 2.5 million rivets, and the tower opened on 31 March 1889.
+
+## Cultural Impact
+Artists protested the "useless and monstrous" tower in 1887, yet it became the most visited paid monument in the world and a symbol of France.
+
+## Modern Day
+Today the tower hosts radio transmitters, a restaurant and nightly light shows, welcoming almost seven million visitors a year.`,
+    sources: [
+      { title: "Official Eiffel Tower website", uri: "https://www.toureiffel.paris/en" },
+      { title: "Eiffel Tower - Wikipedia", uri: "https://en.wikipedia.org/wiki/Eiffel_Tower" },
+    ],
+    related: [
+      { name: "Statue of Liberty", reason: "Its internal iron framework was engineered by Gustave Eiffel." },
+      { name: "Arc de Triomphe", reason: "A fellow Parisian monument a short walk across the Seine." },
+    ],
+    cues: ["Tapering wrought-iron lattice", "Four arched legs meeting at a first-floor platform"],
+  },
+  {
+    info: {
+      name: "Colosseum",
+      description: "An elliptical amphitheatre in the centre of Rome, the largest ever built in the Roman Empire.",
+      location: "Rome, Italy",
+      latitude: 41.8902,
+      longitude: 12.4922,
+    },
+    history: `The Colosseum is the great stone theatre of imperial Rome.
+
+## Origins
+Emperor Vespasian commissioned the amphitheatre in 72 AD on the site of Nero's private lake, returning the land to the people of Rome.
+
+## Construction
+His son Titus inaugurated it in 80 AD with 100 days of games. Travertine, tuff and brick-faced concrete allowed it to seat around 50,000 spectators.
+
+## Cultural Impact
+Gladiatorial contests and animal hunts were staged here for centuries. Earthquakes in 1349 and later stone robbing left the broken outline seen today.
+
+## Modern Day
+The Colosseum is a UNESCO World Heritage Site and one of Italy's most visited attractions.`,
+    sources: [
+      { title: "Parco archeologico del Colosseo", uri: "https://parcocolosseo.it/en/" },
+      { title: "Colosseum - Wikipedia", uri: "https://en.wikipedia.org/wiki/Colosseum" },
+    ],
+    related: [
+      { name: "Roman Forum", reason: "The political heart of ancient Rome lies right next door." },
+      { name: "Pantheon", reason: "Another masterpiece of Roman concrete engineering." },
+    ],
+    cues: ["Elliptical travertine facade with stacked arcades", "Partially collapsed outer ring"],
+  },
+  {
+    info: {
+      name: "Taj Mahal",
+      description: "An ivory-white marble mausoleum on the right bank of the Yamuna river.",
+      location: "Agra, India",
+      latitude: 27.1751,
+      longitude: 78.0421,
+    },
+    history: `The Taj Mahal is a monument to love and Mughal artistry.
+
+## Origins
+Mughal emperor Shah Jahan commissioned the tomb in 1632 for his favourite wife, Mumtaz Mahal, who died in childbirth.
+
+## Construction
+Some 20,000 artisans worked on the complex, which was largely completed by 1653. White Makrana marble is inlaid with semi-precious stones.
+
+## Cultural Impact
+The Taj Mahal became the jewel of Indo-Islamic architecture and was declared a UNESCO World Heritage Site in 1983.
+
+## Modern Day
+Millions of visitors arrive every year, and conservation work protects the marble from pollution.`,
+    sources: [
+      { title: "Taj Mahal - UNESCO World Heritage Centre", uri: "https://whc.unesco.org/en/list/252/" },
+      { title: "Taj Mahal - Wikipedia", uri: "https://en.wikipedia.org/wiki/Taj_Mahal" },
+    ],
+    related: [
+      { name: "Agra Fort", reason: "Shah Jahan spent his final years here with a view of the Taj." },
+      { name: "Humayun's Tomb", reason: "The Delhi garden tomb that inspired the Taj Mahal's design." },
+    ],
+    cues: ["White marble onion dome", "Four minarets framing a raised plinth"],
+  },
+];
@@ -1,54 +1,141 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
+import { FinishReason, GenerateContentResponse, GoogleGenAI, Type, Modality } from "@google/genai";
+import { CaptureMetadata, ImageStyle, LandmarkAIProvider, LandmarkCandidate, LandmarkHistory, LandmarkInfo, LanguageCode, NarrationLength, NarrationOptions, NarrationPersona, RelatedLandmark } from "../types";
+import { dataUrlMimeType } from "../utils/image";
+import { AppError, parseModelJson } from "./errors";
+import { getLanguage } from "./i18n";
+import { DEFAULT_LENGTH, DEFAULT_PERSONA } from "./narration";
+import { DEFAULT_VOICE } from "./voices";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+let client: GoogleGenAI | null = null;
+
+// Created lazily so the app can boot without a key when another provider is active
+function getClient(): GoogleGenAI {
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+}
+
+const BLOCKED_FINISH_REASONS = new Set<FinishReason | undefined>([
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+]);
+
+// A blocked prompt or answer comes back as an empty response rather than an HTTP error
+function assertNotBlocked(response: GenerateContentResponse) {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || BLOCKED_FINISH_REASONS.has(finishReason)) {
+    throw new AppError('safety', `Blocked by safety filters (${blockReason || finishReason})`);
+  }
+}
+
+// JSON keys stay English so the response schema still matches
+function languageInstruction(language: LanguageCode = 'en'): string {
+  return `Write every text value in ${getLanguage(language).englishName}.`;
+}
+
+const PERSONA_PROMPTS: Record<NarrationPersona, string> = {
+  'storyteller': 'Be charismatic and engaging, like a seasoned local guide telling a story.',
+  'scholarly': 'Speak like a museum curator: precise, measured and rich in dates, names and context.',
+  'kid-friendly': 'Speak to curious children aged 6 to 10 with simple words, fun comparisons and a warm, playful tone.',
+  'dramatic': 'Deliver it like a cinematic documentary trailer, with suspense, vivid imagery and bold pauses.',
+};
+
+const LENGTH_PROMPTS: Record<NarrationLength, string> = {
+  'short': '30-second (about 75 words)',
+  'medium': '2-minute (about 300 words)',
+  'long': '5-minute deep dive (about 750 words)',
+};
+
+const COMPASS_POINTS = ['north', 'north-east', 'east', 'south-east', 'south', 'south-west', 'west', 'north-west'];
+
+// Photo metadata narrows lookalike buildings down to the ones visible from where the camera stood
+function captureInstruction(capture?: CaptureMetadata): string {
+  if (!capture) return '';
+  const hints: string[] = [];
+  if (capture.latitude != null && capture.longitude != null) {
+    hints.push(`The photo was taken at GPS ${capture.latitude.toFixed(5)}, ${capture.longitude.toFixed(5)}.`);
+  }
+  if (capture.heading != null) {
+    hints.push(`The camera was facing ${COMPASS_POINTS[Math.round(capture.heading / 45) % 8]} (${Math.round(capture.heading)}° from north).`);
+  }
+  if (capture.takenAt != null) {
+    hints.push(`It was taken on ${new Date(capture.takenAt).toISOString().slice(0, 10)}.`);
+  }
+  return hints.length ? `${hints.join(' ')} Prefer landmarks visible from that spot over lookalikes elsewhere. ` : '';
+}
+
+const MAX_CANDIDATES = 3;
 
 /**
- * Identify a landmark from an image using gemini-3-pro-preview
+ * Identify a landmark from an image using gemini-3-pro-preview, returning up
+ * to three ranked guesses so a wrong first pick can be corrected
  */
-export async function identifyLandmark(base64Image: string) {
+async function identifyLandmark(base64Image: string, language?: LanguageCode, capture?: CaptureMetadata, signal?: AbortSignal): Promise<LandmarkCandidate[]> {
   const imagePart = {
     inlineData: {
-      mimeType: 'image/jpeg',
+      mimeType: dataUrlMimeType(base64Image) || 'image/jpeg',
       data: base64Image.split(',')[1] || base64Image,
     },
   };
 
-  const response = await ai.models.generateContent({
+  const response = await getClient().models.generateContent({
     model: 'gemini-3-pro-preview',
     contents: {
       parts: [
         imagePart,
-        { text: "Identify the landmark in this image. If it's not a specific landmark, describe the place. Provide the result in JSON format with 'name', 'description', 'location', and approximate GPS 'latitude' and 'longitude' if known." }
+        { text: `Identify the landmark in this image. If it's not a specific landmark, describe the place. ${captureInstruction(capture)}List up to ${MAX_CANDIDATES} plausible candidates, most likely first, in JSON format under 'candidates'. Give each one 'name', 'description', 'location', approximate GPS 'latitude' and 'longitude' if known, a 'confidence' between 0 and 1, and 'cues': short phrases naming the visual details in the photo that support it. Confidences should reflect genuine uncertainty between lookalikes. ${languageInstruction(language)}` }
       ]
     },
     config: {
+      abortSignal: signal,
       responseMimeType: "application/json",
       responseSchema: {
         type: Type.OBJECT,
         properties: {
-          name: { type: Type.STRING },
-          description: { type: Type.STRING },
-          location: { type: Type.STRING },
-          latitude: { type: Type.NUMBER },
-          longitude: { type: Type.NUMBER },
+          candidates: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                name: { type: Type.STRING },
+                description: { type: Type.STRING },
+                location: { type: Type.STRING },
+                latitude: { type: Type.NUMBER },
+                longitude: { type: Type.NUMBER },
+                confidence: { type: Type.NUMBER },
+                cues: { type: Type.ARRAY, items: { type: Type.STRING } },
+              },
+              required: ["name", "description", "confidence", "cues"]
+            }
+          }
         },
-        required: ["name", "description"]
+        required: ["candidates"]
       }
     }
   });
 
-  return JSON.parse(response.text);
+  assertNotBlocked(response);
+  const { candidates } = parseModelJson<{ candidates: LandmarkCandidate[] }>(response.text);
+  if (!candidates?.length) throw new AppError('noLandmark', "No landmark candidates returned");
+  return candidates
+    .map(c => ({ ...c, confidence: Math.min(1, Math.max(0, c.confidence || 0)), cues: c.cues || [] }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_CANDIDATES);
 }
 
 /**
  * Identify a landmark by name using text-only prompt
  */
-export async function searchLandmarkByName(name: string) {
-  const response = await ai.models.generateContent({
+async function searchLandmarkByName(name: string, language?: LanguageCode, signal?: AbortSignal): Promise<LandmarkInfo> {
+  const response = await getClient().models.generateContent({
     model: 'gemini-3-flash-preview',
-    contents: `Find information about the landmark "${name}". Provide the result in JSON format with 'name', 'description', 'location', and approximate GPS 'latitude' and 'longitude' if known.`,
+    contents: `Find information about the landmark "${name}". Provide the result in JSON format with 'name', 'description', 'location', and approximate GPS 'latitude' and 'longitude' if known. ${languageInstruction(language)}`,
     config: {
+      abortSignal: signal,
       responseMimeType: "application/json",
       responseSchema: {
         type: Type.OBJECT,
@@ -64,32 +151,35 @@ export async function searchLandmarkByName(name: string) {
     }
   });
 
-  return JSON.parse(response.text);
+  assertNotBlocked(response);
+  return parseModelJson<LandmarkInfo>(response.text);
 }
 
 /**
  * Fetch detailed history using Search Grounding with gemini-3-flash-preview
  */
-export async function getLandmarkHistory(landmarkName: string) {
+async function getLandmarkHistory(landmarkName: string, language?: LanguageCode, signal?: AbortSignal): Promise<LandmarkHistory> {
   const prompt = `Provide a comprehensive history and interesting facts about the landmark: ${landmarkName}. 
   Organize the content into clear sections using Markdown headers (##) for different eras or themes (e.g., Origins, Construction, Cultural Impact, Modern Day).
-  Use Google Search to ensure accuracy.`;
+  Use Google Search to ensure accuracy. Write the entire answer, including the section headers, in ${getLanguage(language).englishName}.`;
 
-  const response = await ai.models.generateContent({
+  const response = await getClient().models.generateContent({
     model: 'gemini-3-flash-preview',
     contents: prompt,
     config: {
+      abortSignal: signal,
       tools: [{ googleSearch: {} }],
     },
   });
 
+  assertNotBlocked(response);
   const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks?.map((chunk: any) => ({
     title: chunk.web?.title || 'Source',
     uri: chunk.web?.uri || '',
   })).filter((s: any) => s.uri) || [];
 
   return {
-    text: response.text,
+    text: response.text || '',
     sources
   };
 }
@@ -97,13 +187,14 @@ export async function getLandmarkHistory(landmarkName: string) {
 /**
  * Suggest related landmarks based on theme or location
  */
-export async function getRelatedLandmarks(landmarkName: string, location: string) {
-  const prompt = `Based on the landmark "${landmarkName}" in "${location}", suggest 2-3 other related landmarks or historical sites that a visitor would find interesting. For each, provide the name and a brief one-sentence reason why it is related (e.g., same architect, similar historical era, nearby location). Return as a JSON array of objects with 'name' and 'reason'.`;
+async function getRelatedLandmarks(landmarkName: string, location: string, language?: LanguageCode, signal?: AbortSignal): Promise<RelatedLandmark[]> {
+  const prompt = `Based on the landmark "${landmarkName}" in "${location}", suggest 2-3 other related landmarks or historical sites that a visitor would find interesting. For each, provide the name and a brief one-sentence reason why it is related (e.g., same architect, similar historical era, nearby location). Return as a JSON array of objects with 'name' and 'reason'. ${languageInstruction(language)}`;
 
-  const response = await ai.models.generateContent({
+  const response = await getClient().models.generateContent({
     model: 'gemini-3-flash-preview',
     contents: prompt,
     config: {
+      abortSignal: signal,
       responseMimeType: "application/json",
       responseSchema: {
         type: Type.ARRAY,
@@ -119,59 +210,92 @@ export async function getRelatedLandmarks(landmarkName: string, location: string
     }
   });
 
-  return JSON.parse(response.text);
+  assertNotBlocked(response);
+  return parseModelJson<RelatedLandmark[]>(response.text);
 }
 
 /**
  * Generate an AI reimagining of the landmark.
  * Supports 'cinematic' (default) or 'abstract' styles.
  */
-export async function generateLandmarkImage(landmarkName: string, style: 'cinematic' | 'abstract' = 'cinematic'): Promise<string> {
+async function generateLandmarkImage(landmarkName: string, style: ImageStyle = 'cinematic', signal?: AbortSignal): Promise<string> {
   const prompt = style === 'abstract' 
     ? `An abstract, artistic, and stylized digital painting of ${landmarkName}. Use vibrant neon colors, geometric patterns, and dreamlike atmosphere. High-end museum art style, 8k, majestic.`
     : `A cinematic, highly detailed wide-angle architectural photograph of ${landmarkName} during the golden hour. Professional lighting, 8k resolution, majestic atmosphere.`;
 
-  const response = await ai.models.generateContent({
+  const response = await getClient().models.generateContent({
     model: 'gemini-2.5-flash-image',
     contents: {
       parts: [{ text: prompt }],
     },
     config: {
+      abortSignal: signal,
       imageConfig: {
         aspectRatio: "16:9",
       },
     },
   });
 
-  for (const part of response.candidates[0].content.parts) {
+  assertNotBlocked(response);
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
     if (part.inlineData) {
       return `data:image/png;base64,${part.inlineData.data}`;
     }
   }
-  throw new Error("Failed to generate image");
+  throw new AppError('malformed', "No image in the model response");
 }
 
 /**
- * Generate TTS narration using gemini-2.5-flash-preview-tts
+ * Write the narration script from the chronicle using gemini-3-flash-preview
  */
-export async function generateNarration(text: string): Promise<string> {
-  const scriptPrompt = `Summarize this history into a 30-second immersive tour guide narration. Be charismatic and engaging: ${text}`;
-  
-  const response = await ai.models.generateContent({
+async function generateNarrationScript(history: string, options: NarrationOptions = {}, signal?: AbortSignal): Promise<string> {
+  const { language = 'en', persona = DEFAULT_PERSONA, length = DEFAULT_LENGTH } = options;
+  const response = await getClient().models.generateContent({
+    model: 'gemini-3-flash-preview',
+    contents: `Summarize this history into a ${LENGTH_PROMPTS[length]} immersive tour guide narration in ${getLanguage(language).englishName}. ${PERSONA_PROMPTS[persona]} Return only the words to be spoken as plain prose, with no headings, stage directions or markdown. History: ${history}`,
+    config: { abortSignal: signal },
+  });
+
+  assertNotBlocked(response);
+  const script = (response.text || '').trim();
+  if (!script) throw new AppError('malformed', "No narration script received");
+  return script;
+}
+
+/**
+ * Read a narration script aloud using gemini-2.5-flash-preview-tts
+ */
+async function generateNarration(script: string, options: NarrationOptions = {}, signal?: AbortSignal): Promise<string> {
+  const { voice = DEFAULT_VOICE } = options;
+  const response = await getClient().models.generateContent({
     model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text: scriptPrompt }] }],
+    contents: [{ parts: [{ text: `Read this tour narration aloud exactly as written: ${script}` }] }],
     config: {
+      abortSignal: signal,
       responseModalities: [Modality.AUDIO],
       speechConfig: {
         voiceConfig: {
-          prebuiltVoiceConfig: { voiceName: 'Kore' },
+          prebuiltVoiceConfig: { voiceName: voice },
         },
       },
     },
   });
 
+  assertNotBlocked(response);
   const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-  if (!base64Audio) throw new Error("No audio data received from TTS");
+  if (!base64Audio) throw new AppError('malformed', "No audio data received from TTS");
   
   return base64Audio;
 }
+
+export const geminiProvider: LandmarkAIProvider = {
+  name: 'gemini',
+  requiresNetwork: true,
+  identifyLandmark,
+  searchLandmarkByName,
+  getLandmarkHistory,
+  getRelatedLandmarks,
+  generateLandmarkImage,
+  generateNarrationScript,
+  generateNarration,
+};
@@ -0,0 +1,252 @@
+import { GroundingSource, LandmarkResult, LanguageCode } from "../types";
+import { downloadBlob } from "../utils/download";
+import { LANGUAGES } from "./i18n";
+
+export type GeoFormat = 'geojson' | 'kml' | 'gpx';
+
+export const GEO_FORMATS: GeoFormat[] = ['geojson', 'kml', 'gpx'];
+
+export interface GeoExportScope {
+  bookmarkedOnly?: boolean;
+  from?: string; // Inclusive local day, YYYY-MM-DD
+  to?: string;
+}
+
+export interface GeoExportSummary {
+  exported: number;
+  skipped: number; // Entries in scope without coordinates
+}
+
+const MIME_TYPES: Record<GeoFormat, string> = {
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+  gpx: 'application/gpx+xml',
+};
+
+type LocatedResult = LandmarkResult & { info: { latitude: number; longitude: number } };
+
+function isLocated(result: LandmarkResult): result is LocatedResult {
+  return typeof result.info.latitude === 'number' && typeof result.info.longitude === 'number';
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export function filterJournal(results: LandmarkResult[], scope: GeoExportScope): LandmarkResult[] {
+  const from = scope.from ? new Date(`${scope.from}T00:00:00`).getTime() : -Infinity;
+  const to = scope.to ? new Date(`${scope.to}T23:59:59.999`).getTime() : Infinity;
+  return results.filter(r =>
+    (!scope.bookmarkedOnly || r.isBookmarked) && r.timestamp >= from && r.timestamp <= to
+  );
+}
+
+function toGeoJSON(results: LocatedResult[]): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: results.map(r => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [r.info.longitude, r.info.latitude] },
+      properties: {
+        name: r.info.name,
+        description: r.info.description,
+        location: r.info.location,
+        timestamp: new Date(r.timestamp).toISOString(),
+        language: r.language || 'en',
+        bookmarked: !!r.isBookmarked,
+        links: r.sources.map(s => ({ title: s.title, href: s.uri })),
+      },
+    })),
+  }, null, 2);
+}
+
+function toKML(results: LocatedResult[]): string {
+  const placemarks = results.map(r => {
+    const data = [
+      r.info.location ? `<Data name="location"><value>${escapeXml(r.info.location)}</value></Data>` : '',
+      `<Data name="language"><value>${r.language || 'en'}</value></Data>`,
+      ...r.sources.map((s, i) => `<Data name="source_${i + 1}"><displayName>${escapeXml(s.title)}</displayName><value>${escapeXml(s.uri)}</value></Data>`),
+    ].filter(Boolean).join('\n        ');
+    return `    <Placemark>
+      <name>${escapeXml(r.info.name)}</name>
+      <description>${escapeXml(r.info.description)}</description>
+      <TimeStamp><when>${new Date(r.timestamp).toISOString()}</when></TimeStamp>
+      <ExtendedData>
+        ${data}
+      </ExtendedData>
+      <Point><coordinates>${r.info.longitude},${r.info.latitude}</coordinates></Point>
+    </Placemark>`;
+  }).join('\n');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>LuminaTour Journal</name>
+${placemarks}
+  </Document>
+</kml>
+`;
+}
+
+function toGPX(results: LocatedResult[]): string {
+  const waypoints = results.map(r => {
+    const links = r.sources.map(s => `\n    <link href="${escapeXml(s.uri)}"><text>${escapeXml(s.title)}</text></link>`).join('');
+    return `  <wpt lat="${r.info.latitude}" lon="${r.info.longitude}">
+    <time>${new Date(r.timestamp).toISOString()}</time>
+    <name>${escapeXml(r.info.name)}</name>
+    <desc>${escapeXml(r.info.description)}</desc>${links}
+  </wpt>`;
+  }).join('\n');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="LuminaTour" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata><name>LuminaTour Journal</name></metadata>
+${waypoints}
+</gpx>
+`;
+}
+
+const SERIALIZERS: Record<GeoFormat, (results: LocatedResult[]) => string> = {
+  geojson: toGeoJSON,
+  kml: toKML,
+  gpx: toGPX,
+};
+
+/**
+ * Download journal entries as waypoints. Entries without coordinates cannot be
+ * placed on a map and are left out.
+ */
+export function downloadJournal(results: LandmarkResult[], format: GeoFormat, scope: GeoExportScope = {}): GeoExportSummary {
+  const inScope = filterJournal(results, scope);
+  const located = inScope.filter(isLocated);
+  if (located.length) {
+    const blob = new Blob([SERIALIZERS[format](located)], { type: MIME_TYPES[format] });
+    downloadBlob(blob, `luminatour-journal-${new Date().toISOString().slice(0, 10)}.${format}`);
+  }
+  return { exported: located.length, skipped: inScope.length - located.length };
+}
+
+interface Waypoint {
+  name: string;
+  description: string;
+  location?: string;
+  latitude: number;
+  longitude: number;
+  time?: string;
+  language?: string;
+  sources: GroundingSource[];
+}
+
+function parseGeoJSON(text: string): Waypoint[] {
+  const data = JSON.parse(text);
+  const features: any[] = data.type === 'FeatureCollection' ? data.features : data.type === 'Feature' ? [data] : [];
+  return features
+    .filter(f => f?.geometry?.type === 'Point' && Array.isArray(f.geometry.coordinates))
+    .map(f => {
+      const props = f.properties || {};
+      const links: any[] = Array.isArray(props.links) ? props.links : [];
+      return {
+        name: String(props.name || props.title || ''),
+        description: String(props.description || ''),
+        location: props.location ? String(props.location) : undefined,
+        longitude: Number(f.geometry.coordinates[0]),
+        latitude: Number(f.geometry.coordinates[1]),
+        time: props.timestamp || props.time,
+        language: props.language,
+        sources: links
+          .filter(l => l?.href)
+          .map(l => ({ title: String(l.title || l.href), uri: String(l.href) })),
+      };
+    });
+}
+
+function childText(el: Element, tag: string): string {
+  return el.getElementsByTagName(tag)[0]?.textContent?.trim() || '';
+}
+
+function parseKML(doc: Document): Waypoint[] {
+  return Array.from(doc.getElementsByTagName('Placemark')).flatMap(placemark => {
+    const point = placemark.getElementsByTagName('Point')[0];
+    if (!point) return [];
+    const [longitude, latitude] = childText(point, 'coordinates').split(',').map(Number);
+    const data = Array.from(placemark.getElementsByTagName('Data'));
+    const dataValue = (name: string) => data.find(d => d.getAttribute('name') === name)?.getElementsByTagName('value')[0]?.textContent || undefined;
+    return [{
+      name: childText(placemark, 'name'),
+      description: childText(placemark, 'description'),
+      location: dataValue('location'),
+      latitude,
+      longitude,
+      time: childText(placemark, 'when') || undefined,
+      language: dataValue('language'),
+      sources: data
+        .filter(d => d.getAttribute('name')?.startsWith('source'))
+        .map(d => {
+          const uri = d.getElementsByTagName('value')[0]?.textContent || '';
+          return { title: d.getElementsByTagName('displayName')[0]?.textContent || uri, uri };
+        })
+        .filter(s => s.uri),
+    }];
+  });
+}
+
+// Waypoints plus named route points, so a planned route imports as its stops
+function parseGPX(doc: Document): Waypoint[] {
+  const points = [...Array.from(doc.getElementsByTagName('wpt')), ...Array.from(doc.getElementsByTagName('rtept'))];
+  return points.map(point => ({
+    name: childText(point, 'name'),
+    description: childText(point, 'desc') || childText(point, 'cmt'),
+    latitude: Number(point.getAttribute('lat')),
+    longitude: Number(point.getAttribute('lon')),
+    time: childText(point, 'time') || undefined,
+    sources: Array.from(point.getElementsByTagName('link'))
+      .map(link => ({ title: childText(link, 'text') || link.getAttribute('href') || '', uri: link.getAttribute('href') || '' }))
+      .filter(s => s.uri),
+  }));
+}
+
+function parseWaypoints(text: string, fileName: string): Waypoint[] {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'geojson' || extension === 'json' || text.trimStart().startsWith('{')) return parseGeoJSON(text);
+
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length) throw new Error("The file is not valid XML");
+  if (doc.documentElement.nodeName === 'kml') return parseKML(doc);
+  if (doc.documentElement.nodeName === 'gpx') return parseGPX(doc);
+  throw new Error("Unsupported file; expected GeoJSON, KML or GPX");
+}
+
+/**
+ * Turn a GeoJSON, KML or GPX file into planned journal entries. Their
+ * chronicle is fetched the first time each one is opened.
+ */
+export async function importWaypoints(file: File, language: LanguageCode): Promise<LandmarkResult[]> {
+  const waypoints = parseWaypoints(await file.text(), file.name);
+  return waypoints
+    .filter(w => w.name && Number.isFinite(w.latitude) && Number.isFinite(w.longitude))
+    .map(w => {
+      const time = w.time ? Date.parse(w.time) : NaN;
+      const fileLanguage = LANGUAGES.find(l => l.code === w.language)?.code;
+      return {
+        id: crypto.randomUUID(),
+        info: {
+          name: w.name,
+          description: w.description,
+          location: w.location,
+          latitude: w.latitude,
+          longitude: w.longitude,
+        },
+        history: '',
+        sources: w.sources,
+        imageUrl: '',
+        timestamp: Number.isFinite(time) ? time : Date.now(),
+        language: fileLanguage || language,
+        isBookmarked: false,
+        isDownloaded: false,
+        isPlanned: true,
+      };
+    });
+}
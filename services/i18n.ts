@@ -0,0 +1,47 @@
+import { useEffect, useState } from "react";
+import { LanguageCode } from "../types";
+import { getSettings, subscribeSettings } from "./settings";
+import { TRANSLATIONS, TranslationKey } from "./translations";
+
+export interface LanguageOption {
+  code: LanguageCode;
+  label: string; // Native name, shown in pickers
+  englishName: string; // Used when instructing the model
+  iso639: string; // Three-letter code for audio file metadata
+}
+
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'en', label: 'English', englishName: 'English', iso639: 'eng' },
+  { code: 'es', label: 'Español', englishName: 'Spanish', iso639: 'spa' },
+  { code: 'fr', label: 'Français', englishName: 'French', iso639: 'fra' },
+  { code: 'de', label: 'Deutsch', englishName: 'German', iso639: 'deu' },
+  { code: 'it', label: 'Italiano', englishName: 'Italian', iso639: 'ita' },
+  { code: 'pt', label: 'Português', englishName: 'Portuguese', iso639: 'por' },
+  { code: 'ja', label: '日本語', englishName: 'Japanese', iso639: 'jpn' },
+  { code: 'zh', label: '中文', englishName: 'Simplified Chinese', iso639: 'zho' },
+];
+
+export function getLanguage(code: LanguageCode = 'en'): LanguageOption {
+  return LANGUAGES.find(l => l.code === code) || LANGUAGES[0];
+}
+
+export function translate(language: LanguageCode, key: TranslationKey, vars: Record<string, string> = {}): string {
+  const template = TRANSLATIONS[language]?.[key] ?? TRANSLATIONS.en[key] ?? key;
+  return template.replace(/\{(\w+)\}/g, (match, name) => vars[name] ?? match);
+}
+
+/**
+ * UI strings in the user's chosen language, re-rendering when it changes.
+ */
+export function useTranslation() {
+  const [language, setLanguage] = useState<LanguageCode>(() => getSettings().language);
+
+  useEffect(() => subscribeSettings(settings => setLanguage(settings.language)), []);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const t = (key: TranslationKey, vars?: Record<string, string>) => translate(language, key, vars);
+  return { t, language };
+}
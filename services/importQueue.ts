@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { LanguageCode } from "../types";
+import { readCaptureMetadata } from "../utils/exif";
+import { normalizeImage } from "../utils/image";
+import { isAbortError } from "../utils/retry";
+import { identifyLandmark, providerRequiresNetwork } from "./ai";
+import { researchLandmark } from "./landmarks";
+import { getSettings } from "./settings";
+import { saveResult } from "./storage";
+
+export type ImportStatus = 'queued' | 'preparing' | 'identifying' | 'researching' | 'done' | 'error';
+
+export interface ImportItem {
+  id: string;
+  fileName: string;
+  status: ImportStatus;
+  thumbnailUrl?: string;
+  landmarkName?: string;
+  resultId?: string; // Journal entry once done
+  error?: string;
+}
+
+type ImportListener = (items: ImportItem[]) => void;
+
+const MAX_CONCURRENT = 2;
+
+// Rough share of the work finished when an item enters each stage
+export const IMPORT_PROGRESS: Record<ImportStatus, number> = {
+  queued: 0,
+  preparing: 0.1,
+  identifying: 0.35,
+  researching: 0.7,
+  done: 1,
+  error: 1,
+};
+
+const listeners = new Set<ImportListener>();
+const files = new Map<string, { file: File; language: LanguageCode; controller?: AbortController }>();
+let items: ImportItem[] = [];
+let running = 0;
+
+function setItems(next: ImportItem[]) {
+  items = next;
+  listeners.forEach(listener => listener(items));
+}
+
+function patchItem(id: string, patch: Partial<ImportItem>) {
+  if (!files.has(id)) return;
+  setItems(items.map(item => item.id === id ? { ...item, ...patch } : item));
+}
+
+/**
+ * One photo through the same pipeline as a single capture, except that the
+ * top candidate is trusted; the rest stay on the entry for "Not this one?".
+ */
+async function processItem(id: string): Promise<void> {
+  const entry = files.get(id);
+  if (!entry) return;
+  if (!navigator.onLine && providerRequiresNetwork) throw new Error("Needs a connection");
+  const controller = new AbortController();
+  entry.controller = controller;
+  const { signal } = controller;
+
+  const { imageMaxDimension, keepOriginalPhotos } = getSettings();
+  const [capture, photo] = await Promise.all([
+    entry.file.arrayBuffer().then(readCaptureMetadata),
+    normalizeImage(entry.file, { maxDimension: imageMaxDimension, keepOriginal: keepOriginalPhotos }),
+  ]);
+
+  patchItem(id, { status: 'identifying', thumbnailUrl: photo.thumbnailUrl });
+  const candidates = await identifyLandmark(photo.dataUrl, entry.language, capture || undefined, signal);
+  const { confidence, cues, ...info } = candidates[0];
+
+  patchItem(id, { status: 'researching', landmarkName: info.name });
+  const { result } = await researchLandmark(info, photo.originalUrl || photo.dataUrl, entry.language, {
+    capture: capture || undefined,
+    thumbnailUrl: photo.thumbnailUrl,
+    candidates,
+    candidateIndex: 0,
+  }, signal);
+
+  // Removed while in flight; drop the work instead of resurrecting it
+  if (signal.aborted || !files.has(id)) return;
+  await saveResult(result);
+  patchItem(id, { status: 'done', resultId: result.id });
+}
+
+function pump() {
+  while (running < MAX_CONCURRENT) {
+    const next = items.find(item => item.status === 'queued');
+    if (!next) return;
+    running++;
+    patchItem(next.id, { status: 'preparing' });
+    processItem(next.id)
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error(`Import of ${next.fileName} failed`, err);
+        patchItem(next.id, { status: 'error', error: err instanceof Error ? err.message : String(err) });
+      })
+      .finally(() => {
+        running--;
+        pump();
+      });
+  }
+}
+
+export function getImportQueue(): ImportItem[] {
+  return items;
+}
+
+export function subscribeImportQueue(listener: ImportListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Queue photos for background identification. Non-images are ignored.
+ */
+export function enqueuePhotos(photos: File[], language: LanguageCode) {
+  const added = photos
+    .filter(file => file.type.startsWith('image/') || /\.(heic|heif)$/i.test(file.name))
+    .map(file => {
+      const id = crypto.randomUUID();
+      files.set(id, { file, language });
+      return { id, fileName: file.name, status: 'queued' as ImportStatus };
+    });
+  if (!added.length) return;
+  setItems([...items, ...added]);
+  pump();
+}
+
+export function retryImport(id: string) {
+  const item = items.find(entry => entry.id === id);
+  if (item?.status !== 'error') return;
+  patchItem(id, { status: 'queued', error: undefined });
+  pump();
+}
+
+export function removeImport(id: string) {
+  files.get(id)?.controller?.abort();
+  files.delete(id);
+  setItems(items.filter(item => item.id !== id));
+}
+
+export function clearFinishedImports() {
+  items.filter(item => item.status === 'done').forEach(item => files.delete(item.id));
+  setItems(items.filter(item => item.status !== 'done'));
+}
+
+/**
+ * Live import queue for components.
+ */
+export function useImportQueue(): ImportItem[] {
+  const [queue, setQueue] = useState<ImportItem[]>(getImportQueue);
+  useEffect(() => subscribeImportQueue(setQueue), []);
+  return queue;
+}
@@ -0,0 +1,38 @@
+import { CacheStatus, LandmarkInfo, LandmarkResult, LanguageCode } from "../types";
+import { getCachedLandmarkHistory, getCachedRelatedLandmarks } from "./cache";
+
+/**
+ * Research an identified landmark and assemble its journal entry. Callers
+ * decide when to save it; extras override any of the defaults.
+ */
+export async function researchLandmark(
+  info: LandmarkInfo,
+  image: string,
+  language: LanguageCode,
+  extras: Partial<LandmarkResult> = {},
+  signal?: AbortSignal
+): Promise<{ result: LandmarkResult; cacheStatus: CacheStatus }> {
+  const [historyData, relatedData] = await Promise.all([
+    getCachedLandmarkHistory(info, language, { signal }),
+    getCachedRelatedLandmarks(info, language, { signal })
+  ]);
+
+  const result: LandmarkResult = {
+    id: crypto.randomUUID(),
+    info,
+    history: historyData.value.text,
+    sources: historyData.value.sources,
+    relatedLandmarks: relatedData.value,
+    imageUrl: image,
+    timestamp: Date.now(),
+    isBookmarked: false,
+    isDownloaded: false,
+    language,
+    ...extras
+  };
+  const cacheStatus = {
+    fromCache: historyData.fromCache && relatedData.fromCache,
+    cachedAt: Math.min(historyData.cachedAt, relatedData.cachedAt)
+  };
+  return { result, cacheStatus };
+}
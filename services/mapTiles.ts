@@ -0,0 +1,206 @@
+import { LandmarkResult } from "../types";
+import { distanceMeters } from "../utils/geo";
+import { getSettings } from "./settings";
+import { clearTiles, deleteTiles, listTileKeys, listTileUsage, readTile, StoredTile, writeTiles } from "./storage";
+
+export const MAP_TILE_URL = 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png';
+
+const SUBDOMAINS = 'abc';
+const KM_PER_DEGREE = 111.32;
+const MAX_LATITUDE = 85.0511; // Web Mercator stops here
+const FETCH_BATCH = 6;
+// Guards against a wide radius at street zoom fetching thousands of tiles
+const MAX_TILES_PER_LANDMARK = 600;
+
+export interface TileCoords {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface TilePrefetchReport {
+  fetched: number;
+  failed: number;
+  skipped: number; // Farthest tiles left out by the per-landmark cap
+}
+
+export interface TileUsage {
+  tiles: number;
+  bytes: number;
+}
+
+/**
+ * The parts of Leaflet the basemap layer needs; Leaflet itself is loaded
+ * from a CDN as a global.
+ */
+export interface LeafletTileLayer {
+  addTo(map: unknown): this;
+  getTileUrl(coords: TileCoords): string;
+}
+
+type TileDone = (error: unknown, tile: HTMLImageElement) => void;
+
+export interface LeafletTiles {
+  TileLayer: {
+    extend(methods: { createTile(this: LeafletTileLayer, coords: TileCoords, done: TileDone): HTMLImageElement }): new (url: string, options: { maxZoom: number }) => LeafletTileLayer;
+  };
+}
+
+function tileKey({ z, x, y }: TileCoords): string {
+  return `${z}/${x}/${y}`;
+}
+
+function tileUrl({ z, x, y }: TileCoords): string {
+  return MAP_TILE_URL
+    .replace('{s}', SUBDOMAINS[(x + y) % SUBDOMAINS.length])
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y))
+    .replace('{r}', '');
+}
+
+function lngToTileX(longitude: number, zoom: number): number {
+  return Math.floor((longitude + 180) / 360 * 2 ** zoom);
+}
+
+function latToTileY(latitude: number, zoom: number): number {
+  const rad = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude)) * Math.PI / 180;
+  return Math.floor((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2 * 2 ** zoom);
+}
+
+function tileXToLng(x: number, zoom: number): number {
+  return x / 2 ** zoom * 360 - 180;
+}
+
+function tileYToLat(y: number, zoom: number): number {
+  return Math.atan(Math.sinh(Math.PI * (1 - 2 * y / 2 ** zoom))) * 180 / Math.PI;
+}
+
+// Zero for the tiles the point lies on, whatever their zoom
+function distanceToTile(latitude: number, longitude: number, { x, y, z }: TileCoords): number {
+  const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+  const nearestLat = clamp(latitude, tileYToLat(y + 1, z), tileYToLat(y, z));
+  const nearestLng = clamp(longitude, tileXToLng(x, z), tileXToLng(x + 1, z));
+  return distanceMeters(latitude, longitude, nearestLat, nearestLng);
+}
+
+/**
+ * Every tile covering a square of radiusKm around a point, lowest zoom first.
+ */
+export function tilesAround(latitude: number, longitude: number, radiusKm: number, minZoom: number, maxZoom: number): TileCoords[] {
+  const dLat = radiusKm / KM_PER_DEGREE;
+  const dLng = radiusKm / (KM_PER_DEGREE * Math.max(Math.cos(latitude * Math.PI / 180), 0.01));
+  const tiles: TileCoords[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const last = 2 ** z - 1;
+    const minX = Math.max(0, lngToTileX(longitude - dLng, z));
+    const maxX = Math.min(last, lngToTileX(longitude + dLng, z));
+    const minY = Math.max(0, latToTileY(latitude + dLat, z));
+    const maxY = Math.min(last, latToTileY(latitude - dLat, z));
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) tiles.push({ x, y, z });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Drop the least recently used tiles until the store fits the budget from settings.
+ */
+async function enforceBudget(): Promise<void> {
+  const budget = getSettings().mapTileBudgetMb * 1024 * 1024;
+  const usage = await listTileUsage();
+  let total = usage.reduce((sum, tile) => sum + tile.size, 0);
+  if (total <= budget) return;
+  const evicted: string[] = [];
+  for (const tile of usage.sort((a, b) => a.lastUsed - b.lastUsed)) {
+    if (total <= budget) break;
+    total -= tile.size;
+    evicted.push(tile.key);
+  }
+  await deleteTiles(evicted);
+}
+
+/**
+ * Store the map tiles around a point for offline use, using the radius and
+ * zoom range from settings. Tiles already stored are not fetched again. When
+ * the area needs more tiles than the cap, the ones nearest the point are kept
+ * at every zoom and the rest are counted as skipped.
+ */
+export async function prefetchTilesAround(latitude: number, longitude: number, signal?: AbortSignal): Promise<TilePrefetchReport> {
+  const { mapTileRadiusKm, mapTileMinZoom, mapTileMaxZoom } = getSettings();
+  const stored = new Set(await listTileKeys());
+  const wanted = tilesAround(latitude, longitude, mapTileRadiusKm, mapTileMinZoom, mapTileMaxZoom)
+    .map(tile => ({ tile, distance: distanceToTile(latitude, longitude, tile) }))
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ tile }) => tile);
+  const missing = wanted
+    .slice(0, MAX_TILES_PER_LANDMARK)
+    .filter(tile => !stored.has(tileKey(tile)));
+
+  const report: TilePrefetchReport = { fetched: 0, failed: 0, skipped: Math.max(0, wanted.length - MAX_TILES_PER_LANDMARK) };
+  for (let i = 0; i < missing.length; i += FETCH_BATCH) {
+    signal?.throwIfAborted();
+    const batch = await Promise.all(missing.slice(i, i + FETCH_BATCH).map(async (tile): Promise<StoredTile | null> => {
+      try {
+        const response = await fetch(tileUrl(tile), { signal });
+        if (!response.ok) throw new Error(`Tile request failed with ${response.status}`);
+        return { key: tileKey(tile), blob: await response.blob() };
+      } catch (err) {
+        if (signal?.aborted) throw err;
+        return null;
+      }
+    }));
+    const fetched = batch.filter((tile): tile is StoredTile => tile !== null);
+    await writeTiles(fetched);
+    report.fetched += fetched.length;
+    report.failed += batch.length - fetched.length;
+  }
+  await enforceBudget();
+  return report;
+}
+
+/**
+ * Prefetch tiles for a journal entry, if it has coordinates and we are online.
+ */
+export async function prefetchLandmarkTiles(result: LandmarkResult, signal?: AbortSignal): Promise<TilePrefetchReport | null> {
+  const { latitude, longitude } = result.info;
+  if (latitude == null || longitude == null || !navigator.onLine) return null;
+  return prefetchTilesAround(latitude, longitude, signal);
+}
+
+export async function getTileUsage(): Promise<TileUsage> {
+  const usage = await listTileUsage();
+  return { tiles: usage.length, bytes: usage.reduce((sum, tile) => sum + tile.size, 0) };
+}
+
+export async function clearMapTiles(): Promise<void> {
+  await clearTiles();
+}
+
+/**
+ * The basemap layer. Tiles stored for offline use are served from IndexedDB;
+ * everything else comes from the network as usual.
+ */
+export function createBaseTileLayer(L: LeafletTiles): LeafletTileLayer {
+  const OfflineTileLayer = L.TileLayer.extend({
+    createTile(coords, done) {
+      const tile = document.createElement('img');
+      tile.alt = '';
+      tile.setAttribute('role', 'presentation');
+      const networkUrl = this.getTileUrl(coords);
+
+      readTile(tileKey(coords)).catch(() => null).then(blob => {
+        const src = blob ? URL.createObjectURL(blob) : networkUrl;
+        tile.onload = () => {
+          if (blob) URL.revokeObjectURL(src);
+          done(null, tile);
+        };
+        tile.onerror = (event) => done(event, tile);
+        tile.src = src;
+      });
+      return tile;
+    }
+  });
+  return new OfflineTileLayer(MAP_TILE_URL, { maxZoom: 19 });
+}
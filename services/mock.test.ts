@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { mockProvider } from "./mock";
+
+describe("mockProvider.searchLandmarkByName", () => {
+  it("finds fixtures by name", async () => {
+    expect((await mockProvider.searchLandmarkByName("eiffel tower")).name).toBe("Eiffel Tower");
+  });
+
+  it("does not map non-Latin names onto the first fixture", async () => {
+    expect((await mockProvider.searchLandmarkByName("東京タワー", "ja")).name).toBe("東京タワー");
+    expect((await mockProvider.searchLandmarkByName("故宫", "zh")).name).toBe("故宫");
+  });
+});
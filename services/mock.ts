@@ -0,0 +1,263 @@
+import { CaptureMetadata, ImageStyle, LandmarkAIProvider, LandmarkCandidate, LandmarkHistory, LandmarkInfo, LanguageCode, NarrationLength, NarrationOptions, NarrationPersona, RelatedLandmark } from "../types";
+import { encodeBase64 } from "../utils/audio";
+import { crc32 } from "../utils/crc32";
+import { distanceMeters } from "../utils/geo";
+import { sleep } from "../utils/retry";
+import { splitSentences } from "../utils/transcript";
+import { LANDMARK_FIXTURES, LandmarkFixture } from "./fixtures";
+import { AppError, isAppErrorKind } from "./errors";
+import { DEFAULT_LENGTH, DEFAULT_PERSONA } from "./narration";
+import { DEFAULT_VOICE } from "./voices";
+
+const MOCK_LATENCY_MS = 400;
+const NEARBY_FIXTURE_METERS = 5000;
+const SAMPLE_RATE = 24000;
+
+// `?mockError=quota` (or any other kind) makes lookups fail that way, to exercise the recovery screens.
+// Unknown kinds are ignored, since the error screen has nothing to show for them.
+const REQUESTED_ERROR = typeof window !== 'undefined'
+  ? new URLSearchParams(window.location.search).get('mockError')
+  : null;
+const SIMULATED_ERROR = isAppErrorKind(REQUESTED_ERROR) ? REQUESTED_ERROR : null;
+if (REQUESTED_ERROR && !SIMULATED_ERROR) console.warn(`Ignoring unknown mockError "${REQUESTED_ERROR}"`);
+
+function failIfSimulated() {
+  if (SIMULATED_ERROR) throw new AppError(SIMULATED_ERROR, `Simulated ${SIMULATED_ERROR} error`);
+}
+
+const LENGTH_SENTENCES: Record<NarrationLength, number> = { short: 4, medium: 10, long: 24 };
+
+const PERSONA_OPENERS: Record<NarrationPersona, string> = {
+  'storyteller': 'Picture yourself standing here centuries ago.',
+  'scholarly': 'Let us turn to the historical record.',
+  'kid-friendly': 'Hey explorers, look up and take it all in!',
+  'dramatic': 'Stop. Listen. History is speaking.',
+};
+
+
+// FNV-1a, so the same input always maps to the same fixture
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function findFixture(name: string): LandmarkFixture | undefined {
+  const query = normalize(name);
+  // An empty query is contained in every name, so it must not match any
+  if (!query) return undefined;
+  return LANDMARK_FIXTURES.find(f => {
+    const candidate = normalize(f.info.name);
+    return candidate === query || candidate.includes(query) || query.includes(candidate);
+  });
+}
+
+// Landmarks outside the fixture set still get a plausible, stable answer
+function genericFixture(name: string): LandmarkFixture {
+  return {
+    info: {
+      name,
+      description: `${name} is a notable site rendered by the offline mock provider.`,
+      location: "Unknown",
+    },
+    history: `${name} has no canned chronicle yet.
+
+## Origins
+This entry was produced by the mock AI provider for offline development.
+
+## Modern Day
+Add a fixture to services/fixtures.ts to give ${name} a richer story.`,
+    sources: [],
+    related: LANDMARK_FIXTURES.slice(0, 2).map(f => ({
+      name: f.info.name,
+      reason: "A well-documented landmark available offline.",
+    })),
+    cues: [],
+  };
+}
+
+function fixtureFor(name: string): LandmarkFixture {
+  return findFixture(name) || genericFixture(name);
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1, b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * Encode a small 16:9 two-tone gradient PNG. Pixel data is stored uncompressed,
+ * which keeps the encoder tiny while still producing a valid file.
+ */
+function placeholderPng(seed: number, style: ImageStyle): string {
+  const width = 160, height = 90;
+  const hue = seed % 360;
+  const top = hslToRgb(hue, style === 'abstract' ? 0.9 : 0.45, 0.55);
+  const bottom = hslToRgb((hue + (style === 'abstract' ? 180 : 30)) % 360, 0.5, 0.15);
+
+  const raw = new Uint8Array(height * (1 + width * 3));
+  for (let y = 0; y < height; y++) {
+    const t = y / (height - 1);
+    const row = y * (1 + width * 3);
+    raw[row] = 0; // filter: none
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 3; c++) {
+        raw[row + 1 + x * 3 + c] = Math.round(top[c] * (1 - t) + bottom[c] * t);
+      }
+    }
+  }
+
+  // zlib stream with a single stored deflate block (raw fits in 65535 bytes)
+  const zlib = new Uint8Array(2 + 5 + raw.length + 4);
+  const zview = new DataView(zlib.buffer);
+  zlib[0] = 0x78;
+  zlib[1] = 0x01;
+  zlib[2] = 0x01;
+  zview.setUint16(3, raw.length, true);
+  zview.setUint16(5, ~raw.length & 0xffff, true);
+  zlib.set(raw, 7);
+  zview.setUint32(7 + raw.length, adler32(raw));
+
+  const header = new Uint8Array(13);
+  const hview = new DataView(header.buffer);
+  hview.setUint32(0, width);
+  hview.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolor
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib),
+    pngChunk('IEND', new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return `data:image/png;base64,${encodeBase64(png)}`;
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+  return [Math.round(f(0) * 255), Math.round(f(8) * 255), Math.round(f(4) * 255)];
+}
+
+/**
+ * Synthesize 24 kHz 16-bit mono PCM, the same format the Gemini TTS model returns.
+ * A soft chime per sentence stands in for speech, lasting as long as the
+ * sentence would take to read so transcript timing lines up.
+ */
+function synthesizePcm(script: string, voice: string): string {
+  const sentences = splitSentences(script);
+  const noteLengths = (sentences.length ? sentences : [script])
+    .map(s => Math.max(1, Math.round(s.length * 0.06 * SAMPLE_RATE)));
+  const pcm = new Int16Array(noteLengths.reduce((sum, n) => sum + n, 0));
+
+  let start = 0;
+  noteLengths.forEach((noteFrames, note) => {
+    const freq = 330 + (hashString(`${voice} ${sentences[note] || script}`) % 8) * 55;
+    for (let i = 0; i < noteFrames; i++) {
+      const local = i / SAMPLE_RATE;
+      const envelope = Math.exp(-3 * (local % 0.6));
+      pcm[start + i] = Math.round(Math.sin(2 * Math.PI * freq * local) * envelope * 0.3 * 32767);
+    }
+    start += noteFrames;
+  });
+  return encodeBase64(new Uint8Array(pcm.buffer));
+}
+
+/**
+ * Rank every fixture for a photo. A photo geotagged near a fixture picks it
+ * confidently, mirroring how the real model uses the hint; otherwise the
+ * image hash decides, and roughly half of photos come back unsure.
+ */
+async function identifyLandmark(base64Image: string, language?: LanguageCode, capture?: CaptureMetadata, signal?: AbortSignal): Promise<LandmarkCandidate[]> {
+  await sleep(MOCK_LATENCY_MS, signal);
+  failIfSimulated();
+  const hash = hashString(base64Image);
+  const nearby = capture?.latitude != null && capture.longitude != null
+    ? LANDMARK_FIXTURES.find(f => f.info.latitude != null && f.info.longitude != null &&
+        distanceMeters(capture.latitude!, capture.longitude!, f.info.latitude, f.info.longitude) <= NEARBY_FIXTURE_METERS)
+    : undefined;
+  const best = nearby || LANDMARK_FIXTURES[hash % LANDMARK_FIXTURES.length];
+  const topConfidence = nearby ? 0.92 : 0.35 + (hash % 60) / 100;
+  const ranked = [best, ...LANDMARK_FIXTURES.filter(f => f !== best)];
+  return ranked.map((fixture, rank) => ({
+    ...fixture.info,
+    confidence: rank === 0 ? topConfidence : (1 - topConfidence) / (rank + 1),
+    cues: [...fixture.cues],
+  }));
+}
+
+async function searchLandmarkByName(name: string, language?: LanguageCode, signal?: AbortSignal): Promise<LandmarkInfo> {
+  await sleep(MOCK_LATENCY_MS, signal);
+  failIfSimulated();
+  return { ...fixtureFor(name).info };
+}
+
+async function getLandmarkHistory(landmarkName: string, language?: LanguageCode, signal?: AbortSignal): Promise<LandmarkHistory> {
+  await sleep(MOCK_LATENCY_MS, signal);
+  const fixture = fixtureFor(landmarkName);
+  return { text: fixture.history, sources: [...fixture.sources] };
+}
+
+async function getRelatedLandmarks(landmarkName: string, location: string, language?: LanguageCode, signal?: AbortSignal): Promise<RelatedLandmark[]> {
+  await sleep(MOCK_LATENCY_MS, signal);
+  return fixtureFor(landmarkName).related.map(r => ({ ...r }));
+}
+
+async function generateLandmarkImage(landmarkName: string, style: ImageStyle = 'cinematic', signal?: AbortSignal): Promise<string> {
+  await sleep(MOCK_LATENCY_MS, signal);
+  return placeholderPng(hashString(normalize(landmarkName)), style);
+}
+
+// Fixture chronicles are English, so the script ignores the requested language
+async function generateNarrationScript(history: string, options: NarrationOptions = {}, signal?: AbortSignal): Promise<string> {
+  await sleep(MOCK_LATENCY_MS, signal);
+  const { persona = DEFAULT_PERSONA, length = DEFAULT_LENGTH } = options;
+  const sentences = splitSentences(history.replace(/^#+.*$/gm, ''));
+  return [PERSONA_OPENERS[persona], ...sentences.slice(0, LENGTH_SENTENCES[length])].join(' ');
+}
+
+async function generateNarration(script: string, options: NarrationOptions = {}, signal?: AbortSignal): Promise<string> {
+  await sleep(MOCK_LATENCY_MS, signal);
+  return synthesizePcm(script, options.voice || DEFAULT_VOICE);
+}
+
+export const mockProvider: LandmarkAIProvider = {
+  name: 'mock',
+  requiresNetwork: false,
+  identifyLandmark,
+  searchLandmarkByName,
+  getLandmarkHistory,
+  getRelatedLandmarks,
+  generateLandmarkImage,
+  generateNarrationScript,
+  generateNarration,
+};
@@ -0,0 +1,17 @@
+import { LanguageCode, NarrationLength, NarrationPersona } from "../types";
+
+export const NARRATION_PERSONAS: NarrationPersona[] = ['storyteller', 'scholarly', 'kid-friendly', 'dramatic'];
+
+export const NARRATION_LENGTHS: NarrationLength[] = ['short', 'medium', 'long'];
+
+export const DEFAULT_PERSONA: NarrationPersona = 'storyteller';
+
+export const DEFAULT_LENGTH: NarrationLength = 'short';
+
+/**
+ * Stable id for a studio variant, so asking for the same combination twice
+ * replays the stored audio instead of calling the model again.
+ */
+export function narrationVariantId(language: LanguageCode, voice: string, persona: NarrationPersona, length: NarrationLength): string {
+  return [language, voice, persona, length].join(':');
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { dropOfflineParts, isFullyOffline } from "./offlineDownload";
+import { LandmarkResult } from "../types";
+
+const downloaded = {
+  id: "a",
+  timestamp: 1,
+  history: "",
+  imageUrl: "",
+  info: { name: "Louvre" },
+  isDownloaded: true,
+  storedNarration: true,
+  storedAiImages: ["cinematic", "abstract"],
+  offline: { savedAt: 1, missing: [] },
+} as unknown as LandmarkResult;
+
+describe("isFullyOffline", () => {
+  it("counts a tour whose download stored every part", () => {
+    expect(isFullyOffline(downloaded)).toBe(true);
+  });
+
+  it("drops once a regeneration throws away the stored narration", () => {
+    const regenerated: LandmarkResult = {
+      ...downloaded,
+      storedNarration: undefined,
+      offline: dropOfflineParts(downloaded, ["narration", "related"]),
+    };
+
+    expect(regenerated.offline?.missing).toEqual(["narration", "related"]);
+    expect(isFullyOffline(regenerated)).toBe(false);
+  });
+
+  it("does not trust a complete manifest when stored parts are gone", () => {
+    expect(isFullyOffline({ ...downloaded, storedAiImages: ["cinematic"] })).toBe(false);
+  });
+});
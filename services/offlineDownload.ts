@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+import { ImageStyle, LandmarkResult, OfflineManifest, OfflinePart } from "../types";
+import { generateNarration, generateNarrationScript } from "./ai";
+import { getCachedLandmarkByName, getCachedLandmarkHistory, getCachedLandmarkImage, getCachedRelatedLandmarks } from "./cache";
+import { prefetchLandmarkTiles } from "./mapTiles";
+import { getSettings } from "./settings";
+import { getResult, updateResult } from "./storage";
+
+export type OfflineJobStatus = 'running' | 'done' | 'partial' | 'cancelled';
+
+export interface OfflineJob {
+  resultId: string;
+  status: OfflineJobStatus;
+  parts: OfflinePart[]; // Everything this tour needs, in download order
+  completed: number; // Parts attempted so far
+  current?: OfflinePart;
+  failed: OfflinePart[];
+}
+
+type OfflineJobListener = (jobs: Record<string, OfflineJob>) => void;
+
+// Related landmarks become stubs: name lookup, chronicle and their own suggestions
+const MAX_RELATED_STUBS = 3;
+
+const listeners = new Set<OfflineJobListener>();
+const controllers = new Map<string, AbortController>();
+let jobs: Record<string, OfflineJob> = {};
+
+function setJob(job: OfflineJob) {
+  jobs = { ...jobs, [job.resultId]: job };
+  listeners.forEach(listener => listener(jobs));
+}
+
+function patchJob(id: string, patch: Partial<OfflineJob>) {
+  if (jobs[id]) setJob({ ...jobs[id], ...patch });
+}
+
+function partsFor(result: LandmarkResult): OfflinePart[] {
+  const parts: OfflinePart[] = ['narration', 'cinematic', 'abstract'];
+  if (result.relatedLandmarks?.length) parts.push('related');
+  if (result.info.latitude != null && result.info.longitude != null) parts.push('map');
+  return parts;
+}
+
+function hasImage(result: LandmarkResult, style: ImageStyle): boolean {
+  return !!result.aiImages?.[style] || !!result.storedAiImages?.includes(style);
+}
+
+async function saveImage(result: LandmarkResult, style: ImageStyle, signal: AbortSignal) {
+  if (hasImage(result, style)) return;
+  const { value } = await getCachedLandmarkImage(result.info.name, style, { signal });
+  await updateResult(result.id, existing => ({ aiImages: { ...existing.aiImages, [style]: value } }));
+}
+
+async function saveNarration(result: LandmarkResult, signal: AbortSignal) {
+  if (result.audioBase64 || result.storedNarration) return;
+  const options = { language: result.language || 'en', voice: getSettings().narrationVoice };
+  const script = await generateNarrationScript(result.history, options, signal);
+  const audioBase64 = await generateNarration(script, options, signal);
+  await updateResult(result.id, { audioBase64, narrationScript: script });
+}
+
+// Warms the content cache exactly as "Explore related" reads it, minus the image
+async function saveRelatedStubs(result: LandmarkResult, signal: AbortSignal) {
+  const language = result.language || 'en';
+  const outcomes = await Promise.allSettled((result.relatedLandmarks || []).slice(0, MAX_RELATED_STUBS).map(async related => {
+    const { value: info } = await getCachedLandmarkByName(related.name, language, { signal });
+    await Promise.all([
+      getCachedLandmarkHistory(info, language, { signal }),
+      getCachedRelatedLandmarks(info, language, { signal }),
+    ]);
+  }));
+  const failure = outcomes.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+  if (failure) throw failure.reason;
+}
+
+async function saveMapTiles(result: LandmarkResult, signal: AbortSignal) {
+  const report = await prefetchLandmarkTiles(result, signal);
+  if (!report) throw new Error("Map tiles need a connection");
+  if (report.skipped) console.warn(`Map around ${result.info.name} was cut short by ${report.skipped} tiles; lower the radius or zoom to store it all`);
+  if (report.failed) throw new Error(`${report.failed} map tiles failed to download`);
+}
+
+const STEPS: Record<OfflinePart, (result: LandmarkResult, signal: AbortSignal) => Promise<void>> = {
+  narration: saveNarration,
+  cinematic: (result, signal) => saveImage(result, 'cinematic', signal),
+  abstract: (result, signal) => saveImage(result, 'abstract', signal),
+  related: saveRelatedStubs,
+  map: saveMapTiles,
+};
+
+/**
+ * True when the last offline download stored every part of the tour and the
+ * narration and reimaginings it stored are still on the entry.
+ */
+export function isFullyOffline(result: LandmarkResult): boolean {
+  return !!result.isDownloaded && result.offline?.missing.length === 0 &&
+    !!(result.audioBase64 || result.storedNarration) && hasImage(result, 'cinematic') && hasImage(result, 'abstract');
+}
+
+/**
+ * The entry's offline manifest with parts an edit threw away marked missing,
+ * so downloading again fetches them.
+ */
+export function dropOfflineParts(result: LandmarkResult, parts: OfflinePart[]): OfflineManifest | undefined {
+  if (!result.offline) return undefined;
+  const missing = result.offline.missing;
+  return { ...result.offline, missing: [...missing, ...parts.filter(part => !missing.includes(part))] };
+}
+
+/**
+ * Download everything a tour needs offline. Parts already stored are skipped,
+ * so running it again retries only what failed. Failures do not stop the job;
+ * they are recorded on the entry as missing parts.
+ */
+export async function startOfflineDownload(result: LandmarkResult): Promise<OfflineJob> {
+  const running = jobs[result.id];
+  if (running?.status === 'running') return running;
+
+  const controller = new AbortController();
+  controllers.set(result.id, controller);
+  const { signal } = controller;
+  // Removing the download or starting it again replaces the controller; from
+  // then on this run must leave the job and the controller map alone
+  const isCurrent = () => controllers.get(result.id) === controller;
+  const patchOwnJob = (patch: Partial<OfflineJob>) => {
+    if (isCurrent()) patchJob(result.id, patch);
+  };
+  const finish = (patch: Partial<OfflineJob>) => {
+    patchOwnJob({ ...patch, current: undefined });
+    if (isCurrent()) controllers.delete(result.id);
+    return jobs[result.id];
+  };
+  const parts = partsFor(result);
+  setJob({ resultId: result.id, status: 'running', parts, completed: 0, failed: [] });
+
+  try {
+    await updateResult(result.id, { isDownloaded: true });
+  } catch (err) {
+    finish({ status: 'cancelled' });
+    throw err;
+  }
+  const failed: OfflinePart[] = [];
+  for (const [index, part] of parts.entries()) {
+    if (signal.aborted) break;
+    patchOwnJob({ current: part, completed: index });
+    try {
+      // Re-read so each step sees what earlier steps stored
+      const latest = await getResult(result.id);
+      if (!latest) break;
+      await STEPS[part](latest, signal);
+    } catch (err) {
+      if (signal.aborted) break;
+      console.error(`Offline download of ${part} for ${result.info.name} failed`, err);
+      failed.push(part);
+      patchOwnJob({ failed: [...failed] });
+    }
+  }
+
+  if (signal.aborted) return finish({ status: 'cancelled' });
+  try {
+    await updateResult(result.id, { offline: { savedAt: Date.now(), missing: failed } });
+  } catch (err) {
+    finish({ status: 'cancelled' });
+    throw err;
+  }
+  return finish({ status: failed.length ? 'partial' : 'done', completed: parts.length });
+}
+
+/**
+ * Stop a running download and unmark the entry. Media already stored stays
+ * on the entry and is reused by the next download.
+ */
+export async function removeOfflineDownload(id: string): Promise<void> {
+  controllers.get(id)?.abort();
+  controllers.delete(id);
+  if (jobs[id]) patchJob(id, { status: 'cancelled', current: undefined });
+  await updateResult(id, { isDownloaded: false, offline: undefined });
+}
+
+export function getOfflineJobs(): Record<string, OfflineJob> {
+  return jobs;
+}
+
+export function subscribeOfflineJobs(listener: OfflineJobListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Live offline download jobs for components, keyed by journal entry id.
+ */
+export function useOfflineJobs(): Record<string, OfflineJob> {
+  const [current, setCurrent] = useState<Record<string, OfflineJob>>(getOfflineJobs);
+  useEffect(() => subscribeOfflineJobs(setCurrent), []);
+  return current;
+}
@@ -0,0 +1,257 @@
+import { useEffect, useState } from "react";
+import { LandmarkResult } from "../types";
+import { decodeBase64, pcmToWav } from "../utils/audio";
+import { isAbortError } from "../utils/retry";
+import { generateNarration, generateNarrationScript, providerRequiresNetwork } from "./ai";
+import { narrationMetadata } from "./audioExport";
+import { getSettings } from "./settings";
+import { getResult, readAudio, subscribe, updateResult } from "./storage";
+
+export interface PlaylistState {
+  queue: LandmarkResult[];
+  currentIndex: number; // -1 until something has been started
+  isPlaying: boolean;
+  isLoading: boolean;
+  currentTime: number;
+  duration: number;
+}
+
+type PlaylistListener = (state: PlaylistState) => void;
+
+const SEEK_STEP_SECONDS = 10;
+
+const listeners = new Set<PlaylistListener>();
+let state: PlaylistState = { queue: [], currentIndex: -1, isPlaying: false, isLoading: false, currentTime: 0, duration: 0 };
+let audio: HTMLAudioElement | null = null;
+let objectUrl: string | null = null;
+let loadToken = 0;
+let loadController: AbortController | null = null;
+
+function setState(patch: Partial<PlaylistState>) {
+  state = { ...state, ...patch };
+  listeners.forEach(listener => listener(state));
+}
+
+// Queued entries follow journal edits, e.g. narration generated in the tour view
+subscribe(updated => {
+  if (state.queue.some(item => item.id === updated.id)) {
+    setState({ queue: state.queue.map(item => item.id === updated.id ? updated : item) });
+  }
+});
+
+// Drops the pending track and stops paying for narration nobody will hear
+function cancelLoad() {
+  loadToken++;
+  loadController?.abort();
+  loadController = null;
+}
+
+function updatePositionState() {
+  if (!('mediaSession' in navigator) || !audio || !Number.isFinite(audio.duration)) return;
+  navigator.mediaSession.setPositionState({
+    duration: audio.duration,
+    position: Math.min(audio.currentTime, audio.duration),
+    playbackRate: audio.playbackRate,
+  });
+}
+
+function registerMediaSession() {
+  if (!('mediaSession' in navigator)) return;
+  const session = navigator.mediaSession;
+  session.setActionHandler('play', () => togglePlaylist());
+  session.setActionHandler('pause', () => pausePlaylist());
+  session.setActionHandler('previoustrack', () => previousTrack());
+  session.setActionHandler('nexttrack', () => nextTrack());
+  session.setActionHandler('seekbackward', details => seekPlaylist(state.currentTime - (details.seekOffset || SEEK_STEP_SECONDS)));
+  session.setActionHandler('seekforward', details => seekPlaylist(state.currentTime + (details.seekOffset || SEEK_STEP_SECONDS)));
+  session.setActionHandler('seekto', details => {
+    if (details.seekTime !== undefined) seekPlaylist(details.seekTime);
+  });
+  session.setActionHandler('stop', () => clearPlaylist());
+}
+
+function showNowPlaying(result: LandmarkResult) {
+  if (!('mediaSession' in navigator)) return;
+  navigator.mediaSession.metadata = new MediaMetadata({
+    title: result.info.name,
+    artist: 'LuminaTour',
+    album: result.info.location,
+    artwork: result.imageUrl ? [{ src: result.imageUrl }] : [],
+  });
+}
+
+// A media element, unlike an AudioContext, keeps playing in the background and owns the lock screen
+function getAudio(): HTMLAudioElement {
+  if (!audio) {
+    const player = new Audio();
+    player.addEventListener('timeupdate', () => {
+      setState({ currentTime: player.currentTime });
+      updatePositionState();
+    });
+    player.addEventListener('loadedmetadata', () => {
+      setState({ duration: player.duration });
+      updatePositionState();
+    });
+    player.addEventListener('play', () => {
+      setState({ isPlaying: true });
+      if ('mediaSession' in navigator) navigator.mediaSession.playbackState = 'playing';
+    });
+    player.addEventListener('pause', () => {
+      setState({ isPlaying: false });
+      if ('mediaSession' in navigator) navigator.mediaSession.playbackState = 'paused';
+    });
+    player.addEventListener('ended', () => {
+      if (state.currentIndex < state.queue.length - 1) playIndex(state.currentIndex + 1);
+    });
+    audio = player;
+    registerMediaSession();
+  }
+  return audio;
+}
+
+/**
+ * Narration for a queued entry, generating and saving it for entries that
+ * were never opened long enough to get one.
+ */
+async function narrationFor(result: LandmarkResult, signal: AbortSignal): Promise<string> {
+  // The queued copy may predate the narration, so ask the journal for the latest
+  const stored = await readAudio(result) || await getResult(result.id).then(latest => latest && readAudio(latest));
+  if (stored) return stored;
+  if (result.isPlanned) throw new Error("Planned stop has no chronicle yet");
+  if (!navigator.onLine && providerRequiresNetwork) throw new Error("Narration needs a connection");
+
+  const options = { language: result.language || 'en', voice: getSettings().narrationVoice };
+  const narrationScript = await generateNarrationScript(result.history, options, signal);
+  const audioBase64 = await generateNarration(narrationScript, options, signal);
+  await updateResult(result.id, { audioBase64, narrationScript });
+  return audioBase64;
+}
+
+async function playIndex(index: number): Promise<void> {
+  const result = state.queue[index];
+  if (!result) return;
+  cancelLoad();
+  const token = loadToken;
+  const controller = new AbortController();
+  loadController = controller;
+  const player = getAudio();
+  player.pause();
+  setState({ currentIndex: index, isLoading: true, currentTime: 0, duration: 0 });
+  showNowPlaying(result);
+
+  try {
+    const audioBase64 = await narrationFor(result, controller.signal);
+    if (token !== loadToken) return;
+    if (objectUrl) URL.revokeObjectURL(objectUrl);
+    objectUrl = URL.createObjectURL(pcmToWav(decodeBase64(audioBase64), narrationMetadata(result)));
+    player.src = objectUrl;
+    await player.play();
+  } catch (err) {
+    // Autoplay was refused because generation outlived the tap; wait for the user
+    if (err instanceof DOMException && err.name === 'NotAllowedError') return;
+    if (isAbortError(err)) return;
+    console.error(`Playlist could not play ${result.info.name}`, err);
+    if (token === loadToken && index < state.queue.length - 1) playIndex(index + 1);
+  } finally {
+    if (token === loadToken) setState({ isLoading: false });
+  }
+}
+
+export function getPlaylist(): PlaylistState {
+  return state;
+}
+
+export function subscribePlaylist(listener: PlaylistListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Append entries to the queue, skipping any already in it.
+ */
+export function enqueue(results: LandmarkResult[]) {
+  const queued = new Set(state.queue.map(item => item.id));
+  setState({ queue: [...state.queue, ...results.filter(r => !queued.has(r.id))] });
+}
+
+/**
+ * Replace the queue and start from its first entry.
+ */
+export function playAll(results: LandmarkResult[]) {
+  setState({ queue: [...results] });
+  playIndex(0);
+}
+
+export function playTrack(index: number) {
+  playIndex(index);
+}
+
+export function togglePlaylist() {
+  const player = getAudio();
+  if (state.currentIndex === -1) {
+    playIndex(0);
+  } else if (!player.src) {
+    playIndex(state.currentIndex);
+  } else if (player.paused) {
+    player.play().catch(err => console.error("Playlist resume failed", err));
+  } else {
+    player.pause();
+  }
+}
+
+export function pausePlaylist() {
+  audio?.pause();
+}
+
+export function nextTrack() {
+  if (state.currentIndex < state.queue.length - 1) playIndex(state.currentIndex + 1);
+}
+
+// Like most players, "previous" restarts the current track unless it just began
+export function previousTrack() {
+  if (state.currentTime > 3 || state.currentIndex <= 0) seekPlaylist(0);
+  else playIndex(state.currentIndex - 1);
+}
+
+export function seekPlaylist(time: number) {
+  if (!audio || !Number.isFinite(audio.duration)) return;
+  audio.currentTime = Math.max(0, Math.min(time, audio.duration));
+  setState({ currentTime: audio.currentTime });
+}
+
+export function removeFromQueue(id: string) {
+  const index = state.queue.findIndex(item => item.id === id);
+  if (index === -1) return;
+  const queue = state.queue.filter(item => item.id !== id);
+  if (index === state.currentIndex) {
+    audio?.pause();
+    cancelLoad();
+    if (audio) audio.removeAttribute('src');
+    setState({ queue, currentIndex: -1, isLoading: false, currentTime: 0, duration: 0 });
+  } else {
+    setState({ queue, currentIndex: index < state.currentIndex ? state.currentIndex - 1 : state.currentIndex });
+  }
+}
+
+export function clearPlaylist() {
+  cancelLoad();
+  if (audio) {
+    audio.pause();
+    audio.removeAttribute('src');
+  }
+  if (objectUrl) URL.revokeObjectURL(objectUrl);
+  objectUrl = null;
+  if ('mediaSession' in navigator) navigator.mediaSession.metadata = null;
+  setState({ queue: [], currentIndex: -1, isPlaying: false, isLoading: false, currentTime: 0, duration: 0 });
+}
+
+/**
+ * Live playlist state for components.
+ */
+export function usePlaylist(): PlaylistState {
+  const [playlist, setPlaylist] = useState<PlaylistState>(getPlaylist);
+  useEffect(() => subscribePlaylist(setPlaylist), []);
+  return playlist;
+}
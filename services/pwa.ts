@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+type UpdateListener = (available: boolean) => void;
+
+const listeners = new Set<UpdateListener>();
+let waitingWorker: ServiceWorker | null = null;
+
+function setWaiting(worker: ServiceWorker | null) {
+  waitingWorker = worker;
+  listeners.forEach(listener => listener(!!worker));
+}
+
+// A worker that finished installing while another controls the page is a new build
+function trackInstalling(worker: ServiceWorker | null) {
+  worker?.addEventListener('statechange', () => {
+    if (worker.state === 'installed' && navigator.serviceWorker.controller) setWaiting(worker);
+  });
+}
+
+/**
+ * Register the service worker that caches the app shell. Only production
+ * builds ship one; the dev server has nothing to register.
+ */
+export async function registerServiceWorker(): Promise<void> {
+  if (!process.env.SERVICE_WORKER || !('serviceWorker' in navigator)) return;
+  // On a first visit the new worker claims the page, which is no reason to reload it
+  const hadController = !!navigator.serviceWorker.controller;
+  const registration = await navigator.serviceWorker.register('/sw.js');
+  if (registration.waiting && navigator.serviceWorker.controller) setWaiting(registration.waiting);
+  trackInstalling(registration.installing);
+  registration.addEventListener('updatefound', () => trackInstalling(registration.installing));
+
+  let reloading = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (!hadController || reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+  // Long-lived tabs would otherwise only notice a deploy on the next navigation
+  setInterval(() => registration.update().catch(() => undefined), UPDATE_CHECK_MS);
+}
+
+/**
+ * Switch to the waiting build; the page reloads once it takes control, as do
+ * other open tabs that were running the old one.
+ */
+export function applyUpdate() {
+  waitingWorker?.postMessage({ type: 'SKIP_WAITING' });
+}
+
+export function dismissUpdate() {
+  setWaiting(null);
+}
+
+export function subscribeUpdate(listener: UpdateListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useUpdateAvailable(): boolean {
+  const [available, setAvailable] = useState(() => !!waitingWorker);
+  useEffect(() => subscribeUpdate(setAvailable), []);
+  return available;
+}
@@ -0,0 +1,100 @@
+import { useEffect, useRef } from "react";
+import { LandmarkResult } from "../types";
+
+export type Route =
+  | { view: 'home' }
+  | { view: 'journal' }
+  | { view: 'saved' }
+  | { view: 'map' }
+  | { view: 'landmark'; id: string; name?: string }; // The name lets other devices look it up
+
+type RouteListener = (route: Route) => void;
+
+const VIEW_PATHS = {
+  home: '/',
+  journal: '/journal',
+  saved: '/saved',
+  map: '/map',
+} as const;
+
+const LANDMARK_PATH = /^\/landmark\/([^/]+)\/?$/;
+
+const listeners = new Set<RouteListener>();
+
+export function parseRoute(location: Location = window.location): Route {
+  const path = location.pathname.replace(/\/+$/, '') || '/';
+  const landmark = path.match(LANDMARK_PATH);
+  if (landmark) {
+    const name = new URLSearchParams(location.search).get('name');
+    return { view: 'landmark', id: decodeURIComponent(landmark[1]), name: name || undefined };
+  }
+  const view = (Object.keys(VIEW_PATHS) as (keyof typeof VIEW_PATHS)[]).find(key => VIEW_PATHS[key] === path);
+  return view ? { view } : { view: 'home' };
+}
+
+/**
+ * Path and query for a route. Unrelated query parameters, such as
+ * `?provider=mock`, carry over so navigation does not switch backends.
+ */
+export function routeUrl(route: Route): string {
+  const params = new URLSearchParams(window.location.search);
+  params.delete('name');
+  let path: string;
+  if (route.view === 'landmark') {
+    path = `/landmark/${encodeURIComponent(route.id)}`;
+    if (route.name) params.set('name', route.name);
+  } else {
+    path = VIEW_PATHS[route.view];
+  }
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+export function landmarkRoute(result: LandmarkResult): Route {
+  return { view: 'landmark', id: result.id, name: result.info.name };
+}
+
+/**
+ * Absolute link to a landmark for sharing, without this device's debug parameters.
+ */
+export function landmarkUrl(result: LandmarkResult): string {
+  const url = new URL(`/landmark/${encodeURIComponent(result.id)}`, window.location.origin);
+  url.searchParams.set('name', result.info.name);
+  return url.toString();
+}
+
+/**
+ * Push a route onto the browser history, or replace the current entry.
+ * Navigating to where we already are is a no-op.
+ */
+export function navigate(route: Route, options: { replace?: boolean } = {}) {
+  const url = routeUrl(route);
+  if (url === window.location.pathname + window.location.search) return;
+  if (options.replace) window.history.replaceState(null, '', url);
+  else window.history.pushState(null, '', url);
+}
+
+export function subscribeRoute(listener: RouteListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Only back/forward arrives here; pushState does not fire popstate
+if (typeof window !== 'undefined') {
+  window.addEventListener('popstate', () => {
+    const route = parseRoute();
+    listeners.forEach(listener => listener(route));
+  });
+}
+
+/**
+ * Call `onChange` whenever the user moves through the browser history.
+ */
+export function useRouteChanges(onChange: RouteListener) {
+  // Latest handler, so callers can pass a fresh closure every render
+  const handler = useRef(onChange);
+  handler.current = onChange;
+  useEffect(() => subscribeRoute(route => handler.current(route)), []);
+}
@@ -0,0 +1,46 @@
+import { AppSettings } from "../types";
+import { DEFAULT_VOICE } from "./voices";
+
+const SETTINGS_KEY = 'lumina_settings';
+
+const DEFAULT_SETTINGS: AppSettings = {
+  cacheTtlDays: 7,
+  language: 'en',
+  narrationVoice: DEFAULT_VOICE,
+  imageMaxDimension: 1600,
+  keepOriginalPhotos: false,
+  mapTileRadiusKm: 2,
+  mapTileMinZoom: 10,
+  mapTileMaxZoom: 16,
+  mapTileBudgetMb: 50,
+};
+
+type SettingsListener = (settings: AppSettings) => void;
+
+const listeners = new Set<SettingsListener>();
+
+export function getSettings(): AppSettings {
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  if (saved) {
+    try {
+      return { ...DEFAULT_SETTINGS, ...JSON.parse(saved) };
+    } catch (e) {
+      console.error("Failed to parse settings");
+    }
+  }
+  return { ...DEFAULT_SETTINGS };
+}
+
+export function updateSettings(patch: Partial<AppSettings>): AppSettings {
+  const updated = { ...getSettings(), ...patch };
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(updated));
+  listeners.forEach(listener => listener(updated));
+  return updated;
+}
+
+export function subscribeSettings(listener: SettingsListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,540 @@
+import { ImageStyle, LandmarkResult, NarrationChapter, NarrationVariant } from "../types";
+import { decodeBase64, encodeBase64 } from "../utils/audio";
+
+const DB_NAME = 'lumina_tour';
+const DB_VERSION = 5;
+const RESULTS_STORE = 'results';
+const IMAGES_STORE = 'images';
+const AUDIO_STORE = 'audio';
+const CACHE_STORE = 'cache';
+const TILES_STORE = 'tiles';
+const TILE_USAGE_STORE = 'tileUsage';
+const LEGACY_STORAGE_KEY = 'lumina_tour_history';
+const PCM_MIME_TYPE = 'audio/L16;rate=24000';
+const AI_IMAGE_STYLES: ImageStyle[] = ['cinematic', 'abstract'];
+
+/**
+ * Shape of a journal entry on disk. Heavy media lives in its own object store
+ * as a Blob and is referenced by id; remote image URLs are kept inline.
+ */
+interface StoredResult extends Omit<LandmarkResult, 'imageUrl' | 'thumbnailUrl' | 'audioBase64' | 'narrations' | 'chapters' | 'storedAiImages' | 'storedNarration'> {
+  imageUrl?: string;
+  imageId?: string;
+  thumbnailId?: string;
+  aiImageIds?: Partial<Record<ImageStyle, string>>;
+  audioId?: string;
+  narrations?: StoredClip<NarrationVariant>[];
+  chapters?: StoredClip<NarrationChapter>[];
+}
+
+type AudioClip = NarrationVariant | NarrationChapter;
+
+type StoredClip<T extends AudioClip> = Omit<T, 'audioBase64'> & { audioId: string };
+
+/**
+ * A model response kept by the content cache, optionally pinned to a location.
+ */
+export interface CacheEntry<T = unknown> {
+  key: string;
+  value: T;
+  cachedAt: number;
+  latitude?: number;
+  longitude?: number;
+  place?: string; // Coarse grid cell of the location, indexed for nearby lookups
+}
+
+/**
+ * One map tile image kept for offline use, keyed "z/x/y".
+ */
+export interface StoredTile {
+  key: string;
+  blob: Blob;
+}
+
+/**
+ * Size and last use of a stored tile, kept apart from the image so the
+ * budget can be checked without reading any tile.
+ */
+export interface TileUsageRecord {
+  key: string;
+  size: number;
+  lastUsed: number;
+}
+
+type JournalListener = (result: LandmarkResult) => void;
+
+const listeners = new Set<JournalListener>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+let migrationPromise: Promise<void> | null = null;
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RESULTS_STORE)) {
+          db.createObjectStore(RESULTS_STORE, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) db.createObjectStore(IMAGES_STORE);
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) db.createObjectStore(AUDIO_STORE);
+        if (!db.objectStoreNames.contains(CACHE_STORE)) db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+        const cacheStore = request.transaction!.objectStore(CACHE_STORE);
+        if (!cacheStore.indexNames.contains('place')) cacheStore.createIndex('place', 'place');
+        if (!db.objectStoreNames.contains(TILES_STORE)) db.createObjectStore(TILES_STORE, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(TILE_USAGE_STORE)) {
+          const usageStore = db.createObjectStore(TILE_USAGE_STORE, { keyPath: 'key' });
+          // Tiles stored before usage was tracked count as used when they were fetched
+          const cursorRequest = request.transaction!.objectStore(TILES_STORE).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            const tile: StoredTile & { storedAt?: number } = cursor.value;
+            usageStore.put({ key: tile.key, size: tile.blob.size, lastUsed: tile.storedAt ?? Date.now() });
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function pcmBlob(base64: string): Blob {
+  return new Blob([decodeBase64(base64)], { type: PCM_MIME_TYPE });
+}
+
+// Every studio variant or chapter of one entry shares a key prefix in its store, as do AI images
+function clipKeyRange(prefix: string): IDBKeyRange {
+  return IDBKeyRange.bound(`${prefix}:`, `${prefix}:\uffff`);
+}
+
+function audioKey(id: string, clip?: AudioClip): string {
+  if (!clip) return `${id}:narration`;
+  return 'id' in clip ? `${id}:narration:${clip.id}` : `${id}:chapter:${clip.index}`;
+}
+
+// Clips that were never read into the entry have no audio to write and keep their blob
+function packClips<T extends AudioClip>(id: string, clips: T[] | undefined) {
+  return (clips || []).map(clip => {
+    const { audioBase64, ...rest } = clip;
+    return {
+      stored: { ...rest, audioId: audioKey(id, clip) } as StoredClip<T>,
+      blob: audioBase64 ? pcmBlob(audioBase64) : null,
+    };
+  });
+}
+
+// Clips whose blob went missing are dropped rather than returned silent
+function savedClips<T extends AudioClip>(clips: StoredClip<T>[] | undefined, saved: Set<string>): Omit<StoredClip<T>, 'audioId'>[] {
+  return (clips || []).filter(clip => saved.has(clip.audioId)).map(({ audioId, ...clip }) => clip);
+}
+
+// Removes the clip blobs under a prefix that the entry no longer lists
+function pruneClips(tx: IDBTransaction, prefix: string, keep: Set<string>) {
+  const store = tx.objectStore(AUDIO_STORE);
+  const request = store.getAllKeys(clipKeyRange(prefix));
+  request.onsuccess = () => request.result.forEach(key => {
+    if (!keep.has(String(key))) store.delete(key);
+  });
+}
+
+function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+  return new Blob([decodeBase64(data)], { type: mimeType });
+}
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  return encodeBase64(new Uint8Array(await blob.arrayBuffer()));
+}
+
+async function blobToDataUrl(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return `data:${blob.type || 'application/octet-stream'};base64,${encodeBase64(bytes)}`;
+}
+
+interface PackedResult {
+  record: StoredResult;
+  image: Blob | null;
+  thumbnail: Blob | null;
+  audio: Blob | null;
+  clips: { stored: StoredClip<AudioClip>; blob: Blob | null }[];
+  aiImages: { id: string; blob: Blob }[];
+  droppedAiImages: string[];
+}
+
+// Blobs are built before any transaction opens so it never waits on other work
+function packResult(result: LandmarkResult): PackedResult {
+  const { imageUrl, thumbnailUrl, audioBase64, storedNarration, narrations, chapters, aiImages, storedAiImages, ...rest } = result;
+  const record: StoredResult = { ...rest };
+  const imageBlob = imageUrl.startsWith('data:') ? dataUrlToBlob(imageUrl) : null;
+  const thumbnailBlob = thumbnailUrl?.startsWith('data:') ? dataUrlToBlob(thumbnailUrl) : null;
+  const audioBlob = audioBase64 ? pcmBlob(audioBase64) : null;
+  const variantClips = packClips(result.id, narrations);
+  const chapterClips = packClips(result.id, chapters);
+  const aiImageBlobs: { id: string; blob: Blob }[] = [];
+  for (const [style, url] of Object.entries(aiImages || {}) as [ImageStyle, string][]) {
+    if (url.startsWith('data:')) {
+      const id = `${result.id}:ai:${style}`;
+      aiImageBlobs.push({ id, blob: dataUrlToBlob(url) });
+      record.aiImageIds = { ...record.aiImageIds, [style]: id };
+    } else {
+      record.aiImages = { ...record.aiImages, [style]: url };
+    }
+  }
+  // Saved reimaginings were never loaded into the entry, so they stay as they are
+  const droppedAiImages: string[] = [];
+  for (const style of AI_IMAGE_STYLES) {
+    const id = `${result.id}:ai:${style}`;
+    if (record.aiImageIds?.[style]) continue;
+    if (storedAiImages?.includes(style) && !aiImages?.[style]) record.aiImageIds = { ...record.aiImageIds, [style]: id };
+    else droppedAiImages.push(id);
+  }
+  if (imageBlob) record.imageId = `${result.id}:image`;
+  else record.imageUrl = imageUrl;
+  if (thumbnailBlob) record.thumbnailId = `${result.id}:thumbnail`;
+  if (audioBlob || storedNarration) record.audioId = audioKey(result.id);
+  if (variantClips.length) record.narrations = variantClips.map(c => c.stored);
+  if (chapterClips.length) record.chapters = chapterClips.map(c => c.stored);
+  return { record, image: imageBlob, thumbnail: thumbnailBlob, audio: audioBlob, clips: [...variantClips, ...chapterClips], aiImages: aiImageBlobs, droppedAiImages };
+}
+
+function putPacked(tx: IDBTransaction, { record, image, thumbnail, audio, clips, aiImages, droppedAiImages }: PackedResult) {
+  const { id } = record;
+  tx.objectStore(RESULTS_STORE).put(record);
+  if (image) tx.objectStore(IMAGES_STORE).put(image, `${id}:image`);
+  else tx.objectStore(IMAGES_STORE).delete(`${id}:image`);
+  if (thumbnail) tx.objectStore(IMAGES_STORE).put(thumbnail, `${id}:thumbnail`);
+  else tx.objectStore(IMAGES_STORE).delete(`${id}:thumbnail`);
+  droppedAiImages.forEach(imageId => tx.objectStore(IMAGES_STORE).delete(imageId));
+  aiImages.forEach(({ id: imageId, blob }) => tx.objectStore(IMAGES_STORE).put(blob, imageId));
+  if (audio) tx.objectStore(AUDIO_STORE).put(audio, audioKey(id));
+  else if (!record.audioId) tx.objectStore(AUDIO_STORE).delete(audioKey(id));
+  const keep = new Set(clips.map(({ stored }) => stored.audioId));
+  pruneClips(tx, `${id}:narration`, keep);
+  pruneClips(tx, `${id}:chapter`, keep);
+  clips.forEach(({ stored, blob }) => {
+    if (blob) tx.objectStore(AUDIO_STORE).put(blob, stored.audioId);
+  });
+}
+
+async function writeResult(result: LandmarkResult): Promise<void> {
+  const packed = packResult(result);
+  const db = await openDatabase();
+  const tx = db.transaction([RESULTS_STORE, IMAGES_STORE, AUDIO_STORE], 'readwrite');
+  putPacked(tx, packed);
+  await transactionDone(tx);
+}
+
+async function hydrate(db: IDBDatabase, record: StoredResult): Promise<LandmarkResult> {
+  const { imageId, thumbnailId, audioId, aiImageIds, imageUrl, narrations, chapters, ...rest } = record;
+  const tx = db.transaction([IMAGES_STORE, AUDIO_STORE], 'readonly');
+  const [imageBlob, thumbnailBlob, audioKeys] = await Promise.all([
+    imageId ? requestToPromise<Blob | undefined>(tx.objectStore(IMAGES_STORE).get(imageId)) : undefined,
+    thumbnailId ? requestToPromise<Blob | undefined>(tx.objectStore(IMAGES_STORE).get(thumbnailId)) : undefined,
+    requestToPromise(tx.objectStore(AUDIO_STORE).getAllKeys(clipKeyRange(record.id))),
+  ]);
+  const savedAudio = new Set(audioKeys.map(String));
+
+  const result: LandmarkResult = {
+    ...rest,
+    imageUrl: imageBlob ? await blobToDataUrl(imageBlob) : imageUrl || '',
+  };
+  if (thumbnailBlob) result.thumbnailUrl = await blobToDataUrl(thumbnailBlob);
+  // Audio is the bulk of the journal, so only what is saved is loaded; readAudio plays it
+  if (audioId && savedAudio.has(audioId)) result.storedNarration = true;
+  if (narrations?.length) result.narrations = savedClips(narrations, savedAudio);
+  if (chapters?.length) result.chapters = savedClips(chapters, savedAudio);
+  // Reimaginings are large and rarely shown, so only their presence is loaded
+  const storedAiImages = Object.keys(aiImageIds || {}) as ImageStyle[];
+  if (storedAiImages.length) result.storedAiImages = storedAiImages;
+  return result;
+}
+
+function notify(result: LandmarkResult) {
+  listeners.forEach(listener => listener(result));
+}
+
+/**
+ * Copy the old single-key localStorage journal into IndexedDB, once.
+ * The legacy key is only removed after every entry was written.
+ */
+function migrateFromLocalStorage(): Promise<void> {
+  if (!migrationPromise) {
+    migrationPromise = (async () => {
+      const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (!saved) return;
+      let legacy: LandmarkResult[];
+      try {
+        legacy = JSON.parse(saved);
+      } catch (e) {
+        console.error("Failed to parse legacy history, skipping migration");
+        return;
+      }
+      for (const item of legacy) {
+        await writeResult(item);
+      }
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    })();
+    // A failed attempt (quota, blocked upgrade) is retried on the next call
+    migrationPromise.catch(() => {
+      migrationPromise = null;
+    });
+  }
+  return migrationPromise;
+}
+
+/**
+ * Load the full journal, newest first, migrating legacy data on first use.
+ */
+export async function loadHistory(): Promise<LandmarkResult[]> {
+  await migrateFromLocalStorage();
+  const db = await openDatabase();
+  const tx = db.transaction(RESULTS_STORE, 'readonly');
+  const records = await requestToPromise<StoredResult[]>(tx.objectStore(RESULTS_STORE).getAll());
+  records.sort((a, b) => b.timestamp - a.timestamp);
+  return Promise.all(records.map(record => hydrate(db, record)));
+}
+
+export async function getResult(id: string): Promise<LandmarkResult | null> {
+  const db = await openDatabase();
+  const tx = db.transaction(RESULTS_STORE, 'readonly');
+  const record = await requestToPromise<StoredResult | undefined>(tx.objectStore(RESULTS_STORE).get(id));
+  return record ? hydrate(db, record) : null;
+}
+
+/**
+ * Run writes to one entry one after another, so an update always reads what
+ * the previous write stored instead of racing it and dropping its change.
+ */
+function queueWrite<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const next = (pendingWrites.get(id) || Promise.resolve()).catch(() => undefined).then(task);
+  pendingWrites.set(id, next);
+  const settled = () => {
+    if (pendingWrites.get(id) === next) pendingWrites.delete(id);
+  };
+  next.then(settled, settled);
+  return next;
+}
+
+export function saveResult(result: LandmarkResult): Promise<void> {
+  return queueWrite(result.id, async () => {
+    await writeResult(result);
+    notify(result);
+  });
+}
+
+/**
+ * Merge a partial change into a stored entry, e.g. toggling a bookmark. Pass a
+ * function to derive the change from the stored entry rather than a stale copy.
+ */
+export function updateResult(
+  id: string,
+  patch: Partial<LandmarkResult> | ((existing: LandmarkResult) => Partial<LandmarkResult>)
+): Promise<LandmarkResult | null> {
+  return queueWrite(id, async () => {
+    const existing = await getResult(id);
+    if (!existing) return null;
+    const changes = typeof patch === 'function' ? patch(existing) : patch;
+    const updated = { ...existing, ...changes, id, updatedAt: Date.now() };
+    await writeResult(updated);
+    notify(updated);
+    return updated;
+  });
+}
+
+export function deleteResult(id: string): Promise<void> {
+  return queueWrite(id, async () => {
+    const db = await openDatabase();
+    const tx = db.transaction([RESULTS_STORE, IMAGES_STORE, AUDIO_STORE], 'readwrite');
+    tx.objectStore(RESULTS_STORE).delete(id);
+    tx.objectStore(IMAGES_STORE).delete(`${id}:image`);
+    tx.objectStore(IMAGES_STORE).delete(`${id}:thumbnail`);
+    tx.objectStore(IMAGES_STORE).delete(clipKeyRange(`${id}:ai`));
+    tx.objectStore(AUDIO_STORE).delete(`${id}:narration`);
+    tx.objectStore(AUDIO_STORE).delete(clipKeyRange(`${id}:narration`));
+    tx.objectStore(AUDIO_STORE).delete(clipKeyRange(`${id}:chapter`));
+    await transactionDone(tx);
+  });
+}
+
+/**
+ * The narration of an entry, or one of its studio variants or chapters, read
+ * from the device unless the entry already carries it.
+ */
+export async function readAudio(result: LandmarkResult, clip?: NarrationVariant | NarrationChapter): Promise<string | null> {
+  const loaded = clip ? clip.audioBase64 : result.audioBase64;
+  if (loaded) return loaded;
+  if (!clip && !result.storedNarration) return null;
+  const db = await openDatabase();
+  const tx = db.transaction(AUDIO_STORE, 'readonly');
+  const blob = await requestToPromise<Blob | undefined>(tx.objectStore(AUDIO_STORE).get(audioKey(result.id, clip)));
+  return blob ? blobToBase64(blob) : null;
+}
+
+/**
+ * The entry with every piece of its audio read in, e.g. for a backup.
+ */
+export async function withAudio(result: LandmarkResult): Promise<LandmarkResult> {
+  const { storedNarration, ...rest } = result;
+  const full: LandmarkResult = { ...rest };
+  const audioBase64 = await readAudio(result);
+  if (audioBase64) full.audioBase64 = audioBase64;
+  if (result.narrations) full.narrations = await readClips(result, result.narrations);
+  if (result.chapters) full.chapters = await readClips(result, result.chapters);
+  return full;
+}
+
+async function readClips<T extends NarrationVariant | NarrationChapter>(result: LandmarkResult, clips: T[]): Promise<T[]> {
+  const read: T[] = [];
+  for (const clip of clips) {
+    const audioBase64 = await readAudio(result, clip);
+    if (audioBase64) read.push({ ...clip, audioBase64 });
+  }
+  return read;
+}
+
+/**
+ * An AI reimagining of an entry: the one on the entry itself, or else the one
+ * saved on the device for offline viewing.
+ */
+export async function readAiImage(result: LandmarkResult, style: ImageStyle): Promise<string | null> {
+  if (result.aiImages?.[style]) return result.aiImages[style];
+  if (!result.storedAiImages?.includes(style)) return null;
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGES_STORE, 'readonly');
+  const blob = await requestToPromise<Blob | undefined>(tx.objectStore(IMAGES_STORE).get(`${result.id}:ai:${style}`));
+  return blob ? blobToDataUrl(blob) : null;
+}
+
+/**
+ * Swap the whole journal for the given entries in one transaction, so a
+ * failure part way leaves the old journal untouched.
+ */
+export async function replaceAllResults(results: LandmarkResult[]): Promise<void> {
+  await Promise.allSettled(pendingWrites.values());
+  const packed = results.map(packResult);
+  const db = await openDatabase();
+  const tx = db.transaction([RESULTS_STORE, IMAGES_STORE, AUDIO_STORE], 'readwrite');
+  tx.objectStore(RESULTS_STORE).clear();
+  tx.objectStore(IMAGES_STORE).clear();
+  tx.objectStore(AUDIO_STORE).clear();
+  packed.forEach(entry => putPacked(tx, entry));
+  await transactionDone(tx);
+}
+
+/**
+ * Get notified whenever an entry is written, from any component.
+ */
+export function subscribe(listener: JournalListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function readCacheEntry<T>(key: string): Promise<CacheEntry<T> | null> {
+  const db = await openDatabase();
+  const tx = db.transaction(CACHE_STORE, 'readonly');
+  const entry = await requestToPromise<CacheEntry<T> | undefined>(tx.objectStore(CACHE_STORE).get(key));
+  return entry || null;
+}
+
+/**
+ * Cache entries pinned to any of the given grid cells.
+ */
+export async function listCacheEntriesByPlace(places: string[]): Promise<CacheEntry[]> {
+  const db = await openDatabase();
+  const index = db.transaction(CACHE_STORE, 'readonly').objectStore(CACHE_STORE).index('place');
+  const matches = await Promise.all(places.map(place => requestToPromise<CacheEntry[]>(index.getAll(place))));
+  return matches.flat();
+}
+
+export async function writeCacheEntry<T>(entry: CacheEntry<T>): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(CACHE_STORE, 'readwrite');
+  tx.objectStore(CACHE_STORE).put(entry);
+  await transactionDone(tx);
+}
+
+export async function clearCacheEntries(): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(CACHE_STORE, 'readwrite');
+  tx.objectStore(CACHE_STORE).clear();
+  await transactionDone(tx);
+}
+
+/**
+ * A stored tile image, marking it as used so it is evicted last.
+ */
+export async function readTile(key: string): Promise<Blob | null> {
+  const db = await openDatabase();
+  const tx = db.transaction([TILES_STORE, TILE_USAGE_STORE], 'readwrite');
+  const tile = await requestToPromise<StoredTile | undefined>(tx.objectStore(TILES_STORE).get(key));
+  if (!tile) return null;
+  tx.objectStore(TILE_USAGE_STORE).put({ key, size: tile.blob.size, lastUsed: Date.now() });
+  return tile.blob;
+}
+
+export async function listTileUsage(): Promise<TileUsageRecord[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(TILE_USAGE_STORE, 'readonly');
+  return requestToPromise<TileUsageRecord[]>(tx.objectStore(TILE_USAGE_STORE).getAll());
+}
+
+export async function listTileKeys(): Promise<string[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(TILE_USAGE_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(TILE_USAGE_STORE).getAllKeys()) as Promise<string[]>;
+}
+
+export async function writeTiles(tiles: StoredTile[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([TILES_STORE, TILE_USAGE_STORE], 'readwrite');
+  const now = Date.now();
+  tiles.forEach(tile => {
+    tx.objectStore(TILES_STORE).put(tile);
+    tx.objectStore(TILE_USAGE_STORE).put({ key: tile.key, size: tile.blob.size, lastUsed: now });
+  });
+  await transactionDone(tx);
+}
+
+export async function deleteTiles(keys: string[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([TILES_STORE, TILE_USAGE_STORE], 'readwrite');
+  keys.forEach(key => {
+    tx.objectStore(TILES_STORE).delete(key);
+    tx.objectStore(TILE_USAGE_STORE).delete(key);
+  });
+  await transactionDone(tx);
+}
+
+export async function clearTiles(): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([TILES_STORE, TILE_USAGE_STORE], 'readwrite');
+  tx.objectStore(TILES_STORE).clear();
+  tx.objectStore(TILE_USAGE_STORE).clear();
+  await transactionDone(tx);
+}
@@ -0,0 +1,203 @@
+import { LandmarkResult } from "../types";
+import { AudioMetadata, decodeBase64, pcmToMp3 } from "../utils/audio";
+import { fitLines } from "../utils/canvasText";
+import { keyDates, splitSections } from "../utils/chronicle";
+import { downloadBlob, toFileName } from "../utils/download";
+import { escapeHtml, renderProse } from "../utils/html";
+import { inlineImageUrl, loadImageBitmap, readAsDataUrl } from "../utils/image";
+import { narrationMetadata } from "./audioExport";
+import { translate } from "./i18n";
+import { landmarkUrl } from "./router";
+import { readAudio } from "./storage";
+import { TranslationKey } from "./translations";
+
+const CARD_WIDTH = 1200;
+const CARD_HEIGHT = 630;
+const CARD_PADDING = 72;
+const CARD_KEY_DATES = 3;
+
+function isoDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+async function narrationDataUrl(audioBase64: string, metadata: AudioMetadata): Promise<string> {
+  return readAsDataUrl(await pcmToMp3(decodeBase64(audioBase64), metadata));
+}
+
+const PAGE_STYLE = `
+  body { margin: 0; background: #050505; color: #e4e4e7; font: 17px/1.7 Georgia, 'Times New Roman', serif; }
+  main { max-width: 760px; margin: 0 auto; padding: 48px 24px 72px; }
+  .brand { font: 900 11px/1 system-ui, sans-serif; letter-spacing: .3em; text-transform: uppercase; color: #f59e0b; }
+  h1 { font-size: 44px; line-height: 1.1; margin: 12px 0 4px; color: #fff; }
+  h2 { font: 900 12px/1 system-ui, sans-serif; letter-spacing: .25em; text-transform: uppercase; color: #f59e0b; margin: 48px 0 16px; }
+  h3 { color: #fff; margin: 32px 0 8px; }
+  .location { font: 600 13px/1.4 system-ui, sans-serif; letter-spacing: .1em; text-transform: uppercase; color: #a1a1aa; }
+  .photo { width: 100%; border-radius: 20px; margin: 32px 0; display: block; }
+  .prose { white-space: pre-wrap; }
+  audio { width: 100%; margin-top: 8px; }
+  details { margin-top: 12px; color: #a1a1aa; }
+  ul { padding-left: 20px; }
+  a { color: #fbbf24; word-break: break-word; }
+  footer { margin-top: 64px; font: 12px/1.5 system-ui, sans-serif; color: #71717a; }
+`;
+
+/**
+ * One HTML file holding everything about a landmark, with the photo and the
+ * narration embedded, so it opens anywhere without the app or a connection.
+ */
+export async function buildTourHtml(result: LandmarkResult): Promise<string> {
+  const language = result.language || 'en';
+  const label = (key: TranslationKey, vars?: Record<string, string>) => escapeHtml(translate(language, key, vars));
+  const [photo, audio] = await Promise.all([
+    inlineImageUrl(result.imageUrl),
+    readAudio(result).then(audioBase64 => audioBase64 ? narrationDataUrl(audioBase64, narrationMetadata(result)) : undefined),
+  ]);
+
+  const sections = splitSections(result.history)
+    .map(section => `<h3>${escapeHtml(section.title)}</h3>\n<div class="prose">${renderProse(section.content)}</div>`)
+    .join('\n');
+  const sources = result.sources.length
+    ? `<h2>${label('tour.sources')}</h2>\n<ul>${result.sources.map(s => `<li><a href="${escapeHtml(s.uri)}">${escapeHtml(s.title)}</a></li>`).join('')}</ul>`
+    : '';
+  const related = result.relatedLandmarks?.length
+    ? `<h2>${label('tour.related')}</h2>\n<ul>${result.relatedLandmarks.map(r => `<li><strong>${escapeHtml(r.name)}</strong> — ${escapeHtml(r.reason)}</li>`).join('')}</ul>`
+    : '';
+  const narration = audio
+    ? `<h2>${label('share.listen')}</h2>\n<audio controls preload="metadata" src="${audio}"></audio>` +
+      (result.narrationScript ? `\n<details><summary>${label('share.transcript')}</summary><p class="prose">${escapeHtml(result.narrationScript)}</p></details>` : '')
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="${language}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(result.info.name)} · LuminaTour</title>
+<style>${PAGE_STYLE}</style>
+</head>
+<body>
+<main>
+<div class="brand">LuminaTour</div>
+<h1>${escapeHtml(result.info.name)}</h1>
+<div class="location">${escapeHtml(result.info.location || '')}</div>
+${photo ? `<img class="photo" src="${escapeHtml(photo)}" alt="${escapeHtml(result.info.name)}">` : ''}
+<p>${renderProse(result.info.description)}</p>
+${narration}
+<h2>${label('tour.chronicle')}</h2>
+${sections}
+${sources}
+${related}
+<footer>${label('share.footer', { date: isoDate(result.timestamp) })} · <a href="${escapeHtml(landmarkUrl(result))}">${escapeHtml(landmarkUrl(result))}</a></footer>
+</main>
+</body>
+</html>
+`;
+}
+
+function drawCover(ctx: CanvasRenderingContext2D, bitmap: ImageBitmap) {
+  const scale = Math.max(CARD_WIDTH / bitmap.width, CARD_HEIGHT / bitmap.height);
+  const width = bitmap.width * scale;
+  const height = bitmap.height * scale;
+  ctx.drawImage(bitmap, (CARD_WIDTH - width) / 2, (CARD_HEIGHT - height) / 2, width, height);
+}
+
+/**
+ * A 1200×630 PNG with the landmark photo, its name, location and the first
+ * dated moments from the chronicle; the size link previews expect.
+ */
+export async function renderShareCard(result: LandmarkResult): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = CARD_WIDTH;
+  canvas.height = CARD_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  // The page's web fonts may not have been used yet, and canvas will not wait for them
+  await Promise.all([
+    document.fonts.load("700 64px 'Playfair Display'"),
+    document.fonts.load("400 24px Inter"),
+  ]).catch(() => undefined);
+
+  ctx.fillStyle = '#050505';
+  ctx.fillRect(0, 0, CARD_WIDTH, CARD_HEIGHT);
+  const bitmap = await loadImageBitmap(result.imageUrl);
+  if (bitmap) {
+    drawCover(ctx, bitmap);
+    bitmap.close();
+  }
+  const shade = ctx.createLinearGradient(0, 0, CARD_WIDTH, 0);
+  shade.addColorStop(0, 'rgba(5,5,5,0.95)');
+  shade.addColorStop(0.6, 'rgba(5,5,5,0.75)');
+  shade.addColorStop(1, 'rgba(5,5,5,0.2)');
+  ctx.fillStyle = shade;
+  ctx.fillRect(0, 0, CARD_WIDTH, CARD_HEIGHT);
+
+  const textWidth = CARD_WIDTH * 0.62;
+  let y = CARD_PADDING;
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = '#f59e0b';
+  ctx.font = "900 18px Inter, sans-serif";
+  ctx.fillText('LUMINATOUR', CARD_PADDING, y);
+  y += 56;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.font = "700 64px 'Playfair Display', Georgia, serif";
+  for (const line of fitLines(ctx, result.info.name, textWidth, 2)) {
+    ctx.fillText(line, CARD_PADDING, y);
+    y += 74;
+  }
+
+  if (result.info.location) {
+    ctx.fillStyle = '#a1a1aa';
+    ctx.font = "600 24px Inter, sans-serif";
+    ctx.fillText(fitLines(ctx, result.info.location.toUpperCase(), textWidth, 1)[0], CARD_PADDING, y + 4);
+    y += 60;
+  }
+
+  for (const date of keyDates(result.history, CARD_KEY_DATES)) {
+    if (y > CARD_HEIGHT - CARD_PADDING - 30) break;
+    ctx.fillStyle = '#fbbf24';
+    ctx.font = "700 28px 'Playfair Display', Georgia, serif";
+    ctx.fillText(date.year, CARD_PADDING, y);
+    ctx.fillStyle = '#d4d4d8';
+    ctx.font = "400 20px Inter, sans-serif";
+    ctx.fillText(fitLines(ctx, date.text, textWidth - 100, 1)[0], CARD_PADDING + 100, y + 6);
+    y += 48;
+  }
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error("Share card encoding failed");
+  return blob;
+}
+
+/**
+ * Hand a file to the native share sheet where it accepts files, otherwise
+ * save it. Dismissing the share sheet is not an error.
+ */
+async function shareOrDownload(file: File, result: LandmarkResult): Promise<void> {
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title: result.info.name, text: result.info.description });
+      return;
+    } catch (err) {
+      if ((err as Error).name === 'AbortError') return;
+      // Usually the tap's user activation expired while the file was being built
+      console.warn("Share sheet refused the file, downloading instead", err);
+    }
+  }
+  downloadBlob(file, file.name);
+}
+
+function exportFileName(result: LandmarkResult, extension: string): string {
+  return `${toFileName(result.info.name)}-${isoDate(result.timestamp)}.${extension}`;
+}
+
+export async function shareTourPage(result: LandmarkResult): Promise<void> {
+  const html = await buildTourHtml(result);
+  await shareOrDownload(new File([html], exportFileName(result, 'html'), { type: 'text/html' }), result);
+}
+
+export async function shareTourCard(result: LandmarkResult): Promise<void> {
+  const card = await renderShareCard(result);
+  await shareOrDownload(new File([card], exportFileName(result, 'png'), { type: 'image/png' }), result);
+}
@@ -0,0 +1,1780 @@
+import { LanguageCode } from "../types";
+
+/**
+ * English is the source of truth; other languages may leave keys out and fall
+ * back to it.
+ */
+const en = {
+  'nav.search': 'Search landmarks...',
+  'nav.journal': 'Journal',
+  'nav.saved': 'Saved',
+  'nav.map': 'Map',
+  'nav.offline': 'Offline',
+  'nav.mock': 'Mock AI',
+  'hero.badge': 'AI-Augmented Travel',
+  'hero.title': 'Reveal the Secrets of',
+  'hero.titleAccent': 'Every Horizon.',
+  'hero.offline': 'Explore your offline journal. Connect to the internet to identify new landmarks.',
+  'hero.online': 'LuminaTour uses next-gen vision and search grounding to transform your travel photography into deep journeys.',
+  'home.recent': 'Recent Discoveries',
+  'home.viewAll': 'View All',
+  'journal.title': 'Travel Journal',
+  'journal.subtitle': 'A collection of your global cultural discoveries.',
+  'journal.empty': 'No discoveries yet.',
+  'saved.title': 'Saved Destinations',
+  'saved.subtitle': 'Landmarks you flagged for later revisiting.',
+  'saved.empty': 'No bookmarks yet.',
+  'card.discovery': 'Discovery',
+  'card.savedOffline': 'Saved Offline',
+  'card.revisit': 'Revisit Story',
+  'map.title': 'Explorer Map',
+  'map.subtitle': 'Visualizing your cultural footprint across the globe.',
+  'loading.identifying': 'Analyzing Architecture...',
+  'loading.searching': 'Gathering Historical Data...',
+  'loading.step1': 'Deciphering structural patterns...',
+  'loading.step2': 'Cross-referencing global landmarks database...',
+  'loading.step3': 'Querying historical archives for verified facts...',
+  'error.title': 'System Notice',
+  'error.recalibrate': 'Recalibrate',
+  'error.needsConnection': 'Internet connection required for new discoveries.',
+  'error.analyzeFailed': 'Failed to analyze image. Please try again.',
+  'error.searchFailed': 'Landmark not found or search failed.',
+  'error.relatedFailed': 'Could not explore related site.',
+  'camera.title': 'Snap or Upload',
+  'camera.subtitle': 'Capture a landmark to reveal its history and experience an immersive tour.',
+  'camera.upload': 'Upload',
+  'camera.browse': 'Browse',
+  'tour.exit': 'Exit Experience',
+  'tour.chronicle': 'The Chronicle',
+  'tour.sources': 'Verified Sources',
+  'tour.related': 'Discover Related Sites',
+  'tour.explore': 'Explore Site',
+  'tour.playbackRate': 'Playback Rate:',
+  'tour.narrator': 'Neural Narrator',
+  'tour.playing': 'Immersion Active',
+  'tour.idle': 'Waiting for Input',
+  'tour.arOn': 'Augmented Vision',
+  'tour.arOff': 'Disconnect AR',
+  'tour.unknownLocation': 'Unknown',
+  'tour.cached': 'Cached · {age}',
+  'tour.live': 'Live from source',
+  'tour.refresh': 'Refresh from source',
+  'tour.refreshFailed': 'Could not refresh from source. Showing cached content.',
+  'tour.regenerate': 'Regenerate in another language',
+  'tour.savedOffline': '{name} saved for offline access.',
+  'settings.title': 'Preferences',
+  'settings.language': 'Tour Language',
+  'settings.languageHint': 'Descriptions, chronicles, narration and the interface use this language.',
+  'settings.voice': 'Narration Voice',
+  'settings.cache': 'Content Cache',
+  'settings.cacheHint': 'Revisited landmarks load instantly and offline until their cached chronicle expires.',
+  'settings.ttlDay': '1 Day',
+  'settings.ttlWeek': '7 Days',
+  'settings.ttlMonth': '30 Days',
+  'settings.ttlForever': 'Forever',
+  'settings.clearCache': 'Clear Content Cache',
+  'settings.cacheCleared': 'Content cache cleared.',
+  'studio.title': 'Narration Studio',
+  'studio.original': 'Original',
+  'studio.voice': 'Voice',
+  'studio.persona': 'Persona',
+  'studio.length': 'Length',
+  'studio.generate': 'Generate Variant',
+  'studio.play': 'Play Variant',
+  'studio.generating': 'Composing...',
+  'persona.storyteller': 'Storyteller',
+  'persona.scholarly': 'Scholarly',
+  'persona.kid-friendly': 'Kid-Friendly',
+  'persona.dramatic': 'Dramatic',
+  'length.short': '30 sec',
+  'length.medium': '2 min',
+  'length.long': '5 min deep dive',
+  'tour.transcript': 'Live Transcript',
+  'tour.transcriptHint': 'Tap a sentence to jump',
+  'tour.playSection': 'Play this section',
+  'tour.chapter': 'Chapter {number} · {title}',
+  'tour.chapterLoading': 'Preparing chapter...',
+  'export.audio': 'Download audio',
+  'export.wav': 'WAV · lossless',
+  'export.mp3': 'MP3 · smaller file',
+  'export.audioFailed': 'Could not export the narration audio.',
+  'export.bookmarks': 'Export Narrations',
+  'export.bookmarksSkipped': '{exported} narrations exported. {skipped} bookmarks were skipped because their narration has not been generated yet.',
+  'export.bookmarksEmpty': 'None of your bookmarks has narration audio yet. Open a landmark once to generate it.',
+  'playlist.title': 'Audio Tour',
+  'playlist.playAll': 'Play All',
+  'playlist.add': 'Add to audio tour',
+  'playlist.remove': 'Remove from queue',
+  'playlist.queue': 'Queue',
+  'playlist.clear': 'Stop and clear queue',
+  'playlist.preparing': 'Preparing narration...',
+  'playlist.position': 'Stop {current} of {total}',
+  'card.planned': 'Planned',
+  'geo.menu': 'Export / Import',
+  'geo.all': 'All',
+  'geo.bookmarks': 'Bookmarks',
+  'geo.from': 'From',
+  'geo.to': 'To',
+  'geo.import': 'Import Route',
+  'geo.importHint': 'GeoJSON, KML or GPX. Each waypoint becomes a planned stop whose story loads when you open it.',
+  'geo.imported': '{count} planned stops added to your journal.',
+  'geo.importFailed': 'Could not read that file. Use GeoJSON, KML or GPX.',
+  'geo.nothingToExport': 'No located landmarks match this selection.',
+  'geo.skipped': '{exported} waypoints exported. {skipped} entries were left out because they have no coordinates.',
+  'backup.title': 'Backup & Restore',
+  'backup.hint': 'One file with your whole journal, photos, narrations, ratings and settings. Use it to move to another device.',
+  'backup.export': 'Download Backup',
+  'backup.merge': 'Merge',
+  'backup.replace': 'Replace',
+  'backup.replaceConfirm': 'Replace your whole journal and settings with the backup? Entries not in the backup will be deleted.',
+  'backup.restored': 'Restore complete: {added} added, {updated} updated, {kept} kept from this device.',
+  'backup.failed': 'Could not create the backup.',
+  'backup.restoreFailed': 'That file is not a LuminaTour backup this version can read.',
+  'map.photoTaken': 'Photo of {name} taken here',
+  'camera.processing': 'Preparing photo...',
+  'camera.unreadable': 'This photo could not be read. Try a JPEG, PNG or WebP image.',
+  'settings.photos': 'Photo Size',
+  'settings.photosHint': 'Photos are shrunk to this longest edge before upload, which saves data when roaming.',
+  'settings.keepOriginals': 'Keep full-resolution originals in the journal',
+  'candidates.title': 'Which one is it?',
+  'candidates.subtitle': 'We are not sure about this photo. Pick the landmark you photographed and we will tell its story.',
+  'candidates.none': 'None of these, search by name',
+  'tour.wrongLandmark': 'Not this one?',
+  'camera.live': 'Live',
+  'live.scanning': 'Point at a landmark',
+  'live.provisional': 'Looks like · {confidence}%',
+  'live.tapToLock': 'Tap to lock and explore',
+  'live.offline': 'Offline: recognition paused',
+  'live.cameraDenied': 'Camera access is needed for the live viewfinder. Check your browser permissions.',
+  'import.title': 'Photo import · {done}/{total}',
+  'import.clearFinished': 'Clear finished',
+  'import.queued': 'Waiting',
+  'import.preparing': 'Preparing photo',
+  'import.identifying': 'Identifying',
+  'import.researching': 'Researching history',
+  'import.done': 'In your journal',
+  'import.failed': 'Failed',
+  'import.retry': 'Retry',
+  'import.remove': 'Remove',
+  'error.quota': 'The AI service is over its usage limit right now. Wait a minute and try again, or browse your journal meanwhile.',
+  'error.invalidKey': 'The AI service rejected the API key. Check the key this app was built with; your journal still works offline.',
+  'error.safety': 'This photo was blocked by the content safety filters. Try a different photo or search by name.',
+  'error.noLandmark': 'No landmark could be found in this photo. Frame the building more clearly, or search for it by name.',
+  'error.malformed': 'The AI returned an answer we could not read. Trying again usually fixes this.',
+  'error.timeout': 'The AI took too long to answer. Check your connection and try again.',
+  'error.retry': 'Try again',
+  'error.newPhoto': 'Try a different photo',
+  'error.searchByName': 'Search by name',
+  'error.continueOffline': 'Continue offline',
+  'share.page': 'Share tour page',
+  'share.card': 'Share image card',
+  'share.failed': 'Could not prepare the file to share.',
+  'share.listen': 'Listen',
+  'share.transcript': 'Transcript',
+  'share.footer': 'Discovered with LuminaTour on {date}',
+  'book.menu': 'Trip book',
+  'book.trip': 'Trip',
+  'book.allDates': 'Any dates',
+  'book.tripOption': '{from} – {to} ({count})',
+  'book.titleLabel': 'Title',
+  'book.defaultTitle': 'My Travel Journal',
+  'book.print': 'Print',
+  'book.empty': 'No landmarks in this selection.',
+  'book.failed': 'Could not create the trip book.',
+  'book.landmarkCount': '{count} landmarks',
+  'book.mapOverview': 'Map overview',
+  'book.stop': 'Stop {number}',
+  'book.index': 'Index by location',
+  'book.page': 'p. {page}',
+  'map.bookmarked': 'Bookmarked',
+  'map.downloaded': 'Downloaded',
+  'map.allThemes': 'All themes',
+  'map.revisit': 'Revisit Story',
+  'map.noMatches': 'No landmarks match these filters',
+  'settings.mapCache': 'Offline Map',
+  'settings.mapCacheHint': 'Map tiles around landmarks you save for offline are stored so the Explorer Map works without a connection.',
+  'settings.mapZoomFrom': 'Zoom from',
+  'settings.mapZoomTo': 'Zoom to',
+  'settings.mapBudget': 'Budget',
+  'settings.mapUsage': '{tiles} tiles · {size} of {budget} MB',
+  'settings.clearMapCache': 'Clear Map Cache',
+  'settings.mapCacheCleared': 'Map cache cleared.',
+  'update.available': 'A new version of LuminaTour is available.',
+  'update.reload': 'Update',
+  'update.later': 'Later',
+  'card.savingOffline': 'Saving {percent}%',
+  'card.partlyOffline': 'Partly Offline',
+  'offline.part.narration': 'narration',
+  'offline.part.cinematic': 'cinematic image',
+  'offline.part.abstract': 'abstract image',
+  'offline.part.related': 'related landmarks',
+  'offline.part.map': 'map tiles',
+  'offline.missing': 'Missing: {missing}',
+  'offline.partial': '{name} was saved for offline, but these parts failed: {missing}. Tap download again to retry them.',
+  'offline.failed': 'Could not save this tour for offline use.',
+  'offline.saving': 'Saving for offline… {percent}%',
+  'offline.remove': 'Remove {name} from offline tours?',
+  'book.pdfNote': 'PDF pages are pictures: text cannot be selected or searched, but source links open. Choose HTML for selectable text.',
+  'tour.arCameraRequired': 'Camera access is required for AR mode. Please ensure permissions are granted.',
+  'tour.arStability': 'Stability Sync',
+  'share.text': 'Discovering history with LuminaTour: {name}',
+  'share.copied': 'Link copied!',
+  'theme.architecture': 'Architecture',
+  'theme.conflict': 'Conflict',
+  'theme.modernization': 'Modernization',
+  'theme.royal': 'Royal Era',
+  'theme.general': 'General History',
+};
+
+export type TranslationKey = keyof typeof en;
+
+type Translations = Partial<Record<TranslationKey, string>>;
+
+const es: Translations = {
+  'nav.search': 'Buscar monumentos...',
+  'nav.journal': 'Diario',
+  'nav.saved': 'Guardados',
+  'nav.map': 'Mapa',
+  'nav.offline': 'Sin conexión',
+  'hero.badge': 'Viajes aumentados con IA',
+  'hero.title': 'Descubre los secretos de',
+  'hero.titleAccent': 'cada horizonte.',
+  'hero.offline': 'Explora tu diario sin conexión. Conéctate a internet para identificar nuevos monumentos.',
+  'hero.online': 'LuminaTour combina visión artificial y búsqueda verificada para convertir tus fotos de viaje en recorridos profundos.',
+  'home.recent': 'Descubrimientos recientes',
+  'home.viewAll': 'Ver todo',
+  'journal.title': 'Diario de viaje',
+  'journal.subtitle': 'Una colección de tus descubrimientos culturales por el mundo.',
+  'journal.empty': 'Aún no hay descubrimientos.',
+  'saved.title': 'Destinos guardados',
+  'saved.subtitle': 'Monumentos que marcaste para volver a visitar.',
+  'saved.empty': 'Aún no hay marcadores.',
+  'card.discovery': 'Descubrimiento',
+  'card.savedOffline': 'Disponible sin conexión',
+  'card.revisit': 'Volver a la historia',
+  'map.title': 'Mapa del explorador',
+  'map.subtitle': 'Tu huella cultural alrededor del mundo.',
+  'loading.identifying': 'Analizando la arquitectura...',
+  'loading.searching': 'Reuniendo datos históricos...',
+  'loading.step1': 'Descifrando patrones estructurales...',
+  'loading.step2': 'Cotejando la base mundial de monumentos...',
+  'loading.step3': 'Consultando archivos históricos verificados...',
+  'error.title': 'Aviso del sistema',
+  'error.recalibrate': 'Reintentar',
+  'error.needsConnection': 'Se necesita conexión a internet para nuevos descubrimientos.',
+  'error.analyzeFailed': 'No se pudo analizar la imagen. Inténtalo de nuevo.',
+  'error.searchFailed': 'Monumento no encontrado o la búsqueda falló.',
+  'error.relatedFailed': 'No se pudo explorar el sitio relacionado.',
+  'camera.title': 'Fotografía o sube',
+  'camera.subtitle': 'Captura un monumento para revelar su historia y vivir un recorrido inmersivo.',
+  'camera.upload': 'Subir',
+  'camera.browse': 'Explorar',
+  'tour.exit': 'Salir de la experiencia',
+  'tour.chronicle': 'La crónica',
+  'tour.sources': 'Fuentes verificadas',
+  'tour.related': 'Descubre sitios relacionados',
+  'tour.explore': 'Explorar sitio',
+  'tour.playbackRate': 'Velocidad:',
+  'tour.narrator': 'Narrador neuronal',
+  'tour.playing': 'Inmersión activa',
+  'tour.idle': 'En espera',
+  'tour.arOn': 'Visión aumentada',
+  'tour.arOff': 'Desconectar RA',
+  'tour.unknownLocation': 'Desconocido',
+  'tour.cached': 'En caché · {age}',
+  'tour.live': 'En vivo desde la fuente',
+  'tour.refresh': 'Actualizar desde la fuente',
+  'tour.refreshFailed': 'No se pudo actualizar. Se muestra el contenido en caché.',
+  'tour.regenerate': 'Regenerar en otro idioma',
+  'tour.savedOffline': '{name} guardado para usar sin conexión.',
+  'settings.title': 'Preferencias',
+  'settings.language': 'Idioma del recorrido',
+  'settings.languageHint': 'Descripciones, crónicas, narración e interfaz usan este idioma.',
+  'settings.voice': 'Voz de narración',
+  'settings.cache': 'Caché de contenido',
+  'settings.cacheHint': 'Los monumentos revisitados cargan al instante y sin conexión hasta que caduca su crónica.',
+  'settings.ttlDay': '1 día',
+  'settings.ttlWeek': '7 días',
+  'settings.ttlMonth': '30 días',
+  'settings.ttlForever': 'Siempre',
+  'settings.clearCache': 'Vaciar caché',
+  'settings.cacheCleared': 'Caché de contenido vaciada.',
+  'studio.title': 'Estudio de narración',
+  'studio.original': 'Original',
+  'studio.voice': 'Voz',
+  'studio.persona': 'Estilo',
+  'studio.length': 'Duración',
+  'studio.generate': 'Generar variante',
+  'studio.play': 'Reproducir variante',
+  'studio.generating': 'Componiendo...',
+  'persona.storyteller': 'Cuentacuentos',
+  'persona.scholarly': 'Académico',
+  'persona.kid-friendly': 'Para niños',
+  'persona.dramatic': 'Dramático',
+  'length.short': '30 s',
+  'length.medium': '2 min',
+  'length.long': '5 min a fondo',
+  'tour.transcript': 'Transcripción en vivo',
+  'tour.transcriptHint': 'Toca una frase para saltar',
+  'tour.playSection': 'Reproducir esta sección',
+  'tour.chapter': 'Capítulo {number} · {title}',
+  'tour.chapterLoading': 'Preparando capítulo...',
+  'export.audio': 'Descargar audio',
+  'export.wav': 'WAV · sin pérdida',
+  'export.mp3': 'MP3 · archivo más ligero',
+  'export.audioFailed': 'No se pudo exportar el audio de la narración.',
+  'export.bookmarks': 'Exportar narraciones',
+  'export.bookmarksSkipped': '{exported} narraciones exportadas. Se omitieron {skipped} marcadores porque aún no tienen narración.',
+  'export.bookmarksEmpty': 'Ningún marcador tiene audio todavía. Abre un monumento una vez para generarlo.',
+  'playlist.title': 'Audioguía',
+  'playlist.playAll': 'Reproducir todo',
+  'playlist.add': 'Añadir a la audioguía',
+  'playlist.remove': 'Quitar de la cola',
+  'playlist.queue': 'Cola',
+  'playlist.clear': 'Detener y vaciar la cola',
+  'playlist.preparing': 'Preparando narración...',
+  'playlist.position': 'Parada {current} de {total}',
+  'card.planned': 'Planificado',
+  'geo.menu': 'Exportar / Importar',
+  'geo.all': 'Todo',
+  'geo.bookmarks': 'Marcadores',
+  'geo.from': 'Desde',
+  'geo.to': 'Hasta',
+  'geo.import': 'Importar ruta',
+  'geo.importHint': 'GeoJSON, KML o GPX. Cada punto se convierte en una parada planificada cuya historia se carga al abrirla.',
+  'geo.imported': '{count} paradas planificadas añadidas a tu diario.',
+  'geo.importFailed': 'No se pudo leer el archivo. Usa GeoJSON, KML o GPX.',
+  'geo.nothingToExport': 'Ningún monumento con ubicación coincide con la selección.',
+  'geo.skipped': '{exported} puntos exportados. Se omitieron {skipped} entradas sin coordenadas.',
+  'backup.title': 'Copia y restauración',
+  'backup.hint': 'Un archivo con todo tu diario, fotos, narraciones, valoraciones y ajustes. Úsalo para cambiar de dispositivo.',
+  'backup.export': 'Descargar copia',
+  'backup.merge': 'Combinar',
+  'backup.replace': 'Reemplazar',
+  'backup.replaceConfirm': '¿Reemplazar todo tu diario y ajustes con la copia? Se borrarán las entradas que no estén en ella.',
+  'backup.restored': 'Restauración completa: {added} añadidas, {updated} actualizadas, {kept} conservadas de este dispositivo.',
+  'backup.failed': 'No se pudo crear la copia.',
+  'backup.restoreFailed': 'Ese archivo no es una copia de LuminaTour legible por esta versión.',
+  'map.photoTaken': 'Foto de {name} tomada aquí',
+  'camera.processing': 'Preparando foto...',
+  'camera.unreadable': 'No se pudo leer la foto. Prueba con JPEG, PNG o WebP.',
+  'settings.photos': 'Tamaño de foto',
+  'settings.photosHint': 'Las fotos se reducen a este lado mayor antes de enviarlas, ahorrando datos en roaming.',
+  'settings.keepOriginals': 'Guardar originales a resolución completa en el diario',
+  'candidates.title': '¿Cuál es?',
+  'candidates.subtitle': 'No estamos seguros de esta foto. Elige el monumento que fotografiaste y contaremos su historia.',
+  'candidates.none': 'Ninguno, buscar por nombre',
+  'tour.wrongLandmark': '¿No es este?',
+  'camera.live': 'En vivo',
+  'live.scanning': 'Apunta a un monumento',
+  'live.provisional': 'Parece · {confidence}%',
+  'live.tapToLock': 'Toca para fijar y explorar',
+  'live.offline': 'Sin conexión: reconocimiento en pausa',
+  'live.cameraDenied': 'Se necesita acceso a la cámara para el visor en vivo. Revisa los permisos del navegador.',
+  'import.title': 'Importación de fotos · {done}/{total}',
+  'import.clearFinished': 'Quitar terminadas',
+  'import.queued': 'En espera',
+  'import.preparing': 'Preparando foto',
+  'import.identifying': 'Identificando',
+  'import.researching': 'Investigando la historia',
+  'import.done': 'En tu diario',
+  'import.failed': 'Error',
+  'import.retry': 'Reintentar',
+  'import.remove': 'Quitar',
+  'error.quota': 'El servicio de IA ha superado su límite de uso. Espera un minuto e inténtalo de nuevo, o explora tu diario mientras tanto.',
+  'error.invalidKey': 'El servicio de IA rechazó la clave de API. Revisa la clave con la que se creó la app; tu diario sigue funcionando sin conexión.',
+  'error.safety': 'Los filtros de seguridad bloquearon esta foto. Prueba con otra foto o busca por nombre.',
+  'error.noLandmark': 'No se encontró ningún monumento en esta foto. Encuadra mejor el edificio o búscalo por nombre.',
+  'error.malformed': 'La IA devolvió una respuesta ilegible. Volver a intentarlo suele solucionarlo.',
+  'error.timeout': 'La IA tardó demasiado en responder. Revisa tu conexión e inténtalo de nuevo.',
+  'error.retry': 'Intentar de nuevo',
+  'error.newPhoto': 'Probar otra foto',
+  'error.searchByName': 'Buscar por nombre',
+  'error.continueOffline': 'Continuar sin conexión',
+  'share.page': 'Compartir página del tour',
+  'share.card': 'Compartir tarjeta de imagen',
+  'share.failed': 'No se pudo preparar el archivo para compartir.',
+  'share.listen': 'Escuchar',
+  'share.transcript': 'Transcripción',
+  'share.footer': 'Descubierto con LuminaTour el {date}',
+  'book.menu': 'Libro de viaje',
+  'book.trip': 'Viaje',
+  'book.allDates': 'Cualquier fecha',
+  'book.tripOption': '{from} – {to} ({count})',
+  'book.titleLabel': 'Título',
+  'book.defaultTitle': 'Mi diario de viaje',
+  'book.print': 'Imprimir',
+  'book.empty': 'No hay monumentos en esta selección.',
+  'book.failed': 'No se pudo crear el libro de viaje.',
+  'book.landmarkCount': '{count} monumentos',
+  'book.mapOverview': 'Mapa general',
+  'book.stop': 'Parada {number}',
+  'book.index': 'Índice por lugar',
+  'book.page': 'p. {page}',
+  'map.bookmarked': 'Guardados',
+  'map.downloaded': 'Descargados',
+  'map.allThemes': 'Todos los temas',
+  'map.revisit': 'Volver a la historia',
+  'map.noMatches': 'Ningún lugar coincide con estos filtros',
+  'settings.mapCache': 'Mapa sin conexión',
+  'settings.mapCacheHint': 'Guardamos el mapa alrededor de los lugares que descargas para que el Mapa del explorador funcione sin conexión.',
+  'settings.mapZoomFrom': 'Zoom desde',
+  'settings.mapZoomTo': 'Zoom hasta',
+  'settings.mapBudget': 'Límite',
+  'settings.mapUsage': '{tiles} teselas · {size} de {budget} MB',
+  'settings.clearMapCache': 'Borrar caché del mapa',
+  'settings.mapCacheCleared': 'Caché del mapa borrada.',
+  'update.available': 'Hay una nueva versión de LuminaTour.',
+  'update.reload': 'Actualizar',
+  'update.later': 'Más tarde',
+  'card.savingOffline': 'Guardando {percent}%',
+  'card.partlyOffline': 'Parcialmente sin conexión',
+  'offline.part.narration': 'narración',
+  'offline.part.cinematic': 'imagen cinematográfica',
+  'offline.part.abstract': 'imagen abstracta',
+  'offline.part.related': 'lugares relacionados',
+  'offline.part.map': 'mapa',
+  'offline.missing': 'Falta: {missing}',
+  'offline.partial': '{name} se guardó sin conexión, pero fallaron estas partes: {missing}. Vuelve a pulsar descargar para reintentarlo.',
+  'offline.failed': 'No se pudo guardar este recorrido sin conexión.',
+  'offline.saving': 'Guardando sin conexión… {percent}%',
+  'offline.remove': '¿Quitar {name} de los recorridos sin conexión?',
+  'book.pdfNote': 'Las páginas del PDF son imágenes: el texto no se puede seleccionar ni buscar, pero los enlaces a las fuentes se abren. Elige HTML para tener texto seleccionable.',
+  'tour.arCameraRequired': 'El modo RA necesita acceso a la cámara. Comprueba que los permisos estén concedidos.',
+  'tour.arStability': 'Estabilidad',
+  'share.text': 'Descubriendo la historia con LuminaTour: {name}',
+  'share.copied': '¡Enlace copiado!',
+  'theme.architecture': 'Arquitectura',
+  'theme.conflict': 'Conflicto',
+  'theme.modernization': 'Modernización',
+  'theme.royal': 'Época real',
+  'theme.general': 'Historia general',
+};
+
+const fr: Translations = {
+  'nav.search': 'Rechercher des monuments...',
+  'nav.journal': 'Journal',
+  'nav.saved': 'Favoris',
+  'nav.map': 'Carte',
+  'nav.offline': 'Hors ligne',
+  'hero.badge': 'Voyage augmenté par IA',
+  'hero.title': 'Révélez les secrets de',
+  'hero.titleAccent': 'chaque horizon.',
+  'hero.offline': 'Parcourez votre journal hors ligne. Connectez-vous à internet pour identifier de nouveaux monuments.',
+  'hero.online': 'LuminaTour associe vision artificielle et recherche vérifiée pour transformer vos photos de voyage en véritables explorations.',
+  'home.recent': 'Découvertes récentes',
+  'home.viewAll': 'Tout voir',
+  'journal.title': 'Carnet de voyage',
+  'journal.subtitle': 'Vos découvertes culturelles à travers le monde.',
+  'journal.empty': 'Aucune découverte pour le moment.',
+  'saved.title': 'Destinations favorites',
+  'saved.subtitle': 'Les monuments que vous avez marqués pour y revenir.',
+  'saved.empty': 'Aucun favori pour le moment.',
+  'card.discovery': 'Découverte',
+  'card.savedOffline': 'Disponible hors ligne',
+  'card.revisit': "Revoir l'histoire",
+  'map.title': "Carte de l'explorateur",
+  'map.subtitle': 'Votre empreinte culturelle à travers le monde.',
+  'loading.identifying': "Analyse de l'architecture...",
+  'loading.searching': 'Collecte des données historiques...',
+  'loading.step1': 'Déchiffrage des structures...',
+  'loading.step2': 'Comparaison avec la base mondiale des monuments...',
+  'loading.step3': 'Consultation des archives historiques...',
+  'error.title': 'Avis système',
+  'error.recalibrate': 'Recommencer',
+  'error.needsConnection': 'Une connexion internet est nécessaire pour de nouvelles découvertes.',
+  'error.analyzeFailed': "Impossible d'analyser l'image. Veuillez réessayer.",
+  'error.searchFailed': 'Monument introuvable ou recherche échouée.',
+  'error.relatedFailed': "Impossible d'explorer le site associé.",
+  'camera.title': 'Photographiez ou importez',
+  'camera.subtitle': 'Capturez un monument pour révéler son histoire et vivre une visite immersive.',
+  'camera.upload': 'Importer',
+  'camera.browse': 'Parcourir',
+  'tour.exit': "Quitter l'expérience",
+  'tour.chronicle': 'La chronique',
+  'tour.sources': 'Sources vérifiées',
+  'tour.related': 'Sites associés',
+  'tour.explore': 'Explorer le site',
+  'tour.playbackRate': 'Vitesse :',
+  'tour.narrator': 'Narrateur neuronal',
+  'tour.playing': 'Immersion active',
+  'tour.idle': 'En attente',
+  'tour.arOn': 'Vision augmentée',
+  'tour.arOff': 'Quitter la RA',
+  'tour.unknownLocation': 'Inconnu',
+  'tour.cached': 'En cache · {age}',
+  'tour.live': 'En direct de la source',
+  'tour.refresh': 'Actualiser depuis la source',
+  'tour.refreshFailed': "Actualisation impossible. Contenu en cache affiché.",
+  'tour.regenerate': 'Régénérer dans une autre langue',
+  'tour.savedOffline': '{name} est disponible hors ligne.',
+  'settings.title': 'Préférences',
+  'settings.language': 'Langue de la visite',
+  'settings.languageHint': "Descriptions, chroniques, narration et interface utilisent cette langue.",
+  'settings.voice': 'Voix du narrateur',
+  'settings.cache': 'Cache de contenu',
+  'settings.cacheHint': "Les monuments revisités se chargent instantanément et hors ligne jusqu'à expiration de leur chronique.",
+  'settings.ttlDay': '1 jour',
+  'settings.ttlWeek': '7 jours',
+  'settings.ttlMonth': '30 jours',
+  'settings.ttlForever': 'Toujours',
+  'settings.clearCache': 'Vider le cache',
+  'settings.cacheCleared': 'Cache de contenu vidé.',
+  'studio.title': 'Studio de narration',
+  'studio.original': 'Originale',
+  'studio.voice': 'Voix',
+  'studio.persona': 'Personnage',
+  'studio.length': 'Durée',
+  'studio.generate': 'Générer la variante',
+  'studio.play': 'Écouter la variante',
+  'studio.generating': 'Composition...',
+  'persona.storyteller': 'Conteur',
+  'persona.scholarly': 'Érudit',
+  'persona.kid-friendly': 'Pour enfants',
+  'persona.dramatic': 'Dramatique',
+  'length.short': '30 s',
+  'length.medium': '2 min',
+  'length.long': '5 min en profondeur',
+  'tour.transcript': 'Transcription en direct',
+  'tour.transcriptHint': 'Touchez une phrase pour y aller',
+  'tour.playSection': 'Écouter cette section',
+  'tour.chapter': 'Chapitre {number} · {title}',
+  'tour.chapterLoading': 'Préparation du chapitre...',
+  'export.audio': 'Télécharger l\'audio',
+  'export.wav': 'WAV · sans perte',
+  'export.mp3': 'MP3 · fichier plus léger',
+  'export.audioFailed': 'Impossible d\'exporter l\'audio de la narration.',
+  'export.bookmarks': 'Exporter les narrations',
+  'export.bookmarksSkipped': '{exported} narrations exportées. {skipped} favoris ignorés car leur narration n\'a pas encore été générée.',
+  'export.bookmarksEmpty': 'Aucun favori n\'a encore d\'audio. Ouvrez un monument une fois pour le générer.',
+  'playlist.title': 'Visite audio',
+  'playlist.playAll': 'Tout écouter',
+  'playlist.add': 'Ajouter à la visite audio',
+  'playlist.remove': 'Retirer de la file',
+  'playlist.queue': 'File d\'attente',
+  'playlist.clear': 'Arrêter et vider la file',
+  'playlist.preparing': 'Préparation de la narration...',
+  'playlist.position': 'Étape {current} sur {total}',
+  'card.planned': 'Prévu',
+  'geo.menu': 'Exporter / Importer',
+  'geo.all': 'Tout',
+  'geo.bookmarks': 'Favoris',
+  'geo.from': 'Du',
+  'geo.to': 'Au',
+  'geo.import': 'Importer un itinéraire',
+  'geo.importHint': 'GeoJSON, KML ou GPX. Chaque point devient une étape prévue dont l\'histoire se charge à l\'ouverture.',
+  'geo.imported': '{count} étapes prévues ajoutées à votre journal.',
+  'geo.importFailed': 'Impossible de lire ce fichier. Utilisez GeoJSON, KML ou GPX.',
+  'geo.nothingToExport': 'Aucun monument localisé ne correspond à cette sélection.',
+  'geo.skipped': '{exported} points exportés. {skipped} entrées sans coordonnées ont été ignorées.',
+  'backup.title': 'Sauvegarde et restauration',
+  'backup.hint': 'Un fichier avec tout votre journal, photos, narrations, avis et réglages. Idéal pour changer d\'appareil.',
+  'backup.export': 'Télécharger la sauvegarde',
+  'backup.merge': 'Fusionner',
+  'backup.replace': 'Remplacer',
+  'backup.replaceConfirm': 'Remplacer tout votre journal et vos réglages par la sauvegarde ? Les entrées absentes seront supprimées.',
+  'backup.restored': 'Restauration terminée : {added} ajoutées, {updated} mises à jour, {kept} conservées sur cet appareil.',
+  'backup.failed': 'Impossible de créer la sauvegarde.',
+  'backup.restoreFailed': 'Ce fichier n\'est pas une sauvegarde LuminaTour lisible par cette version.',
+  'map.photoTaken': 'Photo de {name} prise ici',
+  'camera.processing': 'Préparation de la photo...',
+  'camera.unreadable': 'Impossible de lire cette photo. Essayez JPEG, PNG ou WebP.',
+  'settings.photos': 'Taille des photos',
+  'settings.photosHint': 'Les photos sont réduites à ce côté maximal avant l\'envoi, pour économiser les données en itinérance.',
+  'settings.keepOriginals': 'Conserver les originaux en pleine résolution dans le journal',
+  'candidates.title': 'Lequel est-ce ?',
+  'candidates.subtitle': 'Nous ne sommes pas sûrs de cette photo. Choisissez le monument photographié et nous raconterons son histoire.',
+  'candidates.none': 'Aucun, rechercher par nom',
+  'tour.wrongLandmark': 'Pas celui-ci ?',
+  'camera.live': 'Direct',
+  'live.scanning': 'Visez un monument',
+  'live.provisional': 'On dirait · {confidence} %',
+  'live.tapToLock': 'Touchez pour figer et explorer',
+  'live.offline': 'Hors ligne : reconnaissance en pause',
+  'live.cameraDenied': 'L\'accès à la caméra est requis pour le viseur en direct. Vérifiez les autorisations du navigateur.',
+  'import.title': 'Import de photos · {done}/{total}',
+  'import.clearFinished': 'Effacer les terminées',
+  'import.queued': 'En attente',
+  'import.preparing': 'Préparation',
+  'import.identifying': 'Identification',
+  'import.researching': 'Recherche historique',
+  'import.done': 'Dans votre journal',
+  'import.failed': 'Échec',
+  'import.retry': 'Réessayer',
+  'import.remove': 'Retirer',
+  'error.quota': 'Le service d\'IA a dépassé sa limite d\'utilisation. Patientez une minute puis réessayez, ou parcourez votre journal en attendant.',
+  'error.invalidKey': 'Le service d\'IA a refusé la clé d\'API. Vérifiez la clé utilisée pour cette application ; votre journal fonctionne toujours hors ligne.',
+  'error.safety': 'Cette photo a été bloquée par les filtres de sécurité. Essayez une autre photo ou recherchez par nom.',
+  'error.noLandmark': 'Aucun monument n\'a été trouvé sur cette photo. Cadrez mieux le bâtiment ou recherchez-le par nom.',
+  'error.malformed': 'L\'IA a renvoyé une réponse illisible. Réessayer règle généralement le problème.',
+  'error.timeout': 'L\'IA a mis trop de temps à répondre. Vérifiez votre connexion et réessayez.',
+  'error.retry': 'Réessayer',
+  'error.newPhoto': 'Essayer une autre photo',
+  'error.searchByName': 'Rechercher par nom',
+  'error.continueOffline': 'Continuer hors ligne',
+  'share.page': 'Partager la page de visite',
+  'share.card': 'Partager la carte image',
+  'share.failed': 'Impossible de préparer le fichier à partager.',
+  'share.listen': 'Écouter',
+  'share.transcript': 'Transcription',
+  'share.footer': 'Découvert avec LuminaTour le {date}',
+  'book.menu': 'Carnet de voyage',
+  'book.trip': 'Voyage',
+  'book.allDates': 'Toutes dates',
+  'book.tripOption': '{from} – {to} ({count})',
+  'book.titleLabel': 'Titre',
+  'book.defaultTitle': 'Mon carnet de voyage',
+  'book.print': 'Imprimer',
+  'book.empty': 'Aucun monument dans cette sélection.',
+  'book.failed': 'Impossible de créer le carnet de voyage.',
+  'book.landmarkCount': '{count} monuments',
+  'book.mapOverview': 'Vue d\'ensemble',
+  'book.stop': 'Étape {number}',
+  'book.index': 'Index par lieu',
+  'book.page': 'p. {page}',
+  'map.bookmarked': 'Favoris',
+  'map.downloaded': 'Téléchargés',
+  'map.allThemes': 'Tous les thèmes',
+  'map.revisit': 'Revoir l\'histoire',
+  'map.noMatches': 'Aucun lieu ne correspond à ces filtres',
+  'settings.mapCache': 'Carte hors ligne',
+  'settings.mapCacheHint': 'Les tuiles autour des lieux enregistrés hors ligne sont conservées pour que la carte fonctionne sans connexion.',
+  'settings.mapZoomFrom': 'Zoom de',
+  'settings.mapZoomTo': 'Zoom à',
+  'settings.mapBudget': 'Budget',
+  'settings.mapUsage': '{tiles} tuiles · {size} sur {budget} Mo',
+  'settings.clearMapCache': 'Vider le cache de la carte',
+  'settings.mapCacheCleared': 'Cache de la carte vidé.',
+  'update.available': 'Une nouvelle version de LuminaTour est disponible.',
+  'update.reload': 'Mettre à jour',
+  'update.later': 'Plus tard',
+  'card.savingOffline': 'Enregistrement {percent}%',
+  'card.partlyOffline': 'Partiellement hors ligne',
+  'offline.part.narration': 'narration',
+  'offline.part.cinematic': 'image cinématique',
+  'offline.part.abstract': 'image abstraite',
+  'offline.part.related': 'lieux associés',
+  'offline.part.map': 'tuiles de carte',
+  'offline.missing': 'Manquant : {missing}',
+  'offline.partial': '{name} est disponible hors ligne, mais ces éléments ont échoué : {missing}. Touchez à nouveau Télécharger pour réessayer.',
+  'offline.failed': 'Impossible d\'enregistrer cette visite hors ligne.',
+  'offline.saving': 'Enregistrement hors ligne… {percent}%',
+  'offline.remove': 'Retirer {name} des visites hors ligne ?',
+  'book.pdfNote': 'Les pages du PDF sont des images : le texte ne peut être ni sélectionné ni recherché, mais les liens vers les sources s\'ouvrent. Choisissez HTML pour un texte sélectionnable.',
+  'tour.arCameraRequired': 'Le mode RA nécessite l\'accès à la caméra. Vérifiez que les autorisations sont accordées.',
+  'tour.arStability': 'Stabilité',
+  'share.text': 'À la découverte de l\'histoire avec LuminaTour : {name}',
+  'share.copied': 'Lien copié !',
+  'theme.architecture': 'Architecture',
+  'theme.conflict': 'Conflit',
+  'theme.modernization': 'Modernisation',
+  'theme.royal': 'Époque royale',
+  'theme.general': 'Histoire générale',
+};
+
+const de: Translations = {
+  'nav.search': 'Sehenswürdigkeiten suchen...',
+  'nav.journal': 'Tagebuch',
+  'nav.saved': 'Gemerkt',
+  'nav.map': 'Karte',
+  'nav.offline': 'Offline',
+  'hero.badge': 'KI-gestütztes Reisen',
+  'hero.title': 'Entdecke die Geheimnisse',
+  'hero.titleAccent': 'jedes Horizonts.',
+  'hero.offline': 'Durchstöbere dein Offline-Tagebuch. Verbinde dich mit dem Internet, um neue Sehenswürdigkeiten zu erkennen.',
+  'hero.online': 'LuminaTour verbindet Bilderkennung und geprüfte Suche, um deine Reisefotos in tiefgehende Entdeckungen zu verwandeln.',
+  'home.recent': 'Neueste Entdeckungen',
+  'home.viewAll': 'Alle ansehen',
+  'journal.title': 'Reisetagebuch',
+  'journal.subtitle': 'Deine kulturellen Entdeckungen aus aller Welt.',
+  'journal.empty': 'Noch keine Entdeckungen.',
+  'saved.title': 'Gemerkte Ziele',
+  'saved.subtitle': 'Sehenswürdigkeiten, die du dir für später gemerkt hast.',
+  'saved.empty': 'Noch keine Lesezeichen.',
+  'card.discovery': 'Entdeckung',
+  'card.savedOffline': 'Offline gespeichert',
+  'card.revisit': 'Geschichte ansehen',
+  'map.title': 'Entdeckerkarte',
+  'map.subtitle': 'Dein kultureller Fußabdruck rund um den Globus.',
+  'loading.identifying': 'Architektur wird analysiert...',
+  'loading.searching': 'Historische Daten werden gesammelt...',
+  'loading.step1': 'Bauliche Muster werden entschlüsselt...',
+  'loading.step2': 'Abgleich mit der weltweiten Datenbank...',
+  'loading.step3': 'Historische Archive werden abgefragt...',
+  'error.title': 'Systemhinweis',
+  'error.recalibrate': 'Neu starten',
+  'error.needsConnection': 'Für neue Entdeckungen ist eine Internetverbindung nötig.',
+  'error.analyzeFailed': 'Das Bild konnte nicht analysiert werden. Bitte versuche es erneut.',
+  'error.searchFailed': 'Sehenswürdigkeit nicht gefunden oder Suche fehlgeschlagen.',
+  'error.relatedFailed': 'Der verwandte Ort konnte nicht geladen werden.',
+  'camera.title': 'Fotografieren oder hochladen',
+  'camera.subtitle': 'Nimm eine Sehenswürdigkeit auf, um ihre Geschichte in einer immersiven Tour zu erleben.',
+  'camera.upload': 'Hochladen',
+  'camera.browse': 'Durchsuchen',
+  'tour.exit': 'Erlebnis verlassen',
+  'tour.chronicle': 'Die Chronik',
+  'tour.sources': 'Geprüfte Quellen',
+  'tour.related': 'Verwandte Orte entdecken',
+  'tour.explore': 'Ort erkunden',
+  'tour.playbackRate': 'Tempo:',
+  'tour.narrator': 'Neuronaler Erzähler',
+  'tour.playing': 'Wiedergabe aktiv',
+  'tour.idle': 'Bereit',
+  'tour.arOn': 'Erweiterte Sicht',
+  'tour.arOff': 'AR beenden',
+  'tour.unknownLocation': 'Unbekannt',
+  'tour.cached': 'Zwischengespeichert · {age}',
+  'tour.live': 'Live von der Quelle',
+  'tour.refresh': 'Von der Quelle aktualisieren',
+  'tour.refreshFailed': 'Aktualisierung fehlgeschlagen. Gespeicherte Inhalte werden angezeigt.',
+  'tour.regenerate': 'In anderer Sprache neu erzeugen',
+  'tour.savedOffline': '{name} ist jetzt offline verfügbar.',
+  'settings.title': 'Einstellungen',
+  'settings.language': 'Tour-Sprache',
+  'settings.languageHint': 'Beschreibungen, Chroniken, Erzählung und Oberfläche verwenden diese Sprache.',
+  'settings.voice': 'Erzählstimme',
+  'settings.cache': 'Inhalts-Cache',
+  'settings.cacheHint': 'Erneut besuchte Orte laden sofort und offline, bis ihre Chronik abläuft.',
+  'settings.ttlDay': '1 Tag',
+  'settings.ttlWeek': '7 Tage',
+  'settings.ttlMonth': '30 Tage',
+  'settings.ttlForever': 'Immer',
+  'settings.clearCache': 'Cache leeren',
+  'settings.cacheCleared': 'Inhalts-Cache geleert.',
+  'studio.title': 'Erzählstudio',
+  'studio.original': 'Original',
+  'studio.voice': 'Stimme',
+  'studio.persona': 'Persona',
+  'studio.length': 'Länge',
+  'studio.generate': 'Variante erzeugen',
+  'studio.play': 'Variante abspielen',
+  'studio.generating': 'Wird erstellt...',
+  'persona.storyteller': 'Erzähler',
+  'persona.scholarly': 'Wissenschaftlich',
+  'persona.kid-friendly': 'Kindgerecht',
+  'persona.dramatic': 'Dramatisch',
+  'length.short': '30 Sek.',
+  'length.medium': '2 Min.',
+  'length.long': '5 Min. Vertiefung',
+  'tour.transcript': 'Live-Transkript',
+  'tour.transcriptHint': 'Satz antippen zum Springen',
+  'tour.playSection': 'Diesen Abschnitt abspielen',
+  'tour.chapter': 'Kapitel {number} · {title}',
+  'tour.chapterLoading': 'Kapitel wird vorbereitet...',
+  'export.audio': 'Audio herunterladen',
+  'export.wav': 'WAV · verlustfrei',
+  'export.mp3': 'MP3 · kleinere Datei',
+  'export.audioFailed': 'Die Erzählung konnte nicht exportiert werden.',
+  'export.bookmarks': 'Erzählungen exportieren',
+  'export.bookmarksSkipped': '{exported} Erzählungen exportiert. {skipped} Lesezeichen wurden übersprungen, weil ihre Erzählung noch nicht erstellt wurde.',
+  'export.bookmarksEmpty': 'Noch kein Lesezeichen hat Audio. Öffne ein Wahrzeichen einmal, um es zu erzeugen.',
+  'playlist.title': 'Audiotour',
+  'playlist.playAll': 'Alle abspielen',
+  'playlist.add': 'Zur Audiotour hinzufügen',
+  'playlist.remove': 'Aus der Warteschlange entfernen',
+  'playlist.queue': 'Warteschlange',
+  'playlist.clear': 'Stoppen und Warteschlange leeren',
+  'playlist.preparing': 'Erzählung wird vorbereitet...',
+  'playlist.position': 'Station {current} von {total}',
+  'card.planned': 'Geplant',
+  'geo.menu': 'Export / Import',
+  'geo.all': 'Alle',
+  'geo.bookmarks': 'Lesezeichen',
+  'geo.from': 'Von',
+  'geo.to': 'Bis',
+  'geo.import': 'Route importieren',
+  'geo.importHint': 'GeoJSON, KML oder GPX. Jeder Wegpunkt wird zu einem geplanten Halt, dessen Geschichte beim Öffnen geladen wird.',
+  'geo.imported': '{count} geplante Halte zum Tagebuch hinzugefügt.',
+  'geo.importFailed': 'Datei konnte nicht gelesen werden. Verwende GeoJSON, KML oder GPX.',
+  'geo.nothingToExport': 'Keine verorteten Wahrzeichen passen zu dieser Auswahl.',
+  'geo.skipped': '{exported} Wegpunkte exportiert. {skipped} Einträge ohne Koordinaten wurden ausgelassen.',
+  'backup.title': 'Sichern & Wiederherstellen',
+  'backup.hint': 'Eine Datei mit Tagebuch, Fotos, Erzählungen, Bewertungen und Einstellungen. Ideal für den Gerätewechsel.',
+  'backup.export': 'Sicherung herunterladen',
+  'backup.merge': 'Zusammenführen',
+  'backup.replace': 'Ersetzen',
+  'backup.replaceConfirm': 'Tagebuch und Einstellungen durch die Sicherung ersetzen? Einträge, die darin fehlen, werden gelöscht.',
+  'backup.restored': 'Wiederherstellung abgeschlossen: {added} hinzugefügt, {updated} aktualisiert, {kept} von diesem Gerät behalten.',
+  'backup.failed': 'Sicherung konnte nicht erstellt werden.',
+  'backup.restoreFailed': 'Diese Datei ist keine LuminaTour-Sicherung, die diese Version lesen kann.',
+  'map.photoTaken': 'Foto von {name} hier aufgenommen',
+  'camera.processing': 'Foto wird vorbereitet...',
+  'camera.unreadable': 'Foto konnte nicht gelesen werden. Versuche JPEG, PNG oder WebP.',
+  'settings.photos': 'Fotogröße',
+  'settings.photosHint': 'Fotos werden vor dem Hochladen auf diese längste Kante verkleinert, das spart Roaming-Daten.',
+  'settings.keepOriginals': 'Originale in voller Auflösung im Tagebuch behalten',
+  'candidates.title': 'Welches ist es?',
+  'candidates.subtitle': 'Bei diesem Foto sind wir unsicher. Wähle das fotografierte Wahrzeichen, dann erzählen wir seine Geschichte.',
+  'candidates.none': 'Keines davon, nach Namen suchen',
+  'tour.wrongLandmark': 'Nicht dieses?',
+  'camera.live': 'Live',
+  'live.scanning': 'Auf ein Wahrzeichen richten',
+  'live.provisional': 'Sieht aus wie · {confidence} %',
+  'live.tapToLock': 'Tippen zum Festhalten und Entdecken',
+  'live.offline': 'Offline: Erkennung pausiert',
+  'live.cameraDenied': 'Für den Live-Sucher wird Kamerazugriff benötigt. Prüfe die Browserberechtigungen.',
+  'import.title': 'Fotoimport · {done}/{total}',
+  'import.clearFinished': 'Fertige entfernen',
+  'import.queued': 'Wartet',
+  'import.preparing': 'Foto wird vorbereitet',
+  'import.identifying': 'Wird erkannt',
+  'import.researching': 'Geschichte wird recherchiert',
+  'import.done': 'Im Tagebuch',
+  'import.failed': 'Fehlgeschlagen',
+  'import.retry': 'Erneut versuchen',
+  'import.remove': 'Entfernen',
+  'error.quota': 'Der KI-Dienst hat sein Nutzungslimit erreicht. Warte eine Minute und versuche es erneut oder stöbere solange in deinem Tagebuch.',
+  'error.invalidKey': 'Der KI-Dienst hat den API-Schlüssel abgelehnt. Prüfe den Schlüssel dieser App; dein Tagebuch funktioniert weiterhin offline.',
+  'error.safety': 'Dieses Foto wurde von den Sicherheitsfiltern blockiert. Versuche ein anderes Foto oder suche nach dem Namen.',
+  'error.noLandmark': 'Auf diesem Foto wurde keine Sehenswürdigkeit gefunden. Fotografiere das Gebäude deutlicher oder suche es nach Namen.',
+  'error.malformed': 'Die KI hat eine unlesbare Antwort geliefert. Ein erneuter Versuch behebt das meist.',
+  'error.timeout': 'Die KI hat zu lange gebraucht. Prüfe deine Verbindung und versuche es erneut.',
+  'error.retry': 'Erneut versuchen',
+  'error.newPhoto': 'Anderes Foto versuchen',
+  'error.searchByName': 'Nach Namen suchen',
+  'error.continueOffline': 'Offline weitermachen',
+  'share.page': 'Tourseite teilen',
+  'share.card': 'Bildkarte teilen',
+  'share.failed': 'Die Datei zum Teilen konnte nicht erstellt werden.',
+  'share.listen': 'Anhören',
+  'share.transcript': 'Transkript',
+  'share.footer': 'Entdeckt mit LuminaTour am {date}',
+  'book.menu': 'Reisebuch',
+  'book.trip': 'Reise',
+  'book.allDates': 'Beliebige Daten',
+  'book.tripOption': '{from} – {to} ({count})',
+  'book.titleLabel': 'Titel',
+  'book.defaultTitle': 'Mein Reisetagebuch',
+  'book.print': 'Drucken',
+  'book.empty': 'Keine Sehenswürdigkeiten in dieser Auswahl.',
+  'book.failed': 'Das Reisebuch konnte nicht erstellt werden.',
+  'book.landmarkCount': '{count} Sehenswürdigkeiten',
+  'book.mapOverview': 'Kartenübersicht',
+  'book.stop': 'Station {number}',
+  'book.index': 'Register nach Ort',
+  'book.page': 'S. {page}',
+  'map.bookmarked': 'Gemerkt',
+  'map.downloaded': 'Heruntergeladen',
+  'map.allThemes': 'Alle Themen',
+  'map.revisit': 'Geschichte erneut ansehen',
+  'map.noMatches': 'Keine Sehenswürdigkeit passt zu diesen Filtern',
+  'settings.mapCache': 'Offline-Karte',
+  'settings.mapCacheHint': 'Kartenkacheln rund um offline gespeicherte Orte werden abgelegt, damit die Entdeckerkarte ohne Verbindung funktioniert.',
+  'settings.mapZoomFrom': 'Zoom von',
+  'settings.mapZoomTo': 'Zoom bis',
+  'settings.mapBudget': 'Budget',
+  'settings.mapUsage': '{tiles} Kacheln · {size} von {budget} MB',
+  'settings.clearMapCache': 'Karten-Cache leeren',
+  'settings.mapCacheCleared': 'Karten-Cache geleert.',
+  'update.available': 'Eine neue Version von LuminaTour ist verfügbar.',
+  'update.reload': 'Aktualisieren',
+  'update.later': 'Später',
+  'card.savingOffline': 'Speichern {percent}%',
+  'card.partlyOffline': 'Teilweise offline',
+  'offline.part.narration': 'Erzählung',
+  'offline.part.cinematic': 'cineastisches Bild',
+  'offline.part.abstract': 'abstraktes Bild',
+  'offline.part.related': 'verwandte Orte',
+  'offline.part.map': 'Kartenkacheln',
+  'offline.missing': 'Fehlt: {missing}',
+  'offline.partial': '{name} wurde offline gespeichert, aber diese Teile sind fehlgeschlagen: {missing}. Tippe erneut auf Herunterladen, um es nochmal zu versuchen.',
+  'offline.failed': 'Diese Tour konnte nicht offline gespeichert werden.',
+  'offline.saving': 'Wird offline gespeichert… {percent}%',
+  'offline.remove': '{name} aus den Offline-Touren entfernen?',
+  'book.pdfNote': 'PDF-Seiten sind Bilder: Text lässt sich nicht markieren oder durchsuchen, Quellenlinks funktionieren aber. Für markierbaren Text HTML wählen.',
+  'tour.arCameraRequired': 'Der AR-Modus braucht Zugriff auf die Kamera. Bitte prüfe, ob die Berechtigung erteilt ist.',
+  'tour.arStability': 'Stabilität',
+  'share.text': 'Geschichte entdecken mit LuminaTour: {name}',
+  'share.copied': 'Link kopiert!',
+  'theme.architecture': 'Architektur',
+  'theme.conflict': 'Konflikt',
+  'theme.modernization': 'Modernisierung',
+  'theme.royal': 'Königszeit',
+  'theme.general': 'Allgemeine Geschichte',
+};
+
+const it: Translations = {
+  'nav.search': 'Cerca monumenti...',
+  'nav.journal': 'Diario',
+  'nav.saved': 'Salvati',
+  'nav.map': 'Mappa',
+  'nav.offline': 'Offline',
+  'hero.badge': 'Viaggi potenziati dall’IA',
+  'hero.title': 'Svela i segreti di',
+  'hero.titleAccent': 'ogni orizzonte.',
+  'hero.offline': 'Sfoglia il tuo diario offline. Connettiti a internet per identificare nuovi monumenti.',
+  'hero.online': 'LuminaTour unisce visione artificiale e ricerca verificata per trasformare le tue foto di viaggio in percorsi profondi.',
+  'home.recent': 'Scoperte recenti',
+  'home.viewAll': 'Vedi tutto',
+  'journal.title': 'Diario di viaggio',
+  'journal.subtitle': 'Le tue scoperte culturali in giro per il mondo.',
+  'journal.empty': 'Nessuna scoperta per ora.',
+  'saved.title': 'Destinazioni salvate',
+  'saved.subtitle': 'Monumenti che hai segnato per tornarci.',
+  'saved.empty': 'Nessun segnalibro per ora.',
+  'card.discovery': 'Scoperta',
+  'card.savedOffline': 'Salvato offline',
+  'card.revisit': 'Rivivi la storia',
+  'map.title': "Mappa dell'esploratore",
+  'map.subtitle': 'La tua impronta culturale nel mondo.',
+  'loading.identifying': "Analisi dell'architettura...",
+  'loading.searching': 'Raccolta dei dati storici...',
+  'loading.step1': 'Decifrazione delle strutture...',
+  'loading.step2': 'Confronto con il database mondiale dei monumenti...',
+  'loading.step3': 'Consultazione degli archivi storici...',
+  'error.title': 'Avviso di sistema',
+  'error.recalibrate': 'Ricomincia',
+  'error.needsConnection': 'Serve una connessione internet per nuove scoperte.',
+  'error.analyzeFailed': "Impossibile analizzare l'immagine. Riprova.",
+  'error.searchFailed': 'Monumento non trovato o ricerca non riuscita.',
+  'error.relatedFailed': 'Impossibile esplorare il sito correlato.',
+  'camera.title': 'Scatta o carica',
+  'camera.subtitle': 'Inquadra un monumento per scoprirne la storia con un tour immersivo.',
+  'camera.upload': 'Carica',
+  'camera.browse': 'Sfoglia',
+  'tour.exit': "Esci dall'esperienza",
+  'tour.chronicle': 'La cronaca',
+  'tour.sources': 'Fonti verificate',
+  'tour.related': 'Scopri siti correlati',
+  'tour.explore': 'Esplora il sito',
+  'tour.playbackRate': 'Velocità:',
+  'tour.narrator': 'Narratore neurale',
+  'tour.playing': 'Immersione attiva',
+  'tour.idle': 'In attesa',
+  'tour.arOn': 'Visione aumentata',
+  'tour.arOff': 'Disattiva RA',
+  'tour.unknownLocation': 'Sconosciuto',
+  'tour.cached': 'In cache · {age}',
+  'tour.live': 'In diretta dalla fonte',
+  'tour.refresh': 'Aggiorna dalla fonte',
+  'tour.refreshFailed': 'Aggiornamento non riuscito. Mostro il contenuto in cache.',
+  'tour.regenerate': "Rigenera in un'altra lingua",
+  'tour.savedOffline': '{name} salvato per l’uso offline.',
+  'settings.title': 'Preferenze',
+  'settings.language': 'Lingua del tour',
+  'settings.languageHint': 'Descrizioni, cronache, narrazione e interfaccia usano questa lingua.',
+  'settings.voice': 'Voce narrante',
+  'settings.cache': 'Cache dei contenuti',
+  'settings.cacheHint': 'I monumenti già visitati si aprono subito e offline finché la cronaca non scade.',
+  'settings.ttlDay': '1 giorno',
+  'settings.ttlWeek': '7 giorni',
+  'settings.ttlMonth': '30 giorni',
+  'settings.ttlForever': 'Sempre',
+  'settings.clearCache': 'Svuota la cache',
+  'settings.cacheCleared': 'Cache dei contenuti svuotata.',
+  'studio.title': 'Studio di narrazione',
+  'studio.original': 'Originale',
+  'studio.voice': 'Voce',
+  'studio.persona': 'Stile',
+  'studio.length': 'Durata',
+  'studio.generate': 'Genera variante',
+  'studio.play': 'Riproduci variante',
+  'studio.generating': 'Composizione...',
+  'persona.storyteller': 'Cantastorie',
+  'persona.scholarly': 'Accademico',
+  'persona.kid-friendly': 'Per bambini',
+  'persona.dramatic': 'Drammatico',
+  'length.short': '30 s',
+  'length.medium': '2 min',
+  'length.long': '5 min di approfondimento',
+  'tour.transcript': 'Trascrizione dal vivo',
+  'tour.transcriptHint': 'Tocca una frase per saltare',
+  'tour.playSection': 'Riproduci questa sezione',
+  'tour.chapter': 'Capitolo {number} · {title}',
+  'tour.chapterLoading': 'Preparazione del capitolo...',
+  'export.audio': 'Scarica audio',
+  'export.wav': 'WAV · senza perdita',
+  'export.mp3': 'MP3 · file più leggero',
+  'export.audioFailed': 'Impossibile esportare l\'audio della narrazione.',
+  'export.bookmarks': 'Esporta narrazioni',
+  'export.bookmarksSkipped': '{exported} narrazioni esportate. {skipped} segnalibri saltati perché la narrazione non è ancora stata generata.',
+  'export.bookmarksEmpty': 'Nessun segnalibro ha ancora l\'audio. Apri un monumento una volta per generarlo.',
+  'playlist.title': 'Audioguida',
+  'playlist.playAll': 'Riproduci tutto',
+  'playlist.add': 'Aggiungi all\'audioguida',
+  'playlist.remove': 'Rimuovi dalla coda',
+  'playlist.queue': 'Coda',
+  'playlist.clear': 'Ferma e svuota la coda',
+  'playlist.preparing': 'Preparazione della narrazione...',
+  'playlist.position': 'Tappa {current} di {total}',
+  'card.planned': 'Pianificato',
+  'geo.menu': 'Esporta / Importa',
+  'geo.all': 'Tutto',
+  'geo.bookmarks': 'Segnalibri',
+  'geo.from': 'Dal',
+  'geo.to': 'Al',
+  'geo.import': 'Importa percorso',
+  'geo.importHint': 'GeoJSON, KML o GPX. Ogni punto diventa una tappa pianificata la cui storia si carica all\'apertura.',
+  'geo.imported': '{count} tappe pianificate aggiunte al diario.',
+  'geo.importFailed': 'Impossibile leggere il file. Usa GeoJSON, KML o GPX.',
+  'geo.nothingToExport': 'Nessun monumento localizzato corrisponde alla selezione.',
+  'geo.skipped': '{exported} punti esportati. {skipped} voci senza coordinate sono state escluse.',
+  'backup.title': 'Backup e ripristino',
+  'backup.hint': 'Un file con tutto il diario, foto, narrazioni, valutazioni e impostazioni. Utile per cambiare dispositivo.',
+  'backup.export': 'Scarica backup',
+  'backup.merge': 'Unisci',
+  'backup.replace': 'Sostituisci',
+  'backup.replaceConfirm': 'Sostituire tutto il diario e le impostazioni con il backup? Le voci assenti verranno eliminate.',
+  'backup.restored': 'Ripristino completato: {added} aggiunte, {updated} aggiornate, {kept} mantenute da questo dispositivo.',
+  'backup.failed': 'Impossibile creare il backup.',
+  'backup.restoreFailed': 'Il file non è un backup LuminaTour leggibile da questa versione.',
+  'map.photoTaken': 'Foto di {name} scattata qui',
+  'camera.processing': 'Preparazione foto...',
+  'camera.unreadable': 'Impossibile leggere la foto. Prova JPEG, PNG o WebP.',
+  'settings.photos': 'Dimensione foto',
+  'settings.photosHint': 'Le foto vengono ridotte a questo lato massimo prima dell\'invio, risparmiando dati in roaming.',
+  'settings.keepOriginals': 'Conserva gli originali a piena risoluzione nel diario',
+  'candidates.title': 'Quale è?',
+  'candidates.subtitle': 'Non siamo sicuri di questa foto. Scegli il monumento fotografato e ne racconteremo la storia.',
+  'candidates.none': 'Nessuno, cerca per nome',
+  'tour.wrongLandmark': 'Non è questo?',
+  'camera.live': 'Live',
+  'live.scanning': 'Inquadra un monumento',
+  'live.provisional': 'Sembra · {confidence}%',
+  'live.tapToLock': 'Tocca per bloccare ed esplorare',
+  'live.offline': 'Offline: riconoscimento in pausa',
+  'live.cameraDenied': 'Serve l\'accesso alla fotocamera per il mirino live. Controlla i permessi del browser.',
+  'import.title': 'Importazione foto · {done}/{total}',
+  'import.clearFinished': 'Rimuovi completate',
+  'import.queued': 'In attesa',
+  'import.preparing': 'Preparazione foto',
+  'import.identifying': 'Identificazione',
+  'import.researching': 'Ricerca storica',
+  'import.done': 'Nel diario',
+  'import.failed': 'Non riuscito',
+  'import.retry': 'Riprova',
+  'import.remove': 'Rimuovi',
+  'error.quota': 'Il servizio di IA ha superato il limite di utilizzo. Attendi un minuto e riprova, oppure sfoglia il tuo diario nel frattempo.',
+  'error.invalidKey': 'Il servizio di IA ha rifiutato la chiave API. Controlla la chiave con cui è stata creata l\'app; il diario funziona ancora offline.',
+  'error.safety': 'Questa foto è stata bloccata dai filtri di sicurezza. Prova un\'altra foto o cerca per nome.',
+  'error.noLandmark': 'Nessun monumento trovato in questa foto. Inquadra meglio l\'edificio o cercalo per nome.',
+  'error.malformed': 'L\'IA ha restituito una risposta illeggibile. Riprovare di solito risolve.',
+  'error.timeout': 'L\'IA ha impiegato troppo a rispondere. Controlla la connessione e riprova.',
+  'error.retry': 'Riprova',
+  'error.newPhoto': 'Prova un\'altra foto',
+  'error.searchByName': 'Cerca per nome',
+  'error.continueOffline': 'Continua offline',
+  'share.page': 'Condividi pagina del tour',
+  'share.card': 'Condividi scheda immagine',
+  'share.failed': 'Impossibile preparare il file da condividere.',
+  'share.listen': 'Ascolta',
+  'share.transcript': 'Trascrizione',
+  'share.footer': 'Scoperto con LuminaTour il {date}',
+  'book.menu': 'Diario di viaggio',
+  'book.trip': 'Viaggio',
+  'book.allDates': 'Qualsiasi data',
+  'book.tripOption': '{from} – {to} ({count})',
+  'book.titleLabel': 'Titolo',
+  'book.defaultTitle': 'Il mio diario di viaggio',
+  'book.print': 'Stampa',
+  'book.empty': 'Nessun monumento in questa selezione.',
+  'book.failed': 'Impossibile creare il diario di viaggio.',
+  'book.landmarkCount': '{count} monumenti',
+  'book.mapOverview': 'Mappa generale',
+  'book.stop': 'Tappa {number}',
+  'book.index': 'Indice per luogo',
+  'book.page': 'p. {page}',
+  'map.bookmarked': 'Preferiti',
+  'map.downloaded': 'Scaricati',
+  'map.allThemes': 'Tutti i temi',
+  'map.revisit': 'Rivivi la storia',
+  'map.noMatches': 'Nessun luogo corrisponde a questi filtri',
+  'settings.mapCache': 'Mappa offline',
+  'settings.mapCacheHint': 'Le tessere della mappa attorno ai luoghi salvati offline vengono conservate, così la mappa funziona senza connessione.',
+  'settings.mapZoomFrom': 'Zoom da',
+  'settings.mapZoomTo': 'Zoom a',
+  'settings.mapBudget': 'Limite',
+  'settings.mapUsage': '{tiles} tessere · {size} di {budget} MB',
+  'settings.clearMapCache': 'Svuota cache mappa',
+  'settings.mapCacheCleared': 'Cache della mappa svuotata.',
+  'update.available': 'È disponibile una nuova versione di LuminaTour.',
+  'update.reload': 'Aggiorna',
+  'update.later': 'Più tardi',
+  'card.savingOffline': 'Salvataggio {percent}%',
+  'card.partlyOffline': 'Parzialmente offline',
+  'offline.part.narration': 'narrazione',
+  'offline.part.cinematic': 'immagine cinematografica',
+  'offline.part.abstract': 'immagine astratta',
+  'offline.part.related': 'luoghi correlati',
+  'offline.part.map': 'tessere della mappa',
+  'offline.missing': 'Mancante: {missing}',
+  'offline.partial': '{name} è stato salvato offline, ma queste parti non sono riuscite: {missing}. Tocca di nuovo scarica per riprovare.',
+  'offline.failed': 'Impossibile salvare questo tour offline.',
+  'offline.saving': 'Salvataggio offline… {percent}%',
+  'offline.remove': 'Rimuovere {name} dai tour offline?',
+  'book.pdfNote': 'Le pagine del PDF sono immagini: il testo non si può selezionare né cercare, ma i link alle fonti si aprono. Scegli HTML per un testo selezionabile.',
+  'tour.arCameraRequired': 'La modalità AR richiede l\'accesso alla fotocamera. Verifica di aver concesso i permessi.',
+  'tour.arStability': 'Stabilità',
+  'share.text': 'Alla scoperta della storia con LuminaTour: {name}',
+  'share.copied': 'Link copiato!',
+  'theme.architecture': 'Architettura',
+  'theme.conflict': 'Conflitto',
+  'theme.modernization': 'Modernizzazione',
+  'theme.royal': 'Epoca reale',
+  'theme.general': 'Storia generale',
+};
+
+const pt: Translations = {
+  'nav.search': 'Pesquisar monumentos...',
+  'nav.journal': 'Diário',
+  'nav.saved': 'Salvos',
+  'nav.map': 'Mapa',
+  'nav.offline': 'Offline',
+  'hero.badge': 'Viagens ampliadas por IA',
+  'hero.title': 'Revele os segredos de',
+  'hero.titleAccent': 'cada horizonte.',
+  'hero.offline': 'Explore seu diário offline. Conecte-se à internet para identificar novos monumentos.',
+  'hero.online': 'O LuminaTour une visão computacional e pesquisa verificada para transformar suas fotos de viagem em jornadas profundas.',
+  'home.recent': 'Descobertas recentes',
+  'home.viewAll': 'Ver tudo',
+  'journal.title': 'Diário de viagem',
+  'journal.subtitle': 'Suas descobertas culturais pelo mundo.',
+  'journal.empty': 'Nenhuma descoberta ainda.',
+  'saved.title': 'Destinos salvos',
+  'saved.subtitle': 'Monumentos que você marcou para revisitar.',
+  'saved.empty': 'Nenhum favorito ainda.',
+  'card.discovery': 'Descoberta',
+  'card.savedOffline': 'Salvo offline',
+  'card.revisit': 'Rever a história',
+  'map.title': 'Mapa do explorador',
+  'map.subtitle': 'Sua pegada cultural pelo mundo.',
+  'loading.identifying': 'Analisando a arquitetura...',
+  'loading.searching': 'Reunindo dados históricos...',
+  'loading.step1': 'Decifrando padrões estruturais...',
+  'loading.step2': 'Comparando com a base mundial de monumentos...',
+  'loading.step3': 'Consultando arquivos históricos verificados...',
+  'error.title': 'Aviso do sistema',
+  'error.recalibrate': 'Recomeçar',
+  'error.needsConnection': 'É necessária conexão com a internet para novas descobertas.',
+  'error.analyzeFailed': 'Não foi possível analisar a imagem. Tente novamente.',
+  'error.searchFailed': 'Monumento não encontrado ou a pesquisa falhou.',
+  'error.relatedFailed': 'Não foi possível explorar o local relacionado.',
+  'camera.title': 'Fotografe ou envie',
+  'camera.subtitle': 'Capture um monumento para revelar sua história em um tour imersivo.',
+  'camera.upload': 'Enviar',
+  'camera.browse': 'Procurar',
+  'tour.exit': 'Sair da experiência',
+  'tour.chronicle': 'A crônica',
+  'tour.sources': 'Fontes verificadas',
+  'tour.related': 'Descubra locais relacionados',
+  'tour.explore': 'Explorar local',
+  'tour.playbackRate': 'Velocidade:',
+  'tour.narrator': 'Narrador neural',
+  'tour.playing': 'Imersão ativa',
+  'tour.idle': 'Aguardando',
+  'tour.arOn': 'Visão aumentada',
+  'tour.arOff': 'Desligar RA',
+  'tour.unknownLocation': 'Desconhecido',
+  'tour.cached': 'Em cache · {age}',
+  'tour.live': 'Ao vivo da fonte',
+  'tour.refresh': 'Atualizar da fonte',
+  'tour.refreshFailed': 'Não foi possível atualizar. Exibindo conteúdo em cache.',
+  'tour.regenerate': 'Gerar novamente em outro idioma',
+  'tour.savedOffline': '{name} salvo para acesso offline.',
+  'settings.title': 'Preferências',
+  'settings.language': 'Idioma do tour',
+  'settings.languageHint': 'Descrições, crônicas, narração e interface usam este idioma.',
+  'settings.voice': 'Voz da narração',
+  'settings.cache': 'Cache de conteúdo',
+  'settings.cacheHint': 'Monumentos revisitados abrem na hora e offline até a crônica expirar.',
+  'settings.ttlDay': '1 dia',
+  'settings.ttlWeek': '7 dias',
+  'settings.ttlMonth': '30 dias',
+  'settings.ttlForever': 'Sempre',
+  'settings.clearCache': 'Limpar cache',
+  'settings.cacheCleared': 'Cache de conteúdo limpo.',
+  'studio.title': 'Estúdio de narração',
+  'studio.original': 'Original',
+  'studio.voice': 'Voz',
+  'studio.persona': 'Estilo',
+  'studio.length': 'Duração',
+  'studio.generate': 'Gerar variante',
+  'studio.play': 'Reproduzir variante',
+  'studio.generating': 'Compondo...',
+  'persona.storyteller': 'Contador de histórias',
+  'persona.scholarly': 'Acadêmico',
+  'persona.kid-friendly': 'Para crianças',
+  'persona.dramatic': 'Dramático',
+  'length.short': '30 s',
+  'length.medium': '2 min',
+  'length.long': '5 min aprofundado',
+  'tour.transcript': 'Transcrição ao vivo',
+  'tour.transcriptHint': 'Toque numa frase para saltar',
+  'tour.playSection': 'Reproduzir esta secção',
+  'tour.chapter': 'Capítulo {number} · {title}',
+  'tour.chapterLoading': 'A preparar capítulo...',
+  'export.audio': 'Transferir áudio',
+  'export.wav': 'WAV · sem perdas',
+  'export.mp3': 'MP3 · ficheiro mais leve',
+  'export.audioFailed': 'Não foi possível exportar o áudio da narração.',
+  'export.bookmarks': 'Exportar narrações',
+  'export.bookmarksSkipped': '{exported} narrações exportadas. {skipped} marcadores foram ignorados porque a narração ainda não foi gerada.',
+  'export.bookmarksEmpty': 'Nenhum marcador tem áudio ainda. Abra um monumento uma vez para o gerar.',
+  'playlist.title': 'Audioguia',
+  'playlist.playAll': 'Reproduzir tudo',
+  'playlist.add': 'Adicionar à audioguia',
+  'playlist.remove': 'Remover da fila',
+  'playlist.queue': 'Fila',
+  'playlist.clear': 'Parar e limpar a fila',
+  'playlist.preparing': 'A preparar narração...',
+  'playlist.position': 'Paragem {current} de {total}',
+  'card.planned': 'Planeado',
+  'geo.menu': 'Exportar / Importar',
+  'geo.all': 'Tudo',
+  'geo.bookmarks': 'Marcadores',
+  'geo.from': 'De',
+  'geo.to': 'Até',
+  'geo.import': 'Importar rota',
+  'geo.importHint': 'GeoJSON, KML ou GPX. Cada ponto torna-se uma paragem planeada cuja história carrega ao abrir.',
+  'geo.imported': '{count} paragens planeadas adicionadas ao diário.',
+  'geo.importFailed': 'Não foi possível ler o ficheiro. Use GeoJSON, KML ou GPX.',
+  'geo.nothingToExport': 'Nenhum monumento com localização corresponde à seleção.',
+  'geo.skipped': '{exported} pontos exportados. {skipped} entradas sem coordenadas foram ignoradas.',
+  'backup.title': 'Cópia e restauro',
+  'backup.hint': 'Um ficheiro com todo o diário, fotos, narrações, avaliações e definições. Use-o para mudar de dispositivo.',
+  'backup.export': 'Descarregar cópia',
+  'backup.merge': 'Combinar',
+  'backup.replace': 'Substituir',
+  'backup.replaceConfirm': 'Substituir todo o diário e definições pela cópia? As entradas que não estão nela serão apagadas.',
+  'backup.restored': 'Restauro concluído: {added} adicionadas, {updated} atualizadas, {kept} mantidas deste dispositivo.',
+  'backup.failed': 'Não foi possível criar a cópia.',
+  'backup.restoreFailed': 'Esse ficheiro não é uma cópia LuminaTour legível por esta versão.',
+  'map.photoTaken': 'Foto de {name} tirada aqui',
+  'camera.processing': 'A preparar a foto...',
+  'camera.unreadable': 'Não foi possível ler a foto. Tente JPEG, PNG ou WebP.',
+  'settings.photos': 'Tamanho da foto',
+  'settings.photosHint': 'As fotos são reduzidas a este lado maior antes do envio, poupando dados em roaming.',
+  'settings.keepOriginals': 'Guardar originais em resolução total no diário',
+  'candidates.title': 'Qual é?',
+  'candidates.subtitle': 'Não temos certeza sobre esta foto. Escolha o monumento fotografado e contaremos a sua história.',
+  'candidates.none': 'Nenhum, pesquisar por nome',
+  'tour.wrongLandmark': 'Não é este?',
+  'camera.live': 'Ao vivo',
+  'live.scanning': 'Aponte para um monumento',
+  'live.provisional': 'Parece · {confidence}%',
+  'live.tapToLock': 'Toque para fixar e explorar',
+  'live.offline': 'Offline: reconhecimento em pausa',
+  'live.cameraDenied': 'É necessário acesso à câmara para o visor ao vivo. Verifique as permissões do navegador.',
+  'import.title': 'Importação de fotos · {done}/{total}',
+  'import.clearFinished': 'Limpar concluídas',
+  'import.queued': 'Em espera',
+  'import.preparing': 'A preparar foto',
+  'import.identifying': 'A identificar',
+  'import.researching': 'A pesquisar a história',
+  'import.done': 'No seu diário',
+  'import.failed': 'Falhou',
+  'import.retry': 'Tentar novamente',
+  'import.remove': 'Remover',
+  'error.quota': 'O serviço de IA excedeu o limite de uso. Aguarde um minuto e tente novamente, ou explore seu diário enquanto isso.',
+  'error.invalidKey': 'O serviço de IA recusou a chave de API. Verifique a chave usada neste app; seu diário continua funcionando offline.',
+  'error.safety': 'Esta foto foi bloqueada pelos filtros de segurança. Tente outra foto ou pesquise pelo nome.',
+  'error.noLandmark': 'Nenhum monumento foi encontrado nesta foto. Enquadre melhor o edifício ou pesquise pelo nome.',
+  'error.malformed': 'A IA retornou uma resposta ilegível. Tentar de novo geralmente resolve.',
+  'error.timeout': 'A IA demorou demais para responder. Verifique sua conexão e tente novamente.',
+  'error.retry': 'Tentar novamente',
+  'error.newPhoto': 'Tentar outra foto',
+  'error.searchByName': 'Pesquisar pelo nome',
+  'error.continueOffline': 'Continuar offline',
+  'share.page': 'Compartilhar página do tour',
+  'share.card': 'Compartilhar cartão de imagem',
+  'share.failed': 'Não foi possível preparar o arquivo para compartilhar.',
+  'share.listen': 'Ouvir',
+  'share.transcript': 'Transcrição',
+  'share.footer': 'Descoberto com LuminaTour em {date}',
+  'book.menu': 'Livro de viagem',
+  'book.trip': 'Viagem',
+  'book.allDates': 'Qualquer data',
+  'book.tripOption': '{from} – {to} ({count})',
+  'book.titleLabel': 'Título',
+  'book.defaultTitle': 'Meu diário de viagem',
+  'book.print': 'Imprimir',
+  'book.empty': 'Nenhum monumento nesta seleção.',
+  'book.failed': 'Não foi possível criar o livro de viagem.',
+  'book.landmarkCount': '{count} monumentos',
+  'book.mapOverview': 'Visão geral do mapa',
+  'book.stop': 'Parada {number}',
+  'book.index': 'Índice por local',
+  'book.page': 'p. {page}',
+  'map.bookmarked': 'Salvos',
+  'map.downloaded': 'Baixados',
+  'map.allThemes': 'Todos os temas',
+  'map.revisit': 'Rever a história',
+  'map.noMatches': 'Nenhum local corresponde a estes filtros',
+  'settings.mapCache': 'Mapa offline',
+  'settings.mapCacheHint': 'Os blocos do mapa ao redor dos locais salvos offline são guardados para que o mapa funcione sem conexão.',
+  'settings.mapZoomFrom': 'Zoom de',
+  'settings.mapZoomTo': 'Zoom até',
+  'settings.mapBudget': 'Limite',
+  'settings.mapUsage': '{tiles} blocos · {size} de {budget} MB',
+  'settings.clearMapCache': 'Limpar cache do mapa',
+  'settings.mapCacheCleared': 'Cache do mapa limpo.',
+  'update.available': 'Uma nova versão do LuminaTour está disponível.',
+  'update.reload': 'Atualizar',
+  'update.later': 'Mais tarde',
+  'card.savingOffline': 'Salvando {percent}%',
+  'card.partlyOffline': 'Parcialmente offline',
+  'offline.part.narration': 'narração',
+  'offline.part.cinematic': 'imagem cinematográfica',
+  'offline.part.abstract': 'imagem abstrata',
+  'offline.part.related': 'locais relacionados',
+  'offline.part.map': 'blocos do mapa',
+  'offline.missing': 'Faltando: {missing}',
+  'offline.partial': '{name} foi salvo offline, mas estas partes falharam: {missing}. Toque em baixar de novo para tentar outra vez.',
+  'offline.failed': 'Não foi possível salvar este tour offline.',
+  'offline.saving': 'Salvando offline… {percent}%',
+  'offline.remove': 'Remover {name} dos tours offline?',
+  'book.pdfNote': 'As páginas do PDF são imagens: o texto não pode ser selecionado nem pesquisado, mas os links das fontes abrem. Escolha HTML para ter texto selecionável.',
+  'tour.arCameraRequired': 'O modo RA precisa de acesso à câmera. Verifique se as permissões foram concedidas.',
+  'tour.arStability': 'Estabilidade',
+  'share.text': 'Descobrindo a história com o LuminaTour: {name}',
+  'share.copied': 'Link copiado!',
+  'theme.architecture': 'Arquitetura',
+  'theme.conflict': 'Conflito',
+  'theme.modernization': 'Modernização',
+  'theme.royal': 'Era real',
+  'theme.general': 'História geral',
+};
+
+const ja: Translations = {
+  'nav.search': 'ランドマークを検索...',
+  'nav.journal': 'ジャーナル',
+  'nav.saved': '保存済み',
+  'nav.map': 'マップ',
+  'nav.offline': 'オフライン',
+  'hero.badge': 'AIで広がる旅',
+  'hero.title': 'すべての地平に眠る',
+  'hero.titleAccent': '秘密を解き明かす。',
+  'hero.offline': 'オフラインのジャーナルを閲覧できます。新しいランドマークを識別するにはインターネットに接続してください。',
+  'hero.online': 'LuminaTour は画像認識と検証済み検索で、旅の写真を奥深い物語に変えます。',
+  'home.recent': '最近の発見',
+  'home.viewAll': 'すべて表示',
+  'journal.title': '旅のジャーナル',
+  'journal.subtitle': '世界中で出会った文化の記録。',
+  'journal.empty': 'まだ発見はありません。',
+  'saved.title': '保存した目的地',
+  'saved.subtitle': 'また訪れたいランドマーク。',
+  'saved.empty': 'まだブックマークはありません。',
+  'card.discovery': '発見',
+  'card.savedOffline': 'オフライン保存済み',
+  'card.revisit': 'ストーリーを見る',
+  'map.title': 'エクスプローラーマップ',
+  'map.subtitle': '世界に刻んだ文化の足跡。',
+  'loading.identifying': '建築を解析しています...',
+  'loading.searching': '歴史データを収集しています...',
+  'loading.step1': '構造パターンを解読中...',
+  'loading.step2': '世界のランドマークと照合中...',
+  'loading.step3': '歴史アーカイブを照会中...',
+  'error.title': 'システム通知',
+  'error.recalibrate': 'やり直す',
+  'error.needsConnection': '新しい発見にはインターネット接続が必要です。',
+  'error.analyzeFailed': '画像を解析できませんでした。もう一度お試しください。',
+  'error.searchFailed': 'ランドマークが見つからないか、検索に失敗しました。',
+  'error.relatedFailed': '関連スポットを開けませんでした。',
+  'camera.title': '撮影またはアップロード',
+  'camera.subtitle': 'ランドマークを撮影して、その歴史を没入型ツアーで体験しましょう。',
+  'camera.upload': 'アップロード',
+  'camera.browse': '参照',
+  'tour.exit': '体験を終了',
+  'tour.chronicle': '年代記',
+  'tour.sources': '検証済みの出典',
+  'tour.related': '関連スポットを発見',
+  'tour.explore': 'スポットを探索',
+  'tour.playbackRate': '再生速度:',
+  'tour.narrator': 'ニューラルナレーター',
+  'tour.playing': '再生中',
+  'tour.idle': '待機中',
+  'tour.arOn': '拡張ビジョン',
+  'tour.arOff': 'ARを終了',
+  'tour.unknownLocation': '不明',
+  'tour.cached': 'キャッシュ · {age}',
+  'tour.live': 'ソースから取得',
+  'tour.refresh': 'ソースから更新',
+  'tour.refreshFailed': '更新できませんでした。キャッシュを表示しています。',
+  'tour.regenerate': '別の言語で再生成',
+  'tour.savedOffline': '{name} をオフライン用に保存しました。',
+  'settings.title': '設定',
+  'settings.language': 'ツアーの言語',
+  'settings.languageHint': '説明、年代記、ナレーション、画面表示にこの言語を使います。',
+  'settings.voice': 'ナレーションの声',
+  'settings.cache': 'コンテンツキャッシュ',
+  'settings.cacheHint': '再訪したランドマークは、キャッシュの期限まで即座にオフラインでも表示されます。',
+  'settings.ttlDay': '1日',
+  'settings.ttlWeek': '7日',
+  'settings.ttlMonth': '30日',
+  'settings.ttlForever': '無期限',
+  'settings.clearCache': 'キャッシュを消去',
+  'settings.cacheCleared': 'コンテンツキャッシュを消去しました。',
+  'studio.title': 'ナレーションスタジオ',
+  'studio.original': 'オリジナル',
+  'studio.voice': '声',
+  'studio.persona': '語り口',
+  'studio.length': '長さ',
+  'studio.generate': 'バリエーションを生成',
+  'studio.play': 'バリエーションを再生',
+  'studio.generating': '作成中...',
+  'persona.storyteller': 'ストーリーテラー',
+  'persona.scholarly': '学術的',
+  'persona.kid-friendly': '子ども向け',
+  'persona.dramatic': 'ドラマチック',
+  'length.short': '30秒',
+  'length.medium': '2分',
+  'length.long': '5分の詳細版',
+  'tour.transcript': 'ライブ字幕',
+  'tour.transcriptHint': '文をタップして移動',
+  'tour.playSection': 'このセクションを再生',
+  'tour.chapter': '第{number}章 · {title}',
+  'tour.chapterLoading': '章を準備中...',
+  'export.audio': '音声をダウンロード',
+  'export.wav': 'WAV · ロスレス',
+  'export.mp3': 'MP3 · 軽量ファイル',
+  'export.audioFailed': 'ナレーション音声を書き出せませんでした。',
+  'export.bookmarks': 'ナレーションを書き出す',
+  'export.bookmarksSkipped': '{exported}件のナレーションを書き出しました。ナレーション未生成のため{skipped}件をスキップしました。',
+  'export.bookmarksEmpty': '音声付きのブックマークはまだありません。一度開くと生成されます。',
+  'playlist.title': 'オーディオツアー',
+  'playlist.playAll': 'すべて再生',
+  'playlist.add': 'オーディオツアーに追加',
+  'playlist.remove': 'キューから削除',
+  'playlist.queue': 'キュー',
+  'playlist.clear': '停止してキューを消去',
+  'playlist.preparing': 'ナレーションを準備中...',
+  'playlist.position': '{total}件中{current}件目',
+  'card.planned': '予定',
+  'geo.menu': '書き出し / 読み込み',
+  'geo.all': 'すべて',
+  'geo.bookmarks': 'ブックマーク',
+  'geo.from': '開始',
+  'geo.to': '終了',
+  'geo.import': 'ルートを読み込む',
+  'geo.importHint': 'GeoJSON・KML・GPXに対応。各地点は予定スポットとなり、開くと解説を読み込みます。',
+  'geo.imported': '{count}件の予定スポットをジャーナルに追加しました。',
+  'geo.importFailed': 'ファイルを読み込めませんでした。GeoJSON・KML・GPXを使用してください。',
+  'geo.nothingToExport': '条件に合う位置情報付きのスポットがありません。',
+  'geo.skipped': '{exported}地点を書き出しました。座標のない{skipped}件は除外しました。',
+  'backup.title': 'バックアップと復元',
+  'backup.hint': 'ジャーナル・写真・ナレーション・評価・設定をまとめた1つのファイル。端末の移行に使えます。',
+  'backup.export': 'バックアップを保存',
+  'backup.merge': '統合',
+  'backup.replace': '置き換え',
+  'backup.replaceConfirm': 'ジャーナルと設定をバックアップで置き換えますか？バックアップにない項目は削除されます。',
+  'backup.restored': '復元完了：追加 {added}件、更新 {updated}件、この端末の内容を保持 {kept}件。',
+  'backup.failed': 'バックアップを作成できませんでした。',
+  'backup.restoreFailed': 'このバージョンで読み込めるLuminaTourのバックアップではありません。',
+  'map.photoTaken': '{name}の写真をここで撮影',
+  'camera.processing': '写真を準備中...',
+  'camera.unreadable': '写真を読み込めませんでした。JPEG・PNG・WebPをお試しください。',
+  'settings.photos': '写真サイズ',
+  'settings.photosHint': '送信前に写真の長辺をこのサイズに縮小し、ローミング時の通信量を抑えます。',
+  'settings.keepOriginals': 'ジャーナルにフル解像度の元画像を保存',
+  'candidates.title': 'どれですか？',
+  'candidates.subtitle': 'この写真は判別に自信がありません。撮影したスポットを選ぶと解説を始めます。',
+  'candidates.none': 'どれでもない（名前で検索）',
+  'tour.wrongLandmark': '違う場所？',
+  'camera.live': 'ライブ',
+  'live.scanning': 'スポットに向けてください',
+  'live.provisional': '推定 · {confidence}%',
+  'live.tapToLock': 'タップして確定・探索',
+  'live.offline': 'オフライン：認識を一時停止中',
+  'live.cameraDenied': 'ライブビューファインダーにはカメラへのアクセスが必要です。ブラウザの権限を確認してください。',
+  'import.title': '写真の取り込み · {done}/{total}',
+  'import.clearFinished': '完了分を消去',
+  'import.queued': '待機中',
+  'import.preparing': '写真を準備中',
+  'import.identifying': '識別中',
+  'import.researching': '歴史を調査中',
+  'import.done': 'ジャーナルに追加済み',
+  'import.failed': '失敗',
+  'import.retry': '再試行',
+  'import.remove': '削除',
+  'error.quota': 'AIサービスの利用上限に達しました。1分ほど待ってから再試行するか、その間ジャーナルをご覧ください。',
+  'error.invalidKey': 'AIサービスがAPIキーを拒否しました。このアプリのキーを確認してください。ジャーナルはオフラインでも使えます。',
+  'error.safety': 'この写真は安全フィルターによりブロックされました。別の写真を試すか、名前で検索してください。',
+  'error.noLandmark': 'この写真からランドマークが見つかりませんでした。建物をはっきり写すか、名前で検索してください。',
+  'error.malformed': 'AIの応答を読み取れませんでした。再試行すると通常は解決します。',
+  'error.timeout': 'AIの応答に時間がかかりすぎました。接続を確認して再試行してください。',
+  'error.retry': '再試行',
+  'error.newPhoto': '別の写真を試す',
+  'error.searchByName': '名前で検索',
+  'error.continueOffline': 'オフラインで続ける',
+  'share.page': 'ツアーページを共有',
+  'share.card': '画像カードを共有',
+  'share.failed': '共有するファイルを準備できませんでした。',
+  'share.listen': '聴く',
+  'share.transcript': '書き起こし',
+  'share.footer': '{date} に LuminaTour で発見',
+  'book.menu': '旅行ブック',
+  'book.trip': '旅行',
+  'book.allDates': 'すべての日付',
+  'book.tripOption': '{from} – {to}（{count}）',
+  'book.titleLabel': 'タイトル',
+  'book.defaultTitle': 'わたしの旅行記',
+  'book.print': '印刷',
+  'book.empty': 'この選択にはランドマークがありません。',
+  'book.failed': '旅行ブックを作成できませんでした。',
+  'book.landmarkCount': '{count} か所のランドマーク',
+  'book.mapOverview': 'マップ概要',
+  'book.stop': 'スポット {number}',
+  'book.index': '場所別索引',
+  'book.page': '{page} ページ',
+  'map.bookmarked': 'ブックマーク',
+  'map.downloaded': 'ダウンロード済み',
+  'map.allThemes': 'すべてのテーマ',
+  'map.revisit': '物語をもう一度',
+  'map.noMatches': '条件に合うランドマークはありません',
+  'settings.mapCache': 'オフライン地図',
+  'settings.mapCacheHint': 'オフライン保存したランドマーク周辺の地図タイルを保存し、接続がなくてもマップを表示します。',
+  'settings.mapZoomFrom': '最小ズーム',
+  'settings.mapZoomTo': '最大ズーム',
+  'settings.mapBudget': '上限',
+  'settings.mapUsage': '{tiles} タイル · {size} / {budget} MB',
+  'settings.clearMapCache': '地図キャッシュを消去',
+  'settings.mapCacheCleared': '地図キャッシュを消去しました。',
+  'update.available': 'LuminaTour の新しいバージョンがあります。',
+  'update.reload': '更新',
+  'update.later': '後で',
+  'card.savingOffline': '保存中 {percent}%',
+  'card.partlyOffline': '一部オフライン',
+  'offline.part.narration': 'ナレーション',
+  'offline.part.cinematic': 'シネマティック画像',
+  'offline.part.abstract': '抽象画像',
+  'offline.part.related': '関連ランドマーク',
+  'offline.part.map': '地図タイル',
+  'offline.missing': '未保存: {missing}',
+  'offline.partial': '{name} をオフライン保存しましたが、次の項目に失敗しました: {missing}。もう一度ダウンロードすると再試行します。',
+  'offline.failed': 'このツアーをオフライン保存できませんでした。',
+  'offline.saving': 'オフライン保存中… {percent}%',
+  'offline.remove': '{name} をオフラインツアーから削除しますか？',
+  'book.pdfNote': 'PDFのページは画像です。文字の選択や検索はできませんが、出典のリンクは開けます。文字を選択したい場合はHTMLを選んでください。',
+  'tour.arCameraRequired': 'ARモードにはカメラへのアクセスが必要です。権限が許可されているか確認してください。',
+  'tour.arStability': '安定度',
+  'share.text': 'LuminaTourで歴史を発見：{name}',
+  'share.copied': 'リンクをコピーしました',
+  'theme.architecture': '建築',
+  'theme.conflict': '争い',
+  'theme.modernization': '近代化',
+  'theme.royal': '王朝時代',
+  'theme.general': '一般史',
+};
+
+const zh: Translations = {
+  'nav.search': '搜索地标...',
+  'nav.journal': '日志',
+  'nav.saved': '收藏',
+  'nav.map': '地图',
+  'nav.offline': '离线',
+  'hero.badge': 'AI 增强旅行',
+  'hero.title': '揭开每一道',
+  'hero.titleAccent': '地平线的秘密。',
+  'hero.offline': '浏览离线日志。连接互联网即可识别新的地标。',
+  'hero.online': 'LuminaTour 结合视觉识别与可靠检索，把你的旅行照片变成深度探索。',
+  'home.recent': '最近发现',
+  'home.viewAll': '查看全部',
+  'journal.title': '旅行日志',
+  'journal.subtitle': '你在世界各地的文化发现。',
+  'journal.empty': '还没有发现。',
+  'saved.title': '收藏的目的地',
+  'saved.subtitle': '你标记为以后再访的地标。',
+  'saved.empty': '还没有收藏。',
+  'card.discovery': '发现',
+  'card.savedOffline': '已离线保存',
+  'card.revisit': '重温故事',
+  'map.title': '探索地图',
+  'map.subtitle': '你在全球留下的文化足迹。',
+  'loading.identifying': '正在分析建筑...',
+  'loading.searching': '正在收集历史资料...',
+  'loading.step1': '正在解读结构特征...',
+  'loading.step2': '正在比对全球地标数据库...',
+  'loading.step3': '正在查询历史档案...',
+  'error.title': '系统提示',
+  'error.recalibrate': '重新开始',
+  'error.needsConnection': '新的发现需要联网。',
+  'error.analyzeFailed': '无法分析图片，请重试。',
+  'error.searchFailed': '未找到地标或搜索失败。',
+  'error.relatedFailed': '无法打开相关地点。',
+  'camera.title': '拍摄或上传',
+  'camera.subtitle': '拍下地标，揭开它的历史，开启沉浸式导览。',
+  'camera.upload': '上传',
+  'camera.browse': '浏览',
+  'tour.exit': '退出体验',
+  'tour.chronicle': '编年史',
+  'tour.sources': '可靠来源',
+  'tour.related': '发现相关地点',
+  'tour.explore': '探索地点',
+  'tour.playbackRate': '播放速度：',
+  'tour.narrator': '神经讲解员',
+  'tour.playing': '正在播放',
+  'tour.idle': '等待中',
+  'tour.arOn': '增强视觉',
+  'tour.arOff': '退出 AR',
+  'tour.unknownLocation': '未知',
+  'tour.cached': '已缓存 · {age}',
+  'tour.live': '实时获取',
+  'tour.refresh': '从来源刷新',
+  'tour.refreshFailed': '无法刷新，正在显示缓存内容。',
+  'tour.regenerate': '用其他语言重新生成',
+  'tour.savedOffline': '已离线保存 {name}。',
+  'settings.title': '偏好设置',
+  'settings.language': '导览语言',
+  'settings.languageHint': '描述、编年史、讲解和界面都会使用此语言。',
+  'settings.voice': '讲解声音',
+  'settings.cache': '内容缓存',
+  'settings.cacheHint': '再次访问的地标在缓存过期前可即时离线打开。',
+  'settings.ttlDay': '1 天',
+  'settings.ttlWeek': '7 天',
+  'settings.ttlMonth': '30 天',
+  'settings.ttlForever': '永久',
+  'settings.clearCache': '清除缓存',
+  'settings.cacheCleared': '内容缓存已清除。',
+  'studio.title': '讲解工作室',
+  'studio.original': '原版',
+  'studio.voice': '声音',
+  'studio.persona': '风格',
+  'studio.length': '时长',
+  'studio.generate': '生成版本',
+  'studio.play': '播放此版本',
+  'studio.generating': '生成中...',
+  'persona.storyteller': '讲故事',
+  'persona.scholarly': '学术',
+  'persona.kid-friendly': '儿童版',
+  'persona.dramatic': '戏剧化',
+  'length.short': '30 秒',
+  'length.medium': '2 分钟',
+  'length.long': '5 分钟深度版',
+  'tour.transcript': '实时字幕',
+  'tour.transcriptHint': '点按句子即可跳转',
+  'tour.playSection': '播放本节',
+  'tour.chapter': '第 {number} 章 · {title}',
+  'tour.chapterLoading': '正在准备章节...',
+  'export.audio': '下载音频',
+  'export.wav': 'WAV · 无损',
+  'export.mp3': 'MP3 · 更小文件',
+  'export.audioFailed': '无法导出讲解音频。',
+  'export.bookmarks': '导出讲解',
+  'export.bookmarksSkipped': '已导出 {exported} 条讲解。{skipped} 个收藏尚未生成讲解，已跳过。',
+  'export.bookmarksEmpty': '收藏中还没有讲解音频。打开一次地标即可生成。',
+  'playlist.title': '语音导览',
+  'playlist.playAll': '全部播放',
+  'playlist.add': '加入语音导览',
+  'playlist.remove': '从队列移除',
+  'playlist.queue': '队列',
+  'playlist.clear': '停止并清空队列',
+  'playlist.preparing': '正在准备讲解...',
+  'playlist.position': '第 {current} / {total} 站',
+  'card.planned': '计划中',
+  'geo.menu': '导出 / 导入',
+  'geo.all': '全部',
+  'geo.bookmarks': '收藏',
+  'geo.from': '从',
+  'geo.to': '至',
+  'geo.import': '导入路线',
+  'geo.importHint': '支持 GeoJSON、KML 或 GPX。每个航点都会成为计划站点，打开时加载其故事。',
+  'geo.imported': '已向日志添加 {count} 个计划站点。',
+  'geo.importFailed': '无法读取该文件。请使用 GeoJSON、KML 或 GPX。',
+  'geo.nothingToExport': '没有符合条件且带位置的地标。',
+  'geo.skipped': '已导出 {exported} 个航点。{skipped} 条记录因无坐标被省略。',
+  'backup.title': '备份与恢复',
+  'backup.hint': '一个文件包含完整日志、照片、旁白、评价和设置，可用于迁移到其他设备。',
+  'backup.export': '下载备份',
+  'backup.merge': '合并',
+  'backup.replace': '替换',
+  'backup.replaceConfirm': '用备份替换整个日志和设置吗？备份中没有的条目将被删除。',
+  'backup.restored': '恢复完成：新增 {added} 条，更新 {updated} 条，保留本设备 {kept} 条。',
+  'backup.failed': '无法创建备份。',
+  'backup.restoreFailed': '该文件不是此版本可读取的 LuminaTour 备份。',
+  'map.photoTaken': '{name} 的照片拍摄于此',
+  'camera.processing': '正在处理照片...',
+  'camera.unreadable': '无法读取该照片。请尝试 JPEG、PNG 或 WebP。',
+  'settings.photos': '照片尺寸',
+  'settings.photosHint': '上传前将照片长边缩小到此尺寸，漫游时更省流量。',
+  'settings.keepOriginals': '在日志中保留全分辨率原图',
+  'candidates.title': '是哪一个？',
+  'candidates.subtitle': '我们不太确定这张照片。请选择你拍摄的地标，我们将讲述它的故事。',
+  'candidates.none': '都不是，按名称搜索',
+  'tour.wrongLandmark': '不是这个？',
+  'camera.live': '实时',
+  'live.scanning': '对准一个地标',
+  'live.provisional': '看起来像 · {confidence}%',
+  'live.tapToLock': '点击锁定并探索',
+  'live.offline': '离线：识别已暂停',
+  'live.cameraDenied': '实时取景需要相机权限，请检查浏览器权限设置。',
+  'import.title': '照片导入 · {done}/{total}',
+  'import.clearFinished': '清除已完成',
+  'import.queued': '等待中',
+  'import.preparing': '正在处理照片',
+  'import.identifying': '识别中',
+  'import.researching': '正在查阅历史',
+  'import.done': '已加入日志',
+  'import.failed': '失败',
+  'import.retry': '重试',
+  'import.remove': '移除',
+  'error.quota': 'AI 服务当前已超出使用限额。请稍等一分钟后重试，或先浏览你的日志。',
+  'error.invalidKey': 'AI 服务拒绝了 API 密钥。请检查本应用使用的密钥；你的日志仍可离线使用。',
+  'error.safety': '这张照片被内容安全过滤器拦截。请换一张照片或按名称搜索。',
+  'error.noLandmark': '这张照片中未找到地标。请更清晰地拍摄建筑，或按名称搜索。',
+  'error.malformed': 'AI 返回了无法读取的答复。重试通常即可解决。',
+  'error.timeout': 'AI 响应超时。请检查网络连接后重试。',
+  'error.retry': '重试',
+  'error.newPhoto': '换一张照片',
+  'error.searchByName': '按名称搜索',
+  'error.continueOffline': '离线继续',
+  'share.page': '分享导览页面',
+  'share.card': '分享图片卡片',
+  'share.failed': '无法准备要分享的文件。',
+  'share.listen': '收听',
+  'share.transcript': '文字稿',
+  'share.footer': '于 {date} 通过 LuminaTour 发现',
+  'book.menu': '旅行手册',
+  'book.trip': '行程',
+  'book.allDates': '任意日期',
+  'book.tripOption': '{from} – {to}（{count}）',
+  'book.titleLabel': '标题',
+  'book.defaultTitle': '我的旅行日志',
+  'book.print': '打印',
+  'book.empty': '所选范围内没有地标。',
+  'book.failed': '无法生成旅行手册。',
+  'book.landmarkCount': '{count} 个地标',
+  'book.mapOverview': '地图总览',
+  'book.stop': '第 {number} 站',
+  'book.index': '按地点索引',
+  'book.page': '第 {page} 页',
+  'map.bookmarked': '已收藏',
+  'map.downloaded': '已下载',
+  'map.allThemes': '全部主题',
+  'map.revisit': '重温故事',
+  'map.noMatches': '没有符合筛选条件的地标',
+  'settings.mapCache': '离线地图',
+  'settings.mapCacheHint': '离线保存的地标周围的地图瓦片会被存储，无网络时探索地图也能使用。',
+  'settings.mapZoomFrom': '最小缩放',
+  'settings.mapZoomTo': '最大缩放',
+  'settings.mapBudget': '上限',
+  'settings.mapUsage': '{tiles} 个瓦片 · {size} / {budget} MB',
+  'settings.clearMapCache': '清除地图缓存',
+  'settings.mapCacheCleared': '地图缓存已清除。',
+  'update.available': 'LuminaTour 有新版本可用。',
+  'update.reload': '更新',
+  'update.later': '稍后',
+  'card.savingOffline': '保存中 {percent}%',
+  'card.partlyOffline': '部分离线',
+  'offline.part.narration': '旁白',
+  'offline.part.cinematic': '电影感图像',
+  'offline.part.abstract': '抽象图像',
+  'offline.part.related': '相关地标',
+  'offline.part.map': '地图瓦片',
+  'offline.missing': '缺少：{missing}',
+  'offline.partial': '{name} 已离线保存，但以下部分失败：{missing}。再次点击下载即可重试。',
+  'offline.failed': '无法离线保存此导览。',
+  'offline.saving': '正在离线保存… {percent}%',
+  'offline.remove': '要将 {name} 从离线导览中移除吗？',
+  'book.pdfNote': 'PDF 页面为图片：文字无法选择或搜索，但来源链接可以打开。如需可选择的文字，请选择 HTML。',
+  'tour.arCameraRequired': 'AR 模式需要访问相机。请确认已授予权限。',
+  'tour.arStability': '稳定度',
+  'share.text': '用 LuminaTour 探索历史：{name}',
+  'share.copied': '链接已复制',
+  'theme.architecture': '建筑',
+  'theme.conflict': '冲突',
+  'theme.modernization': '现代化',
+  'theme.royal': '王朝时代',
+  'theme.general': '综合历史',
+};
+
+export const TRANSLATIONS: Record<LanguageCode, Translations> = { en, es, fr, de, it, pt, ja, zh };
@@ -0,0 +1,465 @@
+import { LandmarkResult, LanguageCode } from "../types";
+import { fitLines, wrapText } from "../utils/canvasText";
+import { splitSections } from "../utils/chronicle";
+import { downloadBlob, toFileName } from "../utils/download";
+import { escapeHtml, renderProse } from "../utils/html";
+import { inlineImageUrl, loadImageBitmap } from "../utils/image";
+import { createImagePdf, PdfLink, PdfPage } from "../utils/pdf";
+import { translate } from "./i18n";
+import { TranslationKey } from "./translations";
+
+export interface Trip {
+  from: string; // Local days, YYYY-MM-DD
+  to: string;
+  count: number;
+}
+
+export interface TripBookOptions {
+  title: string;
+  language: LanguageCode;
+}
+
+// Two quiet days in a row end a trip
+const TRIP_GAP_MS = 2 * 24 * 60 * 60 * 1000;
+
+// A4 at 150 dpi
+const PAGE_WIDTH = 1240;
+const PAGE_HEIGHT = 1754;
+const MARGIN = 110;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CONTENT_BOTTOM = PAGE_HEIGHT - MARGIN;
+const JPEG_QUALITY = 0.85;
+
+const MAP_WIDTH = 1000;
+const MAP_HEIGHT = 700;
+const MAP_PADDING = 60;
+
+const SERIF = "'Playfair Display', Georgia, serif";
+const BODY = "Georgia, 'Times New Roman', serif";
+const SANS = "Inter, system-ui, sans-serif";
+
+interface MapPoint {
+  number: number;
+  x: number;
+  y: number;
+}
+
+interface IndexGroup {
+  location: string;
+  stops: { number: number; name: string }[];
+}
+
+function localDay(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function formatDay(timestamp: number, language: LanguageCode): string {
+  return new Date(timestamp).toLocaleDateString(language, { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+function dateRange(entries: LandmarkResult[], language: LanguageCode): string {
+  const first = formatDay(entries[0].timestamp, language);
+  const last = formatDay(entries[entries.length - 1].timestamp, language);
+  return first === last ? first : `${first} – ${last}`;
+}
+
+/**
+ * The entries a book covers, oldest first. Planned stops have no chronicle yet.
+ */
+function bookEntries(results: LandmarkResult[]): LandmarkResult[] {
+  return results.filter(r => !r.isPlanned).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Group the journal into trips: runs of entries with no long gap between them.
+ * Newest trip first.
+ */
+export function detectTrips(results: LandmarkResult[]): Trip[] {
+  const trips: Trip[] = [];
+  let previous: number | null = null;
+  for (const result of bookEntries(results)) {
+    const day = localDay(result.timestamp);
+    const current = trips[trips.length - 1];
+    if (current && previous !== null && result.timestamp - previous <= TRIP_GAP_MS) {
+      current.to = day;
+      current.count++;
+    } else {
+      trips.push({ from: day, to: day, count: 1 });
+    }
+    previous = result.timestamp;
+  }
+  return trips.reverse();
+}
+
+// Web Mercator fitted to the stops, so a city walk fills the map as well as a road trip
+function projectStops(entries: LandmarkResult[], width: number, height: number, padding: number): MapPoint[] {
+  const located = entries
+    .map((result, i) => ({ number: i + 1, lat: result.info.latitude, lng: result.info.longitude }))
+    .filter((p): p is { number: number; lat: number; lng: number } => typeof p.lat === 'number' && typeof p.lng === 'number')
+    .map(p => ({ number: p.number, x: p.lng, y: -Math.log(Math.tan(Math.PI / 4 + (p.lat * Math.PI) / 360)) * (180 / Math.PI) }));
+  if (!located.length) return [];
+
+  const minX = Math.min(...located.map(p => p.x));
+  const maxX = Math.max(...located.map(p => p.x));
+  const minY = Math.min(...located.map(p => p.y));
+  const maxY = Math.max(...located.map(p => p.y));
+  const spanX = Math.max(maxX - minX, 0.01);
+  const spanY = Math.max(maxY - minY, 0.01);
+  const scale = Math.min((width - padding * 2) / spanX, (height - padding * 2) / spanY);
+  const offsetX = (width - (maxX - minX) * scale) / 2;
+  const offsetY = (height - (maxY - minY) * scale) / 2;
+  return located.map(p => ({ number: p.number, x: offsetX + (p.x - minX) * scale, y: offsetY + (p.y - minY) * scale }));
+}
+
+function locationIndex(entries: LandmarkResult[], unknown: string): IndexGroup[] {
+  const groups = new Map<string, IndexGroup>();
+  entries.forEach((result, i) => {
+    const location = result.info.location?.trim() || unknown;
+    if (!groups.has(location)) groups.set(location, { location, stops: [] });
+    groups.get(location)!.stops.push({ number: i + 1, name: result.info.name });
+  });
+  return [...groups.values()].sort((a, b) => a.location.localeCompare(b.location));
+}
+
+const BOOK_STYLE = `
+  @page { size: A4; margin: 18mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; color: #18181b; font: 11pt/1.6 Georgia, 'Times New Roman', serif; }
+  .page { break-after: page; page-break-after: always; }
+  .page:last-child { break-after: auto; page-break-after: auto; }
+  .brand, .label { font: 800 8pt/1 system-ui, sans-serif; letter-spacing: .3em; text-transform: uppercase; color: #b45309; }
+  h1 { font-size: 40pt; line-height: 1.1; margin: 12mm 0 4mm; }
+  h2 { font-size: 24pt; line-height: 1.15; margin: 3mm 0 2mm; }
+  h3 { font-size: 13pt; margin: 6mm 0 1mm; break-after: avoid; }
+  .meta { font: 600 9pt/1.4 system-ui, sans-serif; letter-spacing: .08em; text-transform: uppercase; color: #71717a; }
+  .cover img { width: 100%; height: 150mm; object-fit: cover; margin-top: 14mm; }
+  .photo { width: 100%; max-height: 140mm; object-fit: cover; margin: 6mm 0; }
+  .prose { white-space: pre-wrap; }
+  .sources { font-size: 8.5pt; color: #52525b; }
+  .sources a { color: inherit; word-break: break-all; }
+  svg { width: 100%; height: auto; border: 1px solid #e4e4e7; margin: 6mm 0; }
+  .legend, .index { columns: 2; column-gap: 10mm; font-size: 10pt; }
+  .index-group { break-inside: avoid; margin-bottom: 4mm; }
+  @media screen {
+    body { background: #e4e4e7; padding: 24px 0; }
+    .page { background: #fff; width: 210mm; min-height: 297mm; margin: 0 auto 24px; padding: 18mm; box-shadow: 0 4px 24px rgba(0,0,0,.15); }
+  }
+`;
+
+function mapSvg(points: MapPoint[]): string {
+  const route = points.length > 1
+    ? `<polyline points="${points.map(p => `${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(' ')}" fill="none" stroke="#f59e0b" stroke-width="3" stroke-dasharray="10 8"/>`
+    : '';
+  const markers = points.map(p =>
+    `<g><circle cx="${p.x.toFixed(1)}" cy="${p.y.toFixed(1)}" r="16" fill="#18181b"/><text x="${p.x.toFixed(1)}" y="${(p.y + 6).toFixed(1)}" text-anchor="middle" font-family="system-ui, sans-serif" font-size="16" font-weight="700" fill="#fbbf24">${p.number}</text></g>`
+  ).join('');
+  return `<svg viewBox="0 0 ${MAP_WIDTH} ${MAP_HEIGHT}" xmlns="http://www.w3.org/2000/svg"><rect width="${MAP_WIDTH}" height="${MAP_HEIGHT}" fill="#fafafa"/>${route}${markers}</svg>`;
+}
+
+/**
+ * Print-ready HTML: cover, map overview, one spread per landmark and an index
+ * by location. Photos are embedded so the file prints the same offline.
+ */
+export async function buildTripBookHtml(results: LandmarkResult[], options: TripBookOptions): Promise<string> {
+  const entries = bookEntries(results);
+  if (!entries.length) throw new Error("No landmarks to put in the book");
+  const { language } = options;
+  const label = (key: TranslationKey, vars?: Record<string, string>) => escapeHtml(translate(language, key, vars));
+  const photos = await Promise.all(entries.map(result => inlineImageUrl(result.imageUrl)));
+
+  const cover = `<section class="page cover">
+<div class="brand">LuminaTour</div>
+<h1>${escapeHtml(options.title)}</h1>
+<div class="meta">${escapeHtml(dateRange(entries, language))} · ${label('book.landmarkCount', { count: String(entries.length) })}</div>
+${photos[0] ? `<img src="${escapeHtml(photos[0])}" alt="">` : ''}
+</section>`;
+
+  const overview = `<section class="page">
+<div class="label">${label('book.mapOverview')}</div>
+${mapSvg(projectStops(entries, MAP_WIDTH, MAP_HEIGHT, MAP_PADDING))}
+<ol class="legend">${entries.map(r => `<li>${escapeHtml(r.info.name)}</li>`).join('')}</ol>
+</section>`;
+
+  const spreads = entries.map((result, i) => {
+    const sections = splitSections(result.history)
+      .map(section => `<h3>${escapeHtml(section.title)}</h3>\n<div class="prose">${renderProse(section.content)}</div>`)
+      .join('\n');
+    const sources = result.sources.length
+      ? `<h3>${label('tour.sources')}</h3>\n<ol class="sources">${result.sources.map(s => `<li>${escapeHtml(s.title)} — <a href="${escapeHtml(s.uri)}">${escapeHtml(s.uri)}</a></li>`).join('')}</ol>`
+      : '';
+    return `<section class="page">
+<div class="label">${label('book.stop', { number: String(i + 1) })}</div>
+<h2>${escapeHtml(result.info.name)}</h2>
+<div class="meta">${escapeHtml(result.info.location || translate(language, 'tour.unknownLocation'))} · ${escapeHtml(formatDay(result.timestamp, language))}</div>
+${photos[i] ? `<img class="photo" src="${escapeHtml(photos[i])}" alt="${escapeHtml(result.info.name)}">` : ''}
+<p>${renderProse(result.info.description)}</p>
+</section>
+<section class="page">
+<div class="label">${label('tour.chronicle')}</div>
+${sections}
+${sources}
+</section>`;
+  }).join('\n');
+
+  const index = `<section class="page">
+<div class="label">${label('book.index')}</div>
+<div class="index">${locationIndex(entries, translate(language, 'tour.unknownLocation')).map(group =>
+    `<div class="index-group"><strong>${escapeHtml(group.location)}</strong><br>${group.stops.map(s => `${s.number}. ${escapeHtml(s.name)}`).join('<br>')}</div>`
+  ).join('')}</div>
+</section>`;
+
+  return `<!DOCTYPE html>
+<html lang="${language}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(options.title)}</title>
+<style>${BOOK_STYLE}</style>
+</head>
+<body>
+${cover}
+${overview}
+${spreads}
+${index}
+</body>
+</html>
+`;
+}
+
+interface PdfWriter {
+  ctx: CanvasRenderingContext2D;
+  pages: PdfPage[];
+  links: PdfLink[]; // On the page being drawn
+  y: number;
+  runningHead: string; // Repeated when a landmark's text spills onto another page
+}
+
+async function canvasJpeg(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+  if (!blob) throw new Error("Page encoding failed");
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+function startPage(writer: PdfWriter) {
+  const { ctx } = writer;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+  ctx.textBaseline = 'top';
+  writer.y = MARGIN;
+  if (writer.runningHead) {
+    ctx.fillStyle = '#a1a1aa';
+    ctx.font = `600 18px ${SANS}`;
+    ctx.fillText(fitLines(ctx, writer.runningHead, CONTENT_WIDTH, 1)[0], MARGIN, MARGIN - 50);
+  }
+}
+
+// One canvas is reused for every page, so only the encoded JPEGs pile up
+async function finishPage(writer: PdfWriter) {
+  const { ctx } = writer;
+  ctx.fillStyle = '#a1a1aa';
+  ctx.font = `600 18px ${SANS}`;
+  ctx.textAlign = 'center';
+  ctx.fillText(String(writer.pages.length + 1), PAGE_WIDTH / 2, PAGE_HEIGHT - MARGIN / 2);
+  ctx.textAlign = 'left';
+  writer.pages.push({ jpeg: await canvasJpeg(ctx.canvas), pixelWidth: PAGE_WIDTH, pixelHeight: PAGE_HEIGHT, links: writer.links });
+  writer.links = [];
+}
+
+async function newPage(writer: PdfWriter, runningHead = '') {
+  await finishPage(writer);
+  writer.runningHead = runningHead;
+  startPage(writer);
+}
+
+async function ensureSpace(writer: PdfWriter, height: number) {
+  if (writer.y + height > CONTENT_BOTTOM) await newPage(writer, writer.runningHead);
+}
+
+// With a uri, every wrapped line of the text becomes a link to it
+async function writeText(writer: PdfWriter, text: string, font: string, lineHeight: number, color: string, uri?: string) {
+  const { ctx } = writer;
+  ctx.font = font;
+  for (const line of wrapText(ctx, text, CONTENT_WIDTH)) {
+    await ensureSpace(writer, lineHeight);
+    ctx.font = font;
+    ctx.fillStyle = color;
+    ctx.fillText(line, MARGIN, writer.y);
+    if (uri) writer.links.push({ x: MARGIN, y: writer.y, width: ctx.measureText(line).width, height: lineHeight, uri });
+    writer.y += lineHeight;
+  }
+}
+
+function drawPhoto(ctx: CanvasRenderingContext2D, bitmap: ImageBitmap, x: number, y: number, width: number, height: number) {
+  const scale = Math.max(width / bitmap.width, height / bitmap.height);
+  const sw = width / scale;
+  const sh = height / scale;
+  ctx.drawImage(bitmap, (bitmap.width - sw) / 2, (bitmap.height - sh) / 2, sw, sh, x, y, width, height);
+}
+
+async function drawPhotoFrom(ctx: CanvasRenderingContext2D, url: string, x: number, y: number, width: number, height: number): Promise<boolean> {
+  const bitmap = await loadImageBitmap(url);
+  if (!bitmap) return false;
+  drawPhoto(ctx, bitmap, x, y, width, height);
+  bitmap.close();
+  return true;
+}
+
+function drawMap(ctx: CanvasRenderingContext2D, points: MapPoint[], x: number, y: number, width: number, height: number) {
+  ctx.fillStyle = '#fafafa';
+  ctx.fillRect(x, y, width, height);
+  ctx.strokeStyle = '#e4e4e7';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(x, y, width, height);
+  if (points.length > 1) {
+    ctx.strokeStyle = '#f59e0b';
+    ctx.lineWidth = 4;
+    ctx.setLineDash([14, 10]);
+    ctx.beginPath();
+    points.forEach((p, i) => (i ? ctx.lineTo(x + p.x, y + p.y) : ctx.moveTo(x + p.x, y + p.y)));
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = `700 22px ${SANS}`;
+  for (const p of points) {
+    ctx.fillStyle = '#18181b';
+    ctx.beginPath();
+    ctx.arc(x + p.x, y + p.y, 22, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#fbbf24';
+    ctx.fillText(String(p.number), x + p.x, y + p.y + 1);
+  }
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+}
+
+/**
+ * The same book as a PDF, drawn page by page on a canvas in the browser.
+ * Unlike the HTML version it knows its pagination, so the index gives pages.
+ */
+export async function renderTripBookPdf(results: LandmarkResult[], options: TripBookOptions): Promise<Blob> {
+  const entries = bookEntries(results);
+  if (!entries.length) throw new Error("No landmarks to put in the book");
+  const { language } = options;
+  const label = (key: TranslationKey, vars?: Record<string, string>) => translate(language, key, vars);
+  const unknown = label('tour.unknownLocation');
+
+  const canvas = document.createElement('canvas');
+  canvas.width = PAGE_WIDTH;
+  canvas.height = PAGE_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  await Promise.all([
+    document.fonts.load(`700 64px 'Playfair Display'`),
+    document.fonts.load(`400 20px Inter`),
+  ]).catch(() => undefined);
+
+  const writer: PdfWriter = { ctx, pages: [], links: [], y: MARGIN, runningHead: '' };
+  const smallCaps = (text: string, color = '#b45309') => {
+    ctx.fillStyle = color;
+    ctx.font = `800 20px ${SANS}`;
+    ctx.fillText(text.toUpperCase(), MARGIN, writer.y);
+    writer.y += 44;
+  };
+
+  // Cover
+  startPage(writer);
+  smallCaps('LuminaTour');
+  writer.y += 40;
+  await writeText(writer, options.title, `700 88px ${SERIF}`, 104, '#18181b');
+  writer.y += 16;
+  smallCaps(`${dateRange(entries, language)} · ${label('book.landmarkCount', { count: String(entries.length) })}`, '#71717a');
+  await drawPhotoFrom(ctx, entries[0].imageUrl, MARGIN, writer.y + 40, CONTENT_WIDTH, CONTENT_BOTTOM - writer.y - 40);
+
+  // Map overview
+  await newPage(writer);
+  smallCaps(label('book.mapOverview'));
+  const mapHeight = Math.round(CONTENT_WIDTH * MAP_HEIGHT / MAP_WIDTH);
+  drawMap(ctx, projectStops(entries, CONTENT_WIDTH, mapHeight, MAP_PADDING), MARGIN, writer.y, CONTENT_WIDTH, mapHeight);
+  writer.y += mapHeight + 40;
+  writer.runningHead = label('book.mapOverview');
+  for (const [i, result] of entries.entries()) {
+    await writeText(writer, `${i + 1}. ${result.info.name}`, `400 24px ${BODY}`, 38, '#27272a');
+  }
+
+  // One spread per landmark
+  const startPages: number[] = [];
+  for (const [i, result] of entries.entries()) {
+    await newPage(writer);
+    startPages.push(writer.pages.length + 1);
+    smallCaps(label('book.stop', { number: String(i + 1) }));
+    ctx.fillStyle = '#18181b';
+    ctx.font = `700 64px ${SERIF}`;
+    for (const line of fitLines(ctx, result.info.name, CONTENT_WIDTH, 2)) {
+      ctx.fillText(line, MARGIN, writer.y);
+      writer.y += 76;
+    }
+    smallCaps(`${result.info.location || unknown} · ${formatDay(result.timestamp, language)}`, '#71717a');
+    const photoHeight = 760;
+    if (await drawPhotoFrom(ctx, result.imageUrl, MARGIN, writer.y + 10, CONTENT_WIDTH, photoHeight)) writer.y += photoHeight + 50;
+    writer.runningHead = result.info.name;
+    await writeText(writer, result.info.description.replace(/\*\*/g, ''), `400 26px ${BODY}`, 42, '#27272a');
+
+    await newPage(writer, result.info.name);
+    smallCaps(label('tour.chronicle'));
+    for (const section of splitSections(result.history)) {
+      await ensureSpace(writer, 110);
+      writer.y += 16;
+      await writeText(writer, section.title, `700 32px ${SERIF}`, 44, '#18181b');
+      writer.y += 8;
+      await writeText(writer, section.content.replace(/\*\*/g, ''), `400 24px ${BODY}`, 38, '#27272a');
+    }
+    if (result.sources.length) {
+      await ensureSpace(writer, 120);
+      writer.y += 24;
+      await writeText(writer, label('tour.sources'), `700 28px ${SERIF}`, 40, '#18181b');
+      for (const [n, source] of result.sources.entries()) {
+        const uri = /^https?:\/\//i.test(source.uri) ? source.uri : undefined;
+        await writeText(writer, `${n + 1}. ${source.title} — ${source.uri}`, `400 18px ${SANS}`, 28, '#52525b', uri);
+      }
+    }
+  }
+
+  // Index by location, with the page each spread starts on
+  await newPage(writer);
+  smallCaps(label('book.index'));
+  writer.runningHead = label('book.index');
+  for (const group of locationIndex(entries, unknown)) {
+    await ensureSpace(writer, 90);
+    writer.y += 12;
+    await writeText(writer, group.location, `700 28px ${SERIF}`, 40, '#18181b');
+    for (const stop of group.stops) {
+      await writeText(writer, `${stop.number}. ${stop.name} — ${label('book.page', { page: String(startPages[stop.number - 1]) })}`, `400 22px ${BODY}`, 34, '#27272a');
+    }
+  }
+  await finishPage(writer);
+
+  return createImagePdf(writer.pages);
+}
+
+function bookFileName(options: TripBookOptions, extension: string): string {
+  return `${toFileName(options.title)}.${extension}`;
+}
+
+export async function downloadTripBookPdf(results: LandmarkResult[], options: TripBookOptions): Promise<void> {
+  downloadBlob(await renderTripBookPdf(results, options), bookFileName(options, 'pdf'));
+}
+
+export async function downloadTripBookHtml(results: LandmarkResult[], options: TripBookOptions): Promise<void> {
+  const html = await buildTripBookHtml(results, options);
+  downloadBlob(new Blob([html], { type: 'text/html' }), bookFileName(options, 'html'));
+}
+
+/**
+ * Show the book in a new tab and open the print dialog once its photos load.
+ * The tab must be opened by the caller inside the click, or popup blockers refuse it.
+ */
+export async function printTripBook(target: Window, results: LandmarkResult[], options: TripBookOptions): Promise<void> {
+  const html = await buildTripBookHtml(results, options);
+  target.document.open();
+  target.document.write(html);
+  target.document.close();
+  target.addEventListener('load', () => target.print(), { once: true });
+}
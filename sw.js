@@ -0,0 +1,106 @@
+/**
+ * LuminaTour service worker. The build (see vite.config.ts) fills in the
+ * version and the list of hashed app files, so every deploy ships a new
+ * worker and a new shell cache.
+ */
+const VERSION = '__BUILD_VERSION__';
+const APP_SHELL = '__APP_SHELL__';
+const SHELL_CACHE = `lumina-shell-${VERSION}`;
+const RUNTIME_CACHE = 'lumina-runtime';
+
+// Loaded by index.html from CDNs; the app is unstyled or mapless without them
+const CDN_ASSETS = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&family=Playfair+Display:ital,wght@0,700;1,700&display=swap',
+  'https://unpkg.com/leaflet@1.9.4/dist/leaflet.css',
+  'https://unpkg.com/leaflet@1.9.4/dist/leaflet.js',
+  'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png',
+  'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon-2x.png',
+  'https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png',
+];
+
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'unpkg.com'];
+
+async function precacheCdnAsset(cache, url) {
+  const response = await fetch(url, { mode: 'cors' });
+  if (!response.ok) throw new Error(`Failed to fetch ${url}`);
+  await cache.put(url, response.clone());
+  // The font stylesheet only names the font files, so fetch those too
+  if (url.startsWith('https://fonts.googleapis.com/')) {
+    const css = await response.text();
+    const fonts = Array.from(css.matchAll(/url\((https:\/\/fonts\.gstatic\.com\/[^)]+)\)/g), match => match[1]);
+    await Promise.all(fonts.map(font => cache.add(new Request(font, { mode: 'cors' }))));
+  }
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll(APP_SHELL);
+    // A CDN hiccup should not block the shell; the runtime cache catches up later
+    const results = await Promise.allSettled(CDN_ASSETS.map(url => precacheCdnAsset(cache, url)));
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') console.warn('Could not precache', CDN_ASSETS[i], result.reason);
+    });
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith('lumina-shell-') && name !== SHELL_CACHE)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// The page asks a waiting worker to take over once the user accepts the update
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+async function fromNetworkOrShell(request) {
+  try {
+    return await fetch(request);
+  } catch (err) {
+    // Deep links such as /landmark/:id are all served by the same page
+    const shell = await caches.match('/index.html', { cacheName: SHELL_CACHE });
+    if (shell) return shell;
+    throw err;
+  }
+}
+
+async function staleWhileRevalidate(event) {
+  const cached = await caches.match(event.request);
+  const network = fetch(event.request).then(async (response) => {
+    if (response.ok || response.type === 'opaque') {
+      const cache = await caches.open(RUNTIME_CACHE);
+      await cache.put(event.request, response.clone());
+    }
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+  return network;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(fromNetworkOrShell(request));
+    return;
+  }
+  if (url.origin === self.location.origin) {
+    event.respondWith(caches.match(request, { cacheName: SHELL_CACHE }).then(cached => cached || fetch(request)));
+    return;
+  }
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
@@ -12,22 +12,139 @@ export interface LandmarkInfo {
   longitude?: number;
 }
 
+/**
+ * Where and when a photo was really taken, read from its EXIF block.
+ */
+export interface CaptureMetadata {
+  latitude?: number;
+  longitude?: number;
+  altitude?: number; // Metres above sea level
+  heading?: number; // Degrees clockwise from north the camera faced
+  takenAt?: number;
+}
+
+/**
+ * One possible identification of a photo, ranked against the others.
+ */
+export interface LandmarkCandidate extends LandmarkInfo {
+  confidence: number; // 0 to 1, as estimated by the model
+  cues: string[]; // Visual details that support this guess
+}
+
 export interface GroundingSource {
   title: string;
   uri: string;
 }
 
+export interface LandmarkHistory {
+  text: string;
+  sources: GroundingSource[];
+}
+
+export type ImageStyle = 'cinematic' | 'abstract';
+
+export type LanguageCode = 'en' | 'es' | 'fr' | 'de' | 'it' | 'pt' | 'ja' | 'zh';
+
+export type NarrationPersona = 'scholarly' | 'storyteller' | 'kid-friendly' | 'dramatic';
+
+export type NarrationLength = 'short' | 'medium' | 'long';
+
+export interface NarrationOptions {
+  language?: LanguageCode;
+  voice?: string;
+  persona?: NarrationPersona;
+  length?: NarrationLength;
+}
+
+export interface NarrationVariant {
+  id: string;
+  language: LanguageCode;
+  voice: string;
+  persona: NarrationPersona;
+  length: NarrationLength;
+  audioBase64?: string; // Absent until read from the device with readAudio
+  script?: string; // Text the audio reads, shown as the transcript
+  createdAt: number;
+}
+
+export interface NarrationChapter {
+  index: number; // Position of the chronicle section it narrates
+  title: string;
+  language: LanguageCode;
+  voice: string;
+  script: string;
+  audioBase64?: string; // Absent until read from the device with readAudio
+  createdAt: number;
+}
+
+/**
+ * Contract every AI backend (Gemini, local mock, ...) has to fulfil. Each
+ * call takes an optional AbortSignal as its last argument.
+ */
+export interface LandmarkAIProvider {
+  name: string;
+  requiresNetwork: boolean;
+  identifyLandmark(base64Image: string, language?: LanguageCode, capture?: CaptureMetadata, signal?: AbortSignal): Promise<LandmarkCandidate[]>; // Best first
+  searchLandmarkByName(name: string, language?: LanguageCode, signal?: AbortSignal): Promise<LandmarkInfo>;
+  getLandmarkHistory(landmarkName: string, language?: LanguageCode, signal?: AbortSignal): Promise<LandmarkHistory>;
+  getRelatedLandmarks(landmarkName: string, location: string, language?: LanguageCode, signal?: AbortSignal): Promise<RelatedLandmark[]>;
+  generateLandmarkImage(landmarkName: string, style?: ImageStyle, signal?: AbortSignal): Promise<string>;
+  generateNarrationScript(history: string, options?: NarrationOptions, signal?: AbortSignal): Promise<string>;
+  generateNarration(script: string, options?: NarrationOptions, signal?: AbortSignal): Promise<string>;
+}
+
+/**
+ * Pieces of a tour the offline download stores besides the entry itself.
+ */
+export type OfflinePart = 'narration' | 'cinematic' | 'abstract' | 'related' | 'map';
+
+export interface OfflineManifest {
+  savedAt: number;
+  missing: OfflinePart[]; // Parts whose download failed; empty when the tour is complete
+}
+
 export interface LandmarkResult {
   id: string;
   info: LandmarkInfo;
+  capture?: CaptureMetadata; // From the photo itself, unlike the model's guess in info
+  candidates?: LandmarkCandidate[]; // Ranked identifications of the photo, info is candidateIndex
+  candidateIndex?: number;
   history: string;
   sources: GroundingSource[];
   imageUrl: string;
+  thumbnailUrl?: string; // Small copy for grids and lists
   timestamp: number;
+  updatedAt?: number; // Last change to the entry; creation is timestamp
   relatedLandmarks?: RelatedLandmark[];
+  aiImages?: Partial<Record<ImageStyle, string>>; // AI reimaginings kept for offline viewing
+  storedAiImages?: ImageStyle[]; // Reimaginings saved on the device, read on demand with readAiImage
   audioBase64?: string; // For offline narration playback
+  storedNarration?: boolean; // audioBase64 is saved on the device, read on demand with readAudio
+  narrationScript?: string; // Transcript of audioBase64
+  narrations?: NarrationVariant[]; // Studio variants, switchable without regenerating
+  chapters?: NarrationChapter[]; // Per-section narration, generated on demand
+  language?: LanguageCode; // Content language, English when absent
   isBookmarked?: boolean;
   isDownloaded?: boolean;
+  offline?: OfflineManifest; // Outcome of the last offline download
+  isPlanned?: boolean; // Imported route stop whose chronicle has not been fetched yet
+}
+
+export interface CacheStatus {
+  fromCache: boolean;
+  cachedAt: number;
+}
+
+export interface AppSettings {
+  cacheTtlDays: number; // 0 keeps cached content forever
+  language: LanguageCode;
+  narrationVoice: string;
+  imageMaxDimension: number; // Longest edge of uploaded photos in pixels
+  keepOriginalPhotos: boolean; // Store the untouched file in the journal instead of the downscaled copy
+  mapTileRadiusKm: number; // Area around a downloaded landmark whose map tiles are kept offline
+  mapTileMinZoom: number;
+  mapTileMaxZoom: number;
+  mapTileBudgetMb: number; // Oldest tiles are evicted beyond this
 }
 
 export enum AppState {
@@ -39,5 +156,6 @@ export enum AppState {
   ERROR = 'ERROR',
   HISTORY = 'HISTORY',
   MAP = 'MAP',
-  BOOKMARKS = 'BOOKMARKS'
+  BOOKMARKS = 'BOOKMARKS',
+  CHOOSING = 'CHOOSING'
 }
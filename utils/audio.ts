@@ -26,3 +26,119 @@ export async function decodeAudioData(
   }
   return buffer;
 }
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export interface AudioMetadata {
+  title: string;
+  date: string; // ISO 8601 day, e.g. 2024-05-01
+  language: string; // ISO 639-2 code, e.g. eng
+  comment?: string;
+}
+
+const PCM_SAMPLE_RATE = 24000;
+
+function writeAscii(view: DataView, offset: number, text: string) {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+}
+
+// RIFF chunks are padded to an even length
+function riffChunk(id: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  const view = new DataView(chunk.buffer);
+  writeAscii(view, 0, id);
+  view.setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * Wrap raw 16-bit mono PCM in a WAV container with a LIST/INFO metadata chunk.
+ */
+export function pcmToWav(pcm: Uint8Array, metadata: AudioMetadata, sampleRate: number = PCM_SAMPLE_RATE): Blob {
+  const encoder = new TextEncoder();
+  const fmt = new Uint8Array(16);
+  const fv = new DataView(fmt.buffer);
+  fv.setUint16(0, 1, true); // PCM
+  fv.setUint16(2, 1, true); // mono
+  fv.setUint32(4, sampleRate, true);
+  fv.setUint32(8, sampleRate * 2, true);
+  fv.setUint16(12, 2, true);
+  fv.setUint16(14, 16, true);
+
+  const infoTags: [string, string | undefined][] = [
+    ['INAM', metadata.title],
+    ['ICRD', metadata.date],
+    ['ILNG', metadata.language],
+    ['ICMT', metadata.comment],
+    ['ISFT', 'LuminaTour'],
+  ];
+  const info = concatBytes([
+    encoder.encode('INFO'),
+    ...infoTags
+      .filter((tag): tag is [string, string] => !!tag[1])
+      .map(([id, value]) => riffChunk(id, encoder.encode(`${value}\0`))),
+  ]);
+
+  const body = concatBytes([encoder.encode('WAVE'), riffChunk('fmt ', fmt), riffChunk('LIST', info), riffChunk('data', pcm)]);
+  return new Blob([riffChunk('RIFF', body)], { type: 'audio/wav' });
+}
+
+// ID3v2.4 sizes are "syncsafe": seven bits per byte
+function syncsafe(size: number): number[] {
+  return [(size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f];
+}
+
+function id3Tag(metadata: AudioMetadata): Uint8Array {
+  const encoder = new TextEncoder();
+  const frames: [string, string | undefined][] = [
+    ['TIT2', metadata.title],
+    ['TDRC', metadata.date],
+    ['TLAN', metadata.language],
+    ['COMM', metadata.comment],
+    ['TSSE', 'LuminaTour'],
+  ];
+  const body = concatBytes(frames
+    .filter((frame): frame is [string, string] => !!frame[1])
+    .map(([id, value]) => {
+      // COMM carries a language and an empty description before the text
+      const text = id === 'COMM'
+        ? concatBytes([new Uint8Array([3]), encoder.encode(`${metadata.language}\0`), encoder.encode(value)])
+        : concatBytes([new Uint8Array([3]), encoder.encode(value)]);
+      return concatBytes([encoder.encode(id), new Uint8Array([...syncsafe(text.length), 0, 0]), text]);
+    }));
+  return concatBytes([encoder.encode('ID3'), new Uint8Array([4, 0, 0, ...syncsafe(body.length)]), body]);
+}
+
+/**
+ * Encode raw 16-bit mono PCM as MP3 with ID3 tags. The encoder is only loaded
+ * the first time someone asks for MP3.
+ */
+export async function pcmToMp3(pcm: Uint8Array, metadata: AudioMetadata, sampleRate: number = PCM_SAMPLE_RATE): Promise<Blob> {
+  const { Mp3Encoder } = await import('@breezystack/lamejs');
+  const encoder = new Mp3Encoder(1, sampleRate, 64);
+  const samples = new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.byteLength / 2));
+  const frames: Uint8Array[] = [id3Tag(metadata)];
+  for (let i = 0; i < samples.length; i += 1152) {
+    const frame = encoder.encodeBuffer(samples.subarray(i, i + 1152));
+    if (frame.length) frames.push(frame);
+  }
+  frames.push(encoder.flush());
+  return new Blob(frames, { type: 'audio/mpeg' });
+}
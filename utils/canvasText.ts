@@ -0,0 +1,47 @@
+
+/**
+ * Break text into lines no wider than maxWidth, keeping paragraph breaks.
+ * Words wider than a line, and scripts written without spaces such as
+ * Japanese or Chinese, are broken between characters.
+ */
+export function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/(\s+)/)) {
+      if (!word) continue;
+      const candidate = line + word;
+      if (ctx.measureText(candidate).width <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (/^\s+$/.test(word)) {
+        lines.push(line);
+        line = '';
+        continue;
+      }
+      if (line.trim()) lines.push(line.trimEnd());
+      line = '';
+      for (const char of word) {
+        if (line && ctx.measureText(line + char).width > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line.trimEnd());
+  }
+  return lines;
+}
+
+/**
+ * At most maxLines wrapped lines, the last ending in an ellipsis when text remains.
+ */
+export function fitLines(ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] {
+  const lines = wrapText(ctx, text.replace(/\s*\n\s*/g, ' '), maxWidth);
+  if (lines.length <= maxLines) return lines;
+  let last = lines[maxLines - 1];
+  while (last && ctx.measureText(`${last}…`).width > maxWidth) last = last.slice(0, -1);
+  return [...lines.slice(0, maxLines - 1), `${last.trimEnd()}…`];
+}
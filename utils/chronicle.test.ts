@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { chronicleThemes, GENERAL_THEME, sentenceTheme } from "./chronicle";
+
+describe("sentenceTheme", () => {
+  it("matches whole words, not pieces of other words", () => {
+    expect(sentenceTheme("The museum won an award toward its restoration fund.")).toBe(GENERAL_THEME);
+    expect(sentenceTheme("The fort was shelled during the war.")).toBe("conflict");
+  });
+
+  it("lets marked keywords run on into longer words", () => {
+    expect(sentenceTheme("Its architecture blends two styles.")).toBe("architecture");
+    expect(sentenceTheme("The hall was rebuilt after the fire.")).toBe("modernization");
+  });
+
+  it("uses keywords in the chronicle's language", () => {
+    expect(sentenceTheme("Le château fut assiégé pendant la guerre.", "fr")).toBe("conflict");
+    expect(sentenceTheme("Im Zweiten Weltkrieg wurde die Kirche zerstört.", "de")).toBe("conflict");
+    expect(sentenceTheme("この城は戦争で焼失した。", "ja")).toBe("conflict");
+    expect(sentenceTheme("Le château fut assiégé pendant la guerre.")).toBe(GENERAL_THEME);
+  });
+});
+
+describe("chronicleThemes", () => {
+  it("splits CJK chronicles into sentences at full stops", () => {
+    expect(chronicleThemes("故宫由明朝皇帝修建。它在战争中幸存。", "zh").sort()).toEqual(["conflict", "royal"]);
+  });
+});
@@ -0,0 +1,157 @@
+import { LanguageCode } from "../types";
+
+
+export interface HistorySection {
+  title: string;
+  content: string;
+}
+
+export interface KeyDate {
+  year: string;
+  text: string; // The sentence the year appears in
+}
+
+const YEAR_PATTERN = /\b(1\d{3}|20\d{2})\b/;
+
+/** Theme ids; the labels live in translations under `theme.<id>`. */
+export type ChronicleTheme = 'architecture' | 'conflict' | 'modernization' | 'royal' | 'general';
+
+export const GENERAL_THEME: ChronicleTheme = 'general';
+
+// Later entries win when a sentence matches several. Keywords match whole
+// words; a `*` lets one run on into a longer word, e.g. "architect*" or
+// German compounds like "*krieg*".
+const THEME_KEYWORDS: [ChronicleTheme, Record<LanguageCode, string[]>][] = [
+  ['architecture', {
+    en: ['architect*', 'design*'],
+    es: ['arquitect*', 'diseñ*'],
+    fr: ['architect*', 'conçu', 'conçue*', 'conception'],
+    de: ['architekt*', 'baustil*', 'entworfen', 'entwurf*'],
+    it: ['architett*', 'progett*'],
+    pt: ['arquitet*', 'projet*'],
+    ja: ['建築', '設計'],
+    zh: ['建筑', '设计'],
+  }],
+  ['conflict', {
+    en: ['war', 'wars', 'wartime', 'battle*', 'conflict*'],
+    es: ['guerra*', 'batalla*', 'conflicto*'],
+    fr: ['guerre*', 'bataille*', 'conflit*'],
+    de: ['*krieg*', 'schlacht', 'schlachten', 'konflikt*'],
+    it: ['guerra*', 'guerre', 'battaglia*', 'battaglie', 'conflitt*'],
+    pt: ['guerra*', 'batalha*', 'conflito*'],
+    ja: ['戦争', '戦い', '合戦', '紛争'],
+    zh: ['战争', '战役', '战斗', '冲突'],
+  }],
+  ['modernization', {
+    en: ['rebuil*', 'modern*', 'today'],
+    es: ['reconstru*', 'modern*', 'hoy'],
+    fr: ['reconstru*', 'modern*', "aujourd'hui"],
+    de: ['wiederaufgebaut', 'wiederaufbau*', 'modern*', 'heute'],
+    it: ['ricostru*', 'modern*', 'oggi'],
+    pt: ['reconstru*', 'modern*', 'hoje'],
+    ja: ['再建', '近代', '現代', '今日'],
+    zh: ['重建', '近代', '现代', '今天', '如今'],
+  }],
+  ['royal', {
+    en: ['king*', 'queen*', 'emperor*', 'empress*'],
+    es: ['rey', 'reyes', 'reina*', 'emperador*', 'emperatriz'],
+    fr: ['roi', 'rois', 'reine*', 'empereur*', 'impératrice*'],
+    de: ['könig*', '*kaiser*'],
+    it: ['re', 'regina*', 'imperator*'],
+    pt: ['rei', 'reis', 'rainha*', 'imperador*', 'imperatriz'],
+    ja: ['王', '皇帝', '天皇', '将軍'],
+    zh: ['国王', '皇帝', '王朝', '女王'],
+  }],
+];
+
+// Scripts written without spaces have no word boundaries to respect
+const UNSPACED_SCRIPT = /[\p{sc=Han}\p{sc=Hiragana}\p{sc=Katakana}]/u;
+
+const themePatterns = new Map<LanguageCode, [ChronicleTheme, RegExp][]>();
+
+function keywordPattern(keywords: string[]): RegExp {
+  const alternatives = keywords.map(keyword => {
+    const word = keyword.replace(/^\*|\*$/g, '');
+    const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (UNSPACED_SCRIPT.test(word)) return escaped;
+    const start = keyword.startsWith('*') ? '' : '(?<![\\p{L}\\p{N}])';
+    const end = keyword.endsWith('*') ? '' : '(?![\\p{L}\\p{N}])';
+    return `${start}${escaped}${end}`;
+  });
+  return new RegExp(alternatives.join('|'), 'iu');
+}
+
+function themePatternsFor(language: LanguageCode): [ChronicleTheme, RegExp][] {
+  let patterns = themePatterns.get(language);
+  if (!patterns) {
+    patterns = THEME_KEYWORDS.map(([name, keywords]) => [name, keywordPattern(keywords[language])]);
+    themePatterns.set(language, patterns);
+  }
+  return patterns;
+}
+
+/**
+ * Split a markdown chronicle into its `##` sections. Text before the first
+ * header becomes an introduction, titled by its first line when that is short.
+ */
+export function splitSections(history: string): HistorySection[] {
+  const raw = history.split(/##\s+/);
+  const parsed: HistorySection[] = [];
+
+  if (raw[0].trim()) {
+    const lines = raw[0].trim().split('\n');
+    const introTitle = lines[0].length < 30 ? lines[0] : "Introduction";
+    parsed.push({
+      title: introTitle,
+      content: raw[0].trim()
+    });
+  }
+
+  for (let i = 1; i < raw.length; i++) {
+    const lines = raw[i].split('\n');
+    const title = lines[0].trim();
+    const content = lines.slice(1).join('\n').trim();
+    parsed.push({ title, content });
+  }
+  return parsed;
+}
+
+/**
+ * The first sentences that mention a year, in chronicle order, one per year.
+ */
+export function keyDates(history: string, limit: number): KeyDate[] {
+  const dates: KeyDate[] = [];
+  const seen = new Set<string>();
+  for (const sentence of history.replace(/[#*_`>]/g, '').split(/\n+|(?<=[.!?])\s+/)) {
+    const year = sentence.match(YEAR_PATTERN)?.[0];
+    if (!year || seen.has(year)) continue;
+    seen.add(year);
+    dates.push({ year, text: sentence.trim() });
+    if (dates.length >= limit) break;
+  }
+  return dates;
+}
+
+/**
+ * The theme a sentence of the chronicle belongs to, by keywords in the
+ * language the chronicle is written in.
+ */
+export function sentenceTheme(sentence: string, language: LanguageCode = 'en'): ChronicleTheme {
+  let theme = GENERAL_THEME;
+  for (const [name, pattern] of themePatternsFor(language)) {
+    if (pattern.test(sentence)) theme = name;
+  }
+  return theme;
+}
+
+/**
+ * Every specific theme any sentence of the chronicle touches.
+ */
+export function chronicleThemes(history: string, language: LanguageCode = 'en'): ChronicleTheme[] {
+  const themes = new Set<ChronicleTheme>();
+  for (const sentence of history.split(/\n+|(?<=[.!?])\s+|(?<=[。！？])/)) {
+    const theme = sentenceTheme(sentence, language);
+    if (theme !== GENERAL_THEME) themes.add(theme);
+  }
+  return Array.from(themes);
+}
@@ -0,0 +1,25 @@
+
+/**
+ * Hand a generated file to the browser's download flow.
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers read the URL after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Keeps letters from any script so Japanese or Chinese names survive
+export function toFileName(name: string): string {
+  return name
+    .normalize('NFKC')
+    .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .slice(0, 80) || 'landmark';
+}
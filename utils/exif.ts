@@ -0,0 +1,130 @@
+
+import { CaptureMetadata } from "../types";
+
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+const TAG_GPS_ALTITUDE_REF = 0x0005;
+const TAG_GPS_ALTITUDE = 0x0006;
+const TAG_GPS_IMG_DIRECTION = 0x0011;
+
+type TagValue = number | number[] | string;
+
+/**
+ * Read the tags of one IFD. Rationals become plain numbers; only the first
+ * entry of each IFD chain is followed.
+ */
+function readIfd(view: DataView, tiffStart: number, offset: number, little: boolean): Map<number, TagValue> {
+  const tags = new Map<number, TagValue>();
+  const count = view.getUint16(tiffStart + offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = tiffStart + offset + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const components = view.getUint32(entry + 4, little);
+    const size = (TIFF_TYPE_SIZES[type] || 0) * components;
+    if (!size) continue;
+    const valueOffset = size > 4 ? tiffStart + view.getUint32(entry + 8, little) : entry + 8;
+    if (valueOffset + size > view.byteLength) continue;
+
+    if (type === 2) {
+      let text = '';
+      for (let j = 0; j < components - 1; j++) text += String.fromCharCode(view.getUint8(valueOffset + j));
+      tags.set(tag, text.trim());
+      continue;
+    }
+    const values: number[] = [];
+    for (let j = 0; j < components; j++) {
+      if (type === 1 || type === 7) values.push(view.getUint8(valueOffset + j));
+      else if (type === 3) values.push(view.getUint16(valueOffset + j * 2, little));
+      else if (type === 4) values.push(view.getUint32(valueOffset + j * 4, little));
+      else if (type === 9) values.push(view.getInt32(valueOffset + j * 4, little));
+      else {
+        const read = type === 5 ? view.getUint32.bind(view) : view.getInt32.bind(view);
+        const denominator = read(valueOffset + j * 8 + 4, little);
+        values.push(denominator ? read(valueOffset + j * 8, little) / denominator : 0);
+      }
+    }
+    tags.set(tag, values.length === 1 ? values[0] : values);
+  }
+  return tags;
+}
+
+function toDegrees(value: TagValue | undefined, ref: TagValue | undefined): number | undefined {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+}
+
+// "2024:05:17 14:03:22" is camera-local; the offset tag, when present, pins it to UTC
+function toTimestamp(value: TagValue | undefined, offset: TagValue | undefined): number | undefined {
+  if (typeof value !== 'string') return undefined;
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+  const [, y, mo, d, h, mi, s] = match;
+  const zone = typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+  const time = Date.parse(`${y}-${mo}-${d}T${h}:${mi}:${s}${zone}`);
+  return Number.isFinite(time) ? time : undefined;
+}
+
+function findTiffStart(view: DataView): number | null {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return null;
+    const length = view.getUint16(offset + 2);
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+      return offset + 10;
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+/**
+ * Pull the capture position, time and camera heading out of a JPEG's EXIF
+ * block. Returns null for other formats or photos without any of them.
+ */
+export function readCaptureMetadata(buffer: ArrayBuffer): CaptureMetadata | null {
+  const view = new DataView(buffer);
+  try {
+    const tiffStart = findTiffStart(view);
+    if (tiffStart === null) return null;
+    const little = view.getUint16(tiffStart) === 0x4949;
+    const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+
+    const exifOffset = ifd0.get(TAG_EXIF_IFD);
+    const exif = typeof exifOffset === 'number' ? readIfd(view, tiffStart, exifOffset, little) : new Map<number, TagValue>();
+    const gpsOffset = ifd0.get(TAG_GPS_IFD);
+    const gps = typeof gpsOffset === 'number' ? readIfd(view, tiffStart, gpsOffset, little) : new Map<number, TagValue>();
+
+    const metadata: CaptureMetadata = {};
+    const latitude = toDegrees(gps.get(TAG_GPS_LATITUDE), gps.get(TAG_GPS_LATITUDE_REF));
+    const longitude = toDegrees(gps.get(TAG_GPS_LONGITUDE), gps.get(TAG_GPS_LONGITUDE_REF));
+    // Phones write 0,0 when the fix was missing
+    if (latitude !== undefined && longitude !== undefined && (latitude || longitude)) {
+      metadata.latitude = latitude;
+      metadata.longitude = longitude;
+      const altitude = gps.get(TAG_GPS_ALTITUDE);
+      if (typeof altitude === 'number') metadata.altitude = gps.get(TAG_GPS_ALTITUDE_REF) === 1 ? -altitude : altitude;
+    }
+    const heading = gps.get(TAG_GPS_IMG_DIRECTION);
+    if (typeof heading === 'number') metadata.heading = heading % 360;
+    const takenAt = toTimestamp(exif.get(TAG_DATE_TIME_ORIGINAL), exif.get(TAG_OFFSET_TIME_ORIGINAL));
+    if (takenAt !== undefined) metadata.takenAt = takenAt;
+
+    return Object.keys(metadata).length ? metadata : null;
+  } catch (err) {
+    // Truncated or malformed EXIF is common in edited photos; treat it as absent
+    return null;
+  }
+}
@@ -0,0 +1,32 @@
+
+/**
+ * Great-circle distance between two points, in metres.
+ */
+export function distanceMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export interface ScreenPoint<T> {
+  x: number;
+  y: number;
+  item: T;
+}
+
+/**
+ * Group points lying within the same cellSize square on screen. Each cluster
+ * keeps its items in input order; a cluster of one is a lone marker.
+ */
+export function clusterPoints<T>(points: ScreenPoint<T>[], cellSize: number): T[][] {
+  const cells = new Map<string, T[]>();
+  for (const point of points) {
+    const key = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(point.item);
+    else cells.set(key, [point.item]);
+  }
+  return Array.from(cells.values());
+}
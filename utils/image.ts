@@ -0,0 +1,193 @@
+
+const OUTPUT_MIME_TYPE = 'image/jpeg';
+const OUTPUT_QUALITY = 0.85;
+const THUMBNAIL_DIMENSION = 480;
+const THUMBNAIL_QUALITY = 0.7;
+const PREVIEW_DIMENSION = 512;
+const PREVIEW_QUALITY = 0.6;
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 24;
+
+// Some browsers leave File.type empty for formats they cannot display
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  avif: 'image/avif',
+};
+
+export interface NormalizeOptions {
+  maxDimension: number; // Longest edge in pixels, 0 keeps the original size
+  keepOriginal?: boolean;
+}
+
+export interface NormalizedImage {
+  dataUrl: string; // Upright, downscaled and labelled with its real type
+  mimeType: string;
+  width?: number;
+  height?: number;
+  thumbnailUrl?: string; // Missing when the browser cannot decode the format
+  originalUrl?: string; // Untouched file, only when asked to keep it
+}
+
+export function dataUrlMimeType(dataUrl: string): string | null {
+  return dataUrl.match(/^data:([^;,]+)/)?.[1] || null;
+}
+
+export function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Turn any image URL into a data URL so it survives being saved to a file.
+ * Remote images the server will not share across origins stay as links.
+ */
+export async function inlineImageUrl(url: string): Promise<string> {
+  if (!url || url.startsWith('data:')) return url;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return await readAsDataUrl(await response.blob());
+  } catch (err) {
+    console.warn("Could not inline image, keeping the link", err);
+    return url;
+  }
+}
+
+/**
+ * Decode an image URL for drawing on a canvas, or null when it cannot be read.
+ */
+export async function loadImageBitmap(url: string): Promise<ImageBitmap | null> {
+  if (!url) return null;
+  try {
+    const response = await fetch(url);
+    return await createImageBitmap(await response.blob());
+  } catch (err) {
+    console.warn("Could not decode image for drawing", err);
+    return null;
+  }
+}
+
+function fileMimeType(file: File): string {
+  if (file.type) return file.type;
+  const extension = file.name.toLowerCase().split('.').pop() || '';
+  return EXTENSION_MIME_TYPES[extension] || OUTPUT_MIME_TYPE;
+}
+
+async function encode(bitmap: ImageBitmap, maxDimension: number, quality: number): Promise<{ dataUrl: string; width: number; height: number }> {
+  const scale = maxDimension > 0 ? Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height)) : 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  // JPEG has no alpha; flatten transparent PNGs and WebPs onto white rather than black
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, OUTPUT_MIME_TYPE, quality));
+  if (!blob) throw new Error("Image encoding failed");
+  return { dataUrl: await readAsDataUrl(blob), width: canvas.width, height: canvas.height };
+}
+
+async function encodeNormalized(bitmap: ImageBitmap, maxDimension: number): Promise<NormalizedImage> {
+  const [image, thumbnail] = await Promise.all([
+    encode(bitmap, maxDimension, OUTPUT_QUALITY),
+    encode(bitmap, THUMBNAIL_DIMENSION, THUMBNAIL_QUALITY),
+  ]);
+  return {
+    dataUrl: image.dataUrl,
+    mimeType: OUTPUT_MIME_TYPE,
+    width: image.width,
+    height: image.height,
+    thumbnailUrl: thumbnail.dataUrl,
+  };
+}
+
+/**
+ * Decode a photo, turn it upright from its EXIF orientation, downscale it and
+ * re-encode it as JPEG, plus a small thumbnail for grids. Formats the browser
+ * cannot decode, e.g. HEIC outside Safari, pass through under their real type.
+ */
+export async function normalizeImage(file: File, options: NormalizeOptions): Promise<NormalizedImage> {
+  const mimeType = fileMimeType(file);
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (err) {
+    console.warn(`Cannot decode ${mimeType} here, sending it unchanged`, err);
+    const dataUrl = await readAsDataUrl(new Blob([file], { type: mimeType }));
+    return { dataUrl, mimeType, originalUrl: options.keepOriginal ? dataUrl : undefined };
+  }
+
+  try {
+    const [normalized, originalUrl] = await Promise.all([
+      encodeNormalized(bitmap, options.maxDimension),
+      options.keepOriginal ? readAsDataUrl(new Blob([file], { type: mimeType })) : undefined,
+    ]);
+    return { ...normalized, originalUrl };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Freeze the current camera frame as a normalized photo. Live frames have no
+ * EXIF and are already upright.
+ */
+export async function captureVideoFrame(video: HTMLVideoElement, maxDimension: number): Promise<NormalizedImage> {
+  const bitmap = await createImageBitmap(video);
+  try {
+    return await encodeNormalized(bitmap, maxDimension);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Small, low-quality still of the current frame for provisional recognition.
+ */
+export async function previewVideoFrame(video: HTMLVideoElement): Promise<string> {
+  const bitmap = await createImageBitmap(video);
+  try {
+    return (await encode(bitmap, PREVIEW_DIMENSION, PREVIEW_QUALITY)).dataUrl;
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Tiny grayscale fingerprint of the current frame, cheap enough to take on
+ * every tick and compare with frameDifference.
+ */
+export function frameSignature(video: HTMLVideoElement): Uint8Array {
+  const canvas = document.createElement('canvas');
+  canvas.width = SIGNATURE_WIDTH;
+  canvas.height = SIGNATURE_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(video, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const signature = new Uint8Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+  for (let i = 0; i < signature.length; i++) {
+    signature[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  return signature;
+}
+
+// Mean absolute luminance change per pixel, from 0 (identical) to 255
+export function frameDifference(a: Uint8Array, b: Uint8Array): number {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / a.length;
+}
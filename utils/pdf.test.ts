@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { createImagePdf } from "./pdf";
+
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+
+async function pdfText(blob: Blob): Promise<string> {
+  return new TextDecoder("latin1").decode(await blob.arrayBuffer());
+}
+
+describe("createImagePdf", () => {
+  it("lays source links over the page as URI annotations", async () => {
+    const text = await pdfText(createImagePdf([
+      { jpeg: JPEG, pixelWidth: 100, pixelHeight: 100, links: [{ x: 0, y: 0, width: 50, height: 10, uri: "https://example.com/a(b)" }] },
+      { jpeg: JPEG, pixelWidth: 100, pixelHeight: 100 },
+    ], { width: 100, height: 100 }));
+
+    expect(text).toContain("/Kids [3 0 R 7 0 R]");
+    expect(text).toContain("/Annots [6 0 R]");
+    expect(text).toContain("/Rect [0.00 90.00 50.00 100.00]");
+    expect(text).toContain("/URI (https://example.com/a\\(b\\))");
+  });
+
+  it("points every xref entry at its object", async () => {
+    const text = await pdfText(createImagePdf([
+      { jpeg: JPEG, pixelWidth: 10, pixelHeight: 10, links: [{ x: 1, y: 1, width: 1, height: 1, uri: "https://example.com/é" }] },
+    ]));
+    const xref = text.slice(text.lastIndexOf("\nxref\n"));
+    const offsets = Array.from(xref.matchAll(/^(\d{10}) 00000 n $/gm), match => Number(match[1]));
+
+    expect(offsets).toHaveLength(6);
+    offsets.forEach((offset, i) => expect(text.startsWith(`${i + 1} 0 obj`, offset)).toBe(true));
+    expect(text).toContain("/URI (https://example.com/%C3%A9)");
+  });
+});
@@ -0,0 +1,106 @@
+
+/**
+ * A clickable web link over part of a page, in image pixels from the top left.
+ */
+export interface PdfLink {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  uri: string;
+}
+
+export interface PdfPage {
+  jpeg: Uint8Array; // Baseline JPEG filling the whole page
+  pixelWidth: number;
+  pixelHeight: number;
+  links?: PdfLink[];
+}
+
+// A4 in PostScript points
+export const A4_POINTS = { width: 595.28, height: 841.89 };
+
+// PDF literal strings are bytes; URIs are kept to printable ASCII
+function pdfString(value: string): string {
+  const ascii = value.replace(/[^\x20-\x7e]/gu, char => encodeURIComponent(char));
+  return `(${ascii.replace(/[\\()]/g, char => `\\${char}`)})`;
+}
+
+/**
+ * Write a PDF whose pages are full-bleed JPEG images. Rendering pages on a
+ * canvas first keeps every script and font the browser can draw, which the
+ * fourteen built-in PDF fonts could not. The text is therefore not
+ * selectable; links are laid over the image as annotations.
+ */
+export function createImagePdf(pages: PdfPage[], pageSize = A4_POINTS): Blob {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  // Object n is written once, in order, so offsets[n - 1] is its xref entry
+  const beginObject = (id: number) => {
+    offsets[id - 1] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  const width = pageSize.width.toFixed(2);
+  const height = pageSize.height.toFixed(2);
+  // 1 catalog, 2 page tree, then page, image, content stream and its links per page
+  const pageIds: number[] = [];
+  let nextId = 3;
+  for (const page of pages) {
+    pageIds.push(nextId);
+    nextId += 3 + (page.links?.length || 0);
+  }
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  beginObject(2);
+  write(`<< /Type /Pages /Count ${pages.length} /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] >>\nendobj\n`);
+
+  pages.forEach((page, i) => {
+    const id = pageIds[i];
+    const links = page.links || [];
+    const annots = links.length ? ` /Annots [${links.map((_, n) => `${id + 3 + n} 0 R`).join(' ')}]` : '';
+    beginObject(id);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im${i} ${id + 1} 0 R >> >> /Contents ${id + 2} 0 R${annots} >>\nendobj\n`);
+
+    beginObject(id + 1);
+    write(`<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im${i} Do Q`;
+    beginObject(id + 2);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+    // PDF space has its origin at the bottom left and is measured in points
+    const scaleX = pageSize.width / page.pixelWidth;
+    const scaleY = pageSize.height / page.pixelHeight;
+    links.forEach((link, n) => {
+      const rect = [
+        link.x * scaleX,
+        pageSize.height - (link.y + link.height) * scaleY,
+        (link.x + link.width) * scaleX,
+        pageSize.height - link.y * scaleY,
+      ].map(value => value.toFixed(2)).join(' ');
+      beginObject(id + 3 + n);
+      write(`<< /Type /Annot /Subtype /Link /Rect [${rect}] /Border [0 0 0] /A << /S /URI /URI ${pdfString(link.uri)} >> >>\nendobj\n`);
+    });
+  });
+
+  const xrefOffset = length;
+  const objectCount = offsets.length + 1;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  write(offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join(''));
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+}
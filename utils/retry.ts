@@ -0,0 +1,76 @@
+
+export interface RetryOptions {
+  signal?: AbortSignal; // Cancels the call and any pending retry
+  timeoutMs: number; // Per attempt
+  retries?: number;
+  baseDelayMs?: number;
+}
+
+const TRANSIENT_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export class TimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'TimeoutError';
+  }
+}
+
+export function isAbortError(err: unknown): boolean {
+  return (err as Error | undefined)?.name === 'AbortError';
+}
+
+// Timeouts, throttling, server hiccups and dropped connections are worth another try
+export function isTransientError(err: unknown): boolean {
+  if (err instanceof TimeoutError) return true;
+  const status = (err as { status?: number } | undefined)?.status;
+  if (typeof status === 'number') return TRANSIENT_STATUSES.has(status);
+  return err instanceof TypeError && /fetch|network/i.test(err.message);
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+}
+
+/**
+ * Settle as soon as the signal aborts, even if the task itself ignores it.
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(abortReason(signal));
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  const wait = new Promise<void>(resolve => setTimeout(resolve, ms));
+  return signal ? raceAbort(wait, signal) : wait;
+}
+
+/**
+ * Run a task with a per-attempt timeout, retrying transient failures with
+ * exponential backoff and jitter. Aborting the outer signal stops everything
+ * and rejects with an AbortError.
+ */
+export async function withRetry<T>(task: (signal: AbortSignal) => Promise<T>, options: RetryOptions): Promise<T> {
+  const { signal, timeoutMs, retries = 2, baseDelayMs = 800 } = options;
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw abortReason(signal);
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(abortReason(signal!));
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(() => controller.abort(new TimeoutError(timeoutMs)), timeoutMs);
+    try {
+      return await raceAbort(task(controller.signal), controller.signal);
+    } catch (err) {
+      if (signal?.aborted || attempt >= retries || !isTransientError(err)) throw err;
+      const backoff = baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+      console.warn(`Attempt ${attempt + 1} failed, retrying in ${Math.round(backoff)}ms`, err);
+      await sleep(backoff, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { splitSentences, timeTranscript } from "./transcript";
+
+describe("splitSentences", () => {
+  it("breaks Latin text after stops and semicolons, not inside numbers", () => {
+    expect(splitSentences("Built c.1200 for 1.5 million livres. It burned; it was rebuilt! Why?")).toEqual([
+      "Built c.1200 for 1.5 million livres.",
+      "It burned;",
+      "it was rebuilt!",
+      "Why?",
+    ]);
+  });
+
+  it("breaks Japanese and Chinese text on full-width stops", () => {
+    expect(splitSentences("東京タワーは1958年に完成しました。高さは333メートルです！「美しい」と言われます。")).toEqual([
+      "東京タワーは1958年に完成しました。",
+      "高さは333メートルです！",
+      "「美しい」と言われます。",
+    ]);
+    expect(splitSentences("故宫建于明朝；清朝继续使用。你去过吗？")).toEqual([
+      "故宫建于明朝；",
+      "清朝继续使用。",
+      "你去过吗？",
+    ]);
+  });
+});
+
+describe("timeTranscript", () => {
+  it("gives a CJK transcript one cue per sentence", () => {
+    const cues = timeTranscript("一。二三。", 3);
+    expect(cues.map(cue => cue.text)).toEqual(["一。", "二三。"]);
+    expect(cues[1].end).toBeCloseTo(3);
+  });
+});
@@ -0,0 +1,32 @@
+
+export interface TranscriptSentence {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Latin stops need following whitespace so "1.5" and "c.1200" stay intact; CJK stops never have any
+const SENTENCE_BREAK = /(?<=[.!?;。！？；]["'”’)」』）]*)\s+|(?<=[。！？；][」』）]*)(?![」』）\s])/
+
+export function splitSentences(text: string): string[] {
+  return text.split(SENTENCE_BREAK)
+    .map(s => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Estimate when each sentence is spoken. TTS returns no word timings, so the
+ * audio is shared out in proportion to sentence length.
+ */
+export function timeTranscript(script: string, duration: number): TranscriptSentence[] {
+  const sentences = splitSentences(script);
+  const totalChars = sentences.reduce((sum, s) => sum + s.length, 0);
+  if (!totalChars || duration <= 0) return sentences.map(text => ({ text, start: 0, end: 0 }));
+
+  let cursor = 0;
+  return sentences.map(text => {
+    const start = cursor;
+    cursor += (text.length / totalChars) * duration;
+    return { text, start, end: cursor };
+  });
+}
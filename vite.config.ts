@@ -1,18 +1,52 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+// Copied as is by Vite from public/, so listed by hand
+const STATIC_SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+/**
+ * Emit sw.js with the hashed build files to precache and a version derived
+ * from them, so a deploy that changes anything installs a new worker.
+ */
+function serviceWorker(): Plugin {
+  return {
+    name: 'lumina-service-worker',
+    apply: 'build',
+    generateBundle(_, bundle) {
+      const files = Object.keys(bundle).map(file => `/${file}`).filter(file => !STATIC_SHELL.includes(file));
+      const shell = [...STATIC_SHELL, ...files];
+      const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf8');
+      const version = createHash('sha256')
+        .update(shell.join('\n'))
+        .update(fs.readFileSync(path.resolve(__dirname, 'index.html')))
+        .update(source)
+        .digest('hex')
+        .slice(0, 12);
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: source.replace('__BUILD_VERSION__', version).replace("'__APP_SHELL__'", JSON.stringify(shell)),
+      });
+    }
+  };
+}
+
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.SERVICE_WORKER': JSON.stringify(command === 'build')
       },
       resolve: {
         alias: {